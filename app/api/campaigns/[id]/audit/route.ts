@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { auditQuerySchema, formatZodError } from "@/lib/validations";
+
+const MAX_ENTRIES = 500;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: campaignId } = await params;
+  const { searchParams } = new URL(request.url);
+
+  const result = auditQuerySchema.safeParse(
+    Object.fromEntries(searchParams.entries())
+  );
+  if (!result.success) {
+    return NextResponse.json(
+      { error: formatZodError(result.error) },
+      { status: 400 }
+    );
+  }
+
+  const { entityType, from, to } = result.data;
+
+  let query = supabase
+    .from("audit_log")
+    .select("*")
+    .eq("campaign_id", campaignId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_ENTRIES);
+
+  if (entityType) {
+    query = query.eq("entity_type", entityType);
+  }
+
+  if (from) {
+    query = query.gte("created_at", `${from}T00:00:00Z`);
+  }
+
+  if (to) {
+    const end = new Date(`${to}T00:00:00Z`);
+    end.setUTCDate(end.getUTCDate() + 1);
+    query = query.lt("created_at", end.toISOString());
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAuditedRepository } from "@/lib/audit";
+import { reviewPlanItem, reviewErrorStatus } from "@/lib/planner/review";
+import { approveItemSchema, formatZodError } from "@/lib/validations";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; weekId: string }> }
+) {
+  const { id: campaignId, weekId: weeklyPlanId } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = approveItemSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: formatZodError(result.error) },
+      { status: 400 }
+    );
+  }
+
+  const { itemType, itemId, reviewer, note } = result.data;
+
+  let review;
+  try {
+    review = await reviewPlanItem(
+      campaignId,
+      weeklyPlanId,
+      {
+        itemType,
+        itemId,
+        status: "approved",
+        reviewer,
+        note: note || null,
+      },
+      createAuditedRepository(reviewer, {
+        entityType: itemType === "post" ? "planned_post" : "planned_comment",
+        action: "approve",
+      })
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json(
+      { error: message },
+      { status: reviewErrorStatus(err) }
+    );
+  }
+
+  return NextResponse.json({
+    item: review.item,
+    planStatus: review.planStatus,
+  });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { repository } from "@/lib/repository";
+
+export async function GET(
+  _request: NextRequest,
+  {
+    params,
+  }: { params: Promise<{ id: string; weekId: string; commentId: string }> }
+) {
+  const { id: campaignId, weekId: weeklyPlanId, commentId } = await params;
+
+  try {
+    const comment = await repository.comments.get(commentId);
+    const post = comment
+      ? await repository.posts.get(comment.planned_post_id)
+      : null;
+
+    if (
+      !comment ||
+      !post ||
+      post.campaign_id !== campaignId ||
+      post.weekly_plan_id !== weeklyPlanId
+    ) {
+      return NextResponse.json(
+        { error: "Planned comment not found" },
+        { status: 404 }
+      );
+    }
+
+    const revisions =
+      await repository.commentRevisions.listByComment(commentId);
+    return NextResponse.json({ revisions });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { actorRequired, createAuditedRepository, getActor } from "@/lib/audit";
+import { editPlannedComment } from "@/lib/planner";
+import { formatZodError, updateCommentSchema } from "@/lib/validations";
+
+export async function PATCH(
+  request: NextRequest,
+  {
+    params,
+  }: { params: Promise<{ id: string; weekId: string; commentId: string }> }
+) {
+  const { id: campaignId, weekId: weeklyPlanId, commentId } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = updateCommentSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: formatZodError(result.error) },
+      { status: 400 }
+    );
+  }
+
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+
+  let edited;
+  try {
+    edited = await editPlannedComment(
+      {
+        campaignId,
+        weeklyPlanId,
+        commentId,
+        text: result.data.comment_text,
+        actor,
+      },
+      { repository: createAuditedRepository(actor) }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json(
+      { error: message },
+      { status: message.endsWith("not found") ? 404 : 400 }
+    );
+  }
+
+  return NextResponse.json({
+    comment: edited.comment,
+    revision: edited.revision,
+    post: edited.post,
+    planStatus: edited.planStatus,
+  });
+}
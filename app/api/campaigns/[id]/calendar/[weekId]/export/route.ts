@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { exportQuerySchema, formatZodError } from "@/lib/validations";
+import {
+  buildWeekExport,
+  renderWeekExport,
+  EXPORT_CONTENT_TYPES,
+} from "@/lib/planner/export";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; weekId: string }> }
+) {
+  const { id: campaignId, weekId: weeklyPlanId } = await params;
+  const { searchParams } = new URL(request.url);
+
+  const result = exportQuerySchema.safeParse(
+    Object.fromEntries(searchParams.entries())
+  );
+  if (!result.success) {
+    return NextResponse.json(
+      { error: formatZodError(result.error) },
+      { status: 400 }
+    );
+  }
+
+  const { format } = result.data;
+
+  const { data: campaign, error: campaignError } = await supabase
+    .from("campaigns")
+    .select("*")
+    .eq("id", campaignId)
+    .maybeSingle();
+
+  if (campaignError) {
+    return NextResponse.json({ error: campaignError.message }, { status: 500 });
+  }
+
+  const { data: plan, error: planError } = await supabase
+    .from("weekly_plans")
+    .select("*")
+    .eq("id", weeklyPlanId)
+    .eq("campaign_id", campaignId)
+    .maybeSingle();
+
+  if (planError) {
+    return NextResponse.json({ error: planError.message }, { status: 500 });
+  }
+
+  if (!campaign || !plan) {
+    return NextResponse.json(
+      { error: "Weekly plan not found" },
+      { status: 404 }
+    );
+  }
+
+  const { data: posts, error: postsError } = await supabase
+    .from("planned_posts")
+    .select("*")
+    .eq("weekly_plan_id", weeklyPlanId);
+
+  if (postsError) {
+    return NextResponse.json({ error: postsError.message }, { status: 500 });
+  }
+
+  const { data: comments, error: commentsError } = await supabase
+    .from("planned_comments")
+    .select("*")
+    .in(
+      "planned_post_id",
+      (posts || []).map((p) => p.id)
+    );
+
+  if (commentsError) {
+    return NextResponse.json({ error: commentsError.message }, { status: 500 });
+  }
+
+  const { data: personas, error: personasError } = await supabase
+    .from("personas")
+    .select("id, username")
+    .eq("campaign_id", campaignId);
+
+  if (personasError) {
+    return NextResponse.json({ error: personasError.message }, { status: 500 });
+  }
+
+  const week = buildWeekExport({
+    campaign,
+    plan,
+    posts: posts || [],
+    comments: comments || [],
+    personas: personas || [],
+  });
+
+  const filename = `${campaign.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")}-week-${plan.week_start_date}.${format}`;
+
+  return new NextResponse(renderWeekExport(week, format), {
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
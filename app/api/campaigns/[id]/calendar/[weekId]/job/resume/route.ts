@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { actorRequired, createAuditedRepository, getActor } from "@/lib/audit";
+import { repository } from "@/lib/repository";
+import { resumeGenerationJob } from "@/lib/planner/jobs";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; weekId: string }> }
+) {
+  const { id: campaignId, weekId: weeklyPlanId } = await params;
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+
+  const latest = await repository.jobs.getLatestForPlan(weeklyPlanId);
+  if (!latest || latest.campaign_id !== campaignId) {
+    return NextResponse.json(
+      { error: "Generation job not found" },
+      { status: 404 }
+    );
+  }
+
+  let job;
+  try {
+    job = await resumeGenerationJob(
+      latest.id,
+      repository,
+      createAuditedRepository(actor)
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  return NextResponse.json({ job });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { repository } from "@/lib/repository";
+import { isJobInterrupted } from "@/lib/planner/jobs";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; weekId: string }> }
+) {
+  const { id: campaignId, weekId: weeklyPlanId } = await params;
+
+  try {
+    const job = await repository.jobs.getLatestForPlan(weeklyPlanId);
+
+    if (!job || job.campaign_id !== campaignId) {
+      return NextResponse.json({ job: null });
+    }
+
+    return NextResponse.json({
+      job: { ...job, interrupted: isJobInterrupted(job) },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAuditedRepository } from "@/lib/audit";
+import { approveLegal, reviewErrorStatus } from "@/lib/planner/review";
+import { formatZodError, legalApproveSchema } from "@/lib/validations";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; weekId: string }> }
+) {
+  const { id: campaignId, weekId: weeklyPlanId } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = legalApproveSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: formatZodError(result.error) },
+      { status: 400 }
+    );
+  }
+
+  const { postId, approver } = result.data;
+
+  let approval;
+  try {
+    approval = await approveLegal(
+      campaignId,
+      weeklyPlanId,
+      {
+        postId,
+        approver,
+      },
+      createAuditedRepository(approver, {
+        entityType: "planned_post",
+        action: "legal_approve",
+      })
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json(
+      { error: message },
+      { status: reviewErrorStatus(err) }
+    );
+  }
+
+  return NextResponse.json({ item: approval.item });
+}
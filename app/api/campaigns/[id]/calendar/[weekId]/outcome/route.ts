@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAuditedRepository } from "@/lib/audit";
+import { recordOutcome, reviewErrorStatus } from "@/lib/planner/review";
+import { formatZodError, recordOutcomeSchema } from "@/lib/validations";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; weekId: string }> }
+) {
+  const { id: campaignId, weekId: weeklyPlanId } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = recordOutcomeSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: formatZodError(result.error) },
+      { status: 400 }
+    );
+  }
+
+  const { postId, outcome, note, recorder } = result.data;
+
+  let recorded;
+  try {
+    recorded = await recordOutcome(
+      campaignId,
+      weeklyPlanId,
+      {
+        postId,
+        outcome,
+        note: note || null,
+        recorder,
+      },
+      createAuditedRepository(recorder, {
+        entityType: "planned_post",
+        action: "record_outcome",
+      })
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json(
+      { error: message },
+      { status: reviewErrorStatus(err) }
+    );
+  }
+
+  return NextResponse.json({
+    item: recorded.item,
+    pausedSubreddit: recorded.pausedSubreddit,
+  });
+}
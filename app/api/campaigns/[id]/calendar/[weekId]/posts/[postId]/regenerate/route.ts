@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { actorRequired, createAuditedRepository, getActor } from "@/lib/audit";
+import { regeneratePlannedPost } from "@/lib/planner";
+import { formatZodError, regeneratePostSchema } from "@/lib/validations";
+
+export async function POST(
+  request: NextRequest,
+  {
+    params,
+  }: { params: Promise<{ id: string; weekId: string; postId: string }> }
+) {
+  const { id: campaignId, weekId: weeklyPlanId, postId } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = regeneratePostSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: formatZodError(result.error) },
+      { status: 400 }
+    );
+  }
+
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+
+  let regenerated;
+  try {
+    regenerated = await regeneratePlannedPost(
+      {
+        campaignId,
+        weeklyPlanId,
+        postId,
+        mode: result.data.mode,
+        actor,
+      },
+      {
+        repository: createAuditedRepository(actor, {
+          entityType: "planned_post",
+          action: "regenerate",
+        }),
+      }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json(
+      { error: message },
+      { status: message === "Planned post not found" ? 404 : 400 }
+    );
+  }
+
+  return NextResponse.json({
+    post: regenerated.post,
+    revision: regenerated.revision,
+    planStatus: regenerated.planStatus,
+  });
+}
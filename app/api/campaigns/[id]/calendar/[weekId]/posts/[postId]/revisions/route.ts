@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { repository } from "@/lib/repository";
+
+export async function GET(
+  _request: NextRequest,
+  {
+    params,
+  }: { params: Promise<{ id: string; weekId: string; postId: string }> }
+) {
+  const { id: campaignId, weekId: weeklyPlanId, postId } = await params;
+
+  try {
+    const post = await repository.posts.get(postId);
+
+    if (
+      !post ||
+      post.campaign_id !== campaignId ||
+      post.weekly_plan_id !== weeklyPlanId
+    ) {
+      return NextResponse.json(
+        { error: "Planned post not found" },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await repository.postRevisions.listByPost(postId);
+    return NextResponse.json({ revisions });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { actorRequired, createAuditedRepository, getActor } from "@/lib/audit";
+import { editPlannedPost } from "@/lib/planner";
+import { formatZodError, updatePostSchema } from "@/lib/validations";
+
+export async function PATCH(
+  request: NextRequest,
+  {
+    params,
+  }: { params: Promise<{ id: string; weekId: string; postId: string }> }
+) {
+  const { id: campaignId, weekId: weeklyPlanId, postId } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = updatePostSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: formatZodError(result.error) },
+      { status: 400 }
+    );
+  }
+
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+
+  let edited;
+  try {
+    edited = await editPlannedPost(
+      {
+        campaignId,
+        weeklyPlanId,
+        postId,
+        title: result.data.title,
+        body: result.data.body,
+        actor,
+      },
+      { repository: createAuditedRepository(actor) }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json(
+      { error: message },
+      { status: message.endsWith("not found") ? 404 : 400 }
+    );
+  }
+
+  return NextResponse.json({
+    post: edited.post,
+    revision: edited.revision,
+    planStatus: edited.planStatus,
+  });
+}
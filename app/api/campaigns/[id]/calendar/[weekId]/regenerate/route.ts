@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { actorRequired, createAuditedClient, getActor } from "@/lib/audit";
 
 export async function POST(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string; weekId: string }> }
 ) {
   const { id: campaignId, weekId: weeklyPlanId } = await params;
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
 
   const { data: campaign, error: campaignError } = await supabase
     .from("campaigns")
@@ -79,6 +82,12 @@ export async function POST(
     );
   }
 
+  // The old and new plan are both recorded as regenerated
+  const db = createAuditedClient(actor, {
+    entityType: "weekly_plan",
+    action: "regenerate",
+  });
+
   try {
     // Delete existing posts and comments
     const { data: existingPosts } = await supabase
@@ -86,26 +95,24 @@ export async function POST(
       .select("id")
       .eq("weekly_plan_id", weeklyPlanId);
 
-    if (existingPosts && existingPosts.length > 0) {
-      const postIds = existingPosts.map((p) => p.id);
-      await supabase
-        .from("planned_comments")
-        .delete()
-        .in("planned_post_id", postIds);
-      await supabase
+    const postIds = (existingPosts || []).map((p) => p.id);
+
+    if (postIds.length > 0) {
+      await db.from("planned_comments").delete().in("planned_post_id", postIds);
+      await db
         .from("planned_posts")
         .delete()
         .eq("weekly_plan_id", weeklyPlanId);
     }
 
     // Delete the old weekly plan
-    await supabase.from("weekly_plans").delete().eq("id", weeklyPlanId);
+    await db.from("weekly_plans").delete().eq("id", weeklyPlanId);
 
     // Create a new weekly plan with "generating" status (same week start date)
     const weekStartDate = new Date(weeklyPlan.week_start_date + "T00:00:00Z");
     const weekStartDateStr = weekStartDate.toISOString().split("T")[0];
 
-    const { data: newPlan, error: newPlanError } = await supabase
+    const { data: newPlan, error: newPlanError } = await db
       .from("weekly_plans")
       .insert({
         campaign_id: campaignId,
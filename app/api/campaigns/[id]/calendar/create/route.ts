@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { actorRequired, createAuditedClient, getActor } from "@/lib/audit";
 import { getCurrentWeekStart, getNextWeekStart } from "@/lib/planner";
 
 export async function POST(
@@ -7,6 +8,8 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: campaignId } = await params;
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
 
   let body;
   try {
@@ -19,7 +22,7 @@ export async function POST(
 
   const { data: campaign, error: campaignError } = await supabase
     .from("campaigns")
-    .select("id, posts_per_week")
+    .select("id, posts_per_week, timezone")
     .eq("id", campaignId)
     .single();
 
@@ -70,14 +73,16 @@ export async function POST(
     startDate = new Date(latestPlan.week_start_date + "T00:00:00Z");
     startDate.setUTCDate(startDate.getUTCDate() + 7);
   } else if (isNextWeek) {
-    startDate = getNextWeekStart();
+    startDate = getNextWeekStart(new Date(), campaign.timezone);
   } else {
-    startDate = getCurrentWeekStart();
+    startDate = getCurrentWeekStart(new Date(), campaign.timezone);
   }
 
   const weekStartDateStr = startDate.toISOString().split("T")[0];
 
-  const { data: weeklyPlan, error: planError } = await supabase
+  const { data: weeklyPlan, error: planError } = await createAuditedClient(
+    actor
+  )
     .from("weekly_plans")
     .insert({
       campaign_id: campaignId,
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { actorRequired, createAuditedClient, getActor } from "@/lib/audit";
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: campaignId } = await params;
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+
   const { searchParams } = new URL(request.url);
   const weeklyPlanId = searchParams.get("weeklyPlanId");
 
@@ -16,7 +20,21 @@ export async function DELETE(
     );
   }
 
-  const { error } = await supabase
+  const { data: plan } = await supabase
+    .from("weekly_plans")
+    .select("*")
+    .eq("id", weeklyPlanId)
+    .eq("campaign_id", campaignId)
+    .single();
+
+  if (!plan) {
+    return NextResponse.json(
+      { error: "Weekly plan not found" },
+      { status: 404 }
+    );
+  }
+
+  const { error } = await createAuditedClient(actor)
     .from("weekly_plans")
     .delete()
     .eq("id", weeklyPlanId)
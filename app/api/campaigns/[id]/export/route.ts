@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { createCampaignBundle } from "@/lib/bundle";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: campaignId } = await params;
+
+  const { data: campaign } = await supabase
+    .from("campaigns")
+    .select("*")
+    .eq("id", campaignId)
+    .single();
+
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  const [subredditsResult, keywordsResult] = await Promise.all([
+    supabase.from("subreddits").select("*").eq("campaign_id", campaignId),
+    supabase.from("keywords").select("*").eq("campaign_id", campaignId),
+  ]);
+
+  const error = subredditsResult.error || keywordsResult.error;
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const bundle = createCampaignBundle({
+    campaign,
+    subreddits: subredditsResult.data || [],
+    keywords: keywordsResult.data || [],
+  });
+
+  const filename = `${campaign.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")}-campaign.json`;
+
+  return NextResponse.json(bundle, {
+    headers: {
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
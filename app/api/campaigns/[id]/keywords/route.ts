@@ -1,24 +1,46 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabase } from "@/lib/supabase";
+import { actorRequired, createAuditedClient, getActor } from "@/lib/audit";
+import {
+  createKeywordsSchema,
+  formatZodError,
+  getFieldErrors,
+  updateKeywordSchema,
+} from "@/lib/validations";
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: campaignId } = await params;
-  const body = await request.json();
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+  const db = createAuditedClient(actor);
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
 
-  const { keyword_text, texts } = body;
-  const keywordTexts: string[] = texts || (keyword_text ? [keyword_text] : []);
+  const result = createKeywordsSchema.safeParse(body);
 
-  if (keywordTexts.length === 0) {
+  if (!result.success) {
     return NextResponse.json(
-      { error: "At least one keyword text is required" },
+      {
+        error: formatZodError(result.error),
+        fieldErrors: getFieldErrors(result.error),
+      },
       { status: 400 }
     );
   }
 
-  const { count } = await supabase
+  const { keyword_text, texts } = result.data;
+  const keywordTexts = [
+    ...(keyword_text ? [keyword_text] : []),
+    ...(texts || []),
+  ];
+
+  const { count } = await db
     .from("keywords")
     .select("*", { count: "exact", head: true })
     .eq("campaign_id", campaignId);
@@ -28,15 +50,12 @@ export async function POST(
   const records = keywordTexts.map((text, i) => ({
     campaign_id: campaignId,
     keyword_code: `K${startIndex + i}`,
-    keyword_text: text.trim(),
+    keyword_text: text,
     intent: "informational",
     is_active: true,
   }));
 
-  const { data, error } = await supabase
-    .from("keywords")
-    .insert(records)
-    .select();
+  const { data, error } = await db.from("keywords").insert(records).select();
 
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 });
@@ -45,18 +64,47 @@ export async function POST(
   return NextResponse.json(data, { status: 201 });
 }
 
-export async function PUT(request: NextRequest) {
-  const body = await request.json();
-  const { id, ...updates } = body;
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: campaignId } = await params;
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+  const db = createAuditedClient(actor);
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = updateKeywordSchema.safeParse(body);
 
-  if (!id) {
+  if (!result.success) {
     return NextResponse.json(
-      { error: "keyword id is required" },
+      {
+        error: formatZodError(result.error),
+        fieldErrors: getFieldErrors(result.error),
+      },
       { status: 400 }
     );
   }
 
-  const { data, error } = await supabase
+  const { id, ...updates } = result.data;
+
+  const { data: existing } = await db
+    .from("keywords")
+    .select("*")
+    .eq("id", id)
+    .eq("campaign_id", campaignId)
+    .single();
+
+  if (!existing) {
+    return NextResponse.json({ error: "Keyword not found" }, { status: 404 });
+  }
+
+  const { data, error } = await db
     .from("keywords")
     .update({ ...updates, updated_at: new Date().toISOString() })
     .eq("id", id)
@@ -70,7 +118,14 @@ export async function PUT(request: NextRequest) {
   return NextResponse.json(data);
 }
 
-export async function DELETE(request: NextRequest) {
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: campaignId } = await params;
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+  const db = createAuditedClient(actor);
   const { searchParams } = new URL(request.url);
   const keywordId = searchParams.get("keywordId");
 
@@ -81,10 +136,18 @@ export async function DELETE(request: NextRequest) {
     );
   }
 
-  const { error } = await supabase
+  const { data: existing } = await db
     .from("keywords")
-    .delete()
-    .eq("id", keywordId);
+    .select("*")
+    .eq("id", keywordId)
+    .eq("campaign_id", campaignId)
+    .single();
+
+  if (!existing) {
+    return NextResponse.json({ error: "Keyword not found" }, { status: 404 });
+  }
+
+  const { error } = await db.from("keywords").delete().eq("id", keywordId);
 
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 });
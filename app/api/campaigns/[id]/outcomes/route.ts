@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+
+const MAX_OUTCOMES = 200;
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: campaignId } = await params;
+
+  const { data, error } = await supabase
+    .from("planned_posts")
+    .select("*")
+    .eq("campaign_id", campaignId)
+    .not("outcome", "is", null)
+    .order("outcome_recorded_at", { ascending: false })
+    .limit(MAX_OUTCOMES);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
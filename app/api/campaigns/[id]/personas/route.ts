@@ -1,32 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabase } from "@/lib/supabase";
+import { actorRequired, createAuditedClient, getActor } from "@/lib/audit";
+import {
+  createPersonaSchema,
+  formatZodError,
+  getFieldErrors,
+  setOperatorSchema,
+  updatePersonaSchema,
+} from "@/lib/validations";
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: campaignId } = await params;
-  const body = await request.json();
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+  const db = createAuditedClient(actor);
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
 
-  const { username, bio } = body;
+  const result = createPersonaSchema.safeParse(body);
 
-  if (!username) {
+  if (!result.success) {
     return NextResponse.json(
-      { error: "username is required" },
+      {
+        error: formatZodError(result.error),
+        fieldErrors: getFieldErrors(result.error),
+      },
       { status: 400 }
     );
   }
 
-  if (!bio) {
-    return NextResponse.json({ error: "bio is required" }, { status: 400 });
-  }
+  const { consent, ...fields } = result.data;
 
-  const { data, error } = await supabase
+  const { data, error } = await db
     .from("personas")
     .insert({
       campaign_id: campaignId,
-      username,
-      bio,
+      ...fields,
+      consent_given_at: consent ? new Date().toISOString() : null,
       is_active: true,
     })
     .select()
@@ -39,20 +55,57 @@ export async function POST(
   return NextResponse.json(data, { status: 201 });
 }
 
-export async function PUT(request: NextRequest) {
-  const body = await request.json();
-  const { id, ...updates } = body;
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: campaignId } = await params;
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+  const db = createAuditedClient(actor);
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
 
-  if (!id) {
+  const result = updatePersonaSchema.safeParse(body);
+
+  if (!result.success) {
     return NextResponse.json(
-      { error: "persona id is required" },
+      {
+        error: formatZodError(result.error),
+        fieldErrors: getFieldErrors(result.error),
+      },
       { status: 400 }
     );
   }
 
-  const { data, error } = await supabase
+  const { id, consent, ...updates } = result.data;
+
+  const { data: existing } = await db
     .from("personas")
-    .update({ ...updates, updated_at: new Date().toISOString() })
+    .select("*")
+    .eq("id", id)
+    .eq("campaign_id", campaignId)
+    .single();
+
+  if (!existing) {
+    return NextResponse.json({ error: "Persona not found" }, { status: 404 });
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await db
+    .from("personas")
+    .update({
+      ...updates,
+      // Keep the original consent date when consent is confirmed again
+      ...(consent !== undefined && {
+        consent_given_at: consent ? existing.consent_given_at || now : null,
+      }),
+      updated_at: now,
+    })
     .eq("id", id)
     .select()
     .single();
@@ -64,7 +117,14 @@ export async function PUT(request: NextRequest) {
   return NextResponse.json(data);
 }
 
-export async function DELETE(request: NextRequest) {
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: campaignId } = await params;
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+  const db = createAuditedClient(actor);
   const { searchParams } = new URL(request.url);
   const personaId = searchParams.get("personaId");
 
@@ -75,10 +135,18 @@ export async function DELETE(request: NextRequest) {
     );
   }
 
-  const { error } = await supabase
+  const { data: existing } = await db
     .from("personas")
-    .delete()
-    .eq("id", personaId);
+    .select("*")
+    .eq("id", personaId)
+    .eq("campaign_id", campaignId)
+    .single();
+
+  if (!existing) {
+    return NextResponse.json({ error: "Persona not found" }, { status: 404 });
+  }
+
+  const { error } = await db.from("personas").delete().eq("id", personaId);
 
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 });
@@ -92,26 +160,41 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: campaignId } = await params;
-  const body = await request.json();
-  const { personaId } = body;
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+  const db = createAuditedClient(actor);
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
 
-  if (!personaId) {
+  const result = setOperatorSchema.safeParse(body);
+
+  if (!result.success) {
     return NextResponse.json(
-      { error: "personaId is required" },
+      {
+        error: formatZodError(result.error),
+        fieldErrors: getFieldErrors(result.error),
+      },
       { status: 400 }
     );
   }
 
-  const { error: clearError } = await supabase
+  const { personaId } = result.data;
+
+  const { error: clearError } = await db
     .from("personas")
     .update({ is_operator: false, updated_at: new Date().toISOString() })
-    .eq("campaign_id", campaignId);
+    .eq("campaign_id", campaignId)
+    .eq("is_operator", true);
 
   if (clearError) {
     return NextResponse.json({ error: clearError.message }, { status: 500 });
   }
 
-  const { data, error: setError } = await supabase
+  const { data, error: setError } = await db
     .from("personas")
     .update({ is_operator: true, updated_at: new Date().toISOString() })
     .eq("id", personaId)
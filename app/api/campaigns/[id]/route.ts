@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { actorRequired, createAuditedClient, getActor } from "@/lib/audit";
+import {
+  formatZodError,
+  getFieldErrors,
+  updateCampaignSchema,
+} from "@/lib/validations";
 
 export async function GET(
   request: NextRequest,
@@ -42,12 +48,32 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  const body = await request.json();
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
 
-  const { data, error } = await supabase
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = updateCampaignSchema.safeParse(body);
+
+  if (!result.success) {
+    return NextResponse.json(
+      {
+        error: formatZodError(result.error),
+        fieldErrors: getFieldErrors(result.error),
+      },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await createAuditedClient(actor)
     .from("campaigns")
     .update({
-      ...body,
+      ...result.data,
       updated_at: new Date().toISOString(),
     })
     .eq("id", id)
@@ -66,8 +92,13 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
 
-  const { error } = await supabase.from("campaigns").delete().eq("id", id);
+  const { error } = await createAuditedClient(actor)
+    .from("campaigns")
+    .delete()
+    .eq("id", id);
 
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 });
@@ -1,51 +1,50 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabase } from "@/lib/supabase";
+import { actorRequired, createAuditedClient, getActor } from "@/lib/audit";
+import {
+  createSubredditsSchema,
+  formatZodError,
+  getFieldErrors,
+  updateSubredditSchema,
+} from "@/lib/validations";
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: campaignId } = await params;
-  const body = await request.json();
-
-  const { name, names } = body;
-
-  let subredditNames: string[] = [];
-  if (names && Array.isArray(names)) {
-    subredditNames = names;
-  } else if (name) {
-    subredditNames = [name];
-  }
-
-  if (subredditNames.length === 0) {
-    return NextResponse.json(
-      { error: "name or names is required" },
-      { status: 400 }
-    );
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+  const db = createAuditedClient(actor);
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
   }
 
-  const cleanNames = [
-    ...new Set(
-      subredditNames
-        .map((n) => n.trim().replace(/^r\//, ""))
-        .filter((n) => n.length > 0)
-    ),
-  ];
+  const result = createSubredditsSchema.safeParse(body);
 
-  if (cleanNames.length === 0) {
+  if (!result.success) {
     return NextResponse.json(
-      { error: "No valid subreddit names provided" },
+      {
+        error: formatZodError(result.error),
+        fieldErrors: getFieldErrors(result.error),
+      },
       { status: 400 }
     );
   }
 
+  const { name, names, rules } = result.data;
+  const cleanNames = [...new Set([...(name ? [name] : []), ...(names || [])])];
+
   const insertData = cleanNames.map((n) => ({
     campaign_id: campaignId,
     name: n,
     is_active: true,
+    rules,
   }));
 
-  const { data, error } = await supabase
+  const { data, error } = await db
     .from("subreddits")
     .insert(insertData)
     .select();
@@ -57,18 +56,47 @@ export async function POST(
   return NextResponse.json(data, { status: 201 });
 }
 
-export async function PUT(request: NextRequest) {
-  const body = await request.json();
-  const { id, ...updates } = body;
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: campaignId } = await params;
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+  const db = createAuditedClient(actor);
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = updateSubredditSchema.safeParse(body);
 
-  if (!id) {
+  if (!result.success) {
     return NextResponse.json(
-      { error: "subreddit id is required" },
+      {
+        error: formatZodError(result.error),
+        fieldErrors: getFieldErrors(result.error),
+      },
       { status: 400 }
     );
   }
 
-  const { data, error } = await supabase
+  const { id, ...updates } = result.data;
+
+  const { data: existing } = await db
+    .from("subreddits")
+    .select("*")
+    .eq("id", id)
+    .eq("campaign_id", campaignId)
+    .single();
+
+  if (!existing) {
+    return NextResponse.json({ error: "Subreddit not found" }, { status: 404 });
+  }
+
+  const { data, error } = await db
     .from("subreddits")
     .update({ ...updates, updated_at: new Date().toISOString() })
     .eq("id", id)
@@ -82,7 +110,14 @@ export async function PUT(request: NextRequest) {
   return NextResponse.json(data);
 }
 
-export async function DELETE(request: NextRequest) {
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: campaignId } = await params;
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+  const db = createAuditedClient(actor);
   const { searchParams } = new URL(request.url);
   const subredditId = searchParams.get("subredditId");
 
@@ -93,10 +128,18 @@ export async function DELETE(request: NextRequest) {
     );
   }
 
-  const { error } = await supabase
+  const { data: existing } = await db
     .from("subreddits")
-    .delete()
-    .eq("id", subredditId);
+    .select("*")
+    .eq("id", subredditId)
+    .eq("campaign_id", campaignId)
+    .single();
+
+  if (!existing) {
+    return NextResponse.json({ error: "Subreddit not found" }, { status: 404 });
+  }
+
+  const { error } = await db.from("subreddits").delete().eq("id", subredditId);
 
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 });
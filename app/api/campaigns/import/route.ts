@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { actorRequired, createAuditedClient, getActor } from "@/lib/audit";
+import { planBundleImport } from "@/lib/bundle";
+import { formatZodError, importCampaignSchema } from "@/lib/validations";
+import { Campaign } from "@/lib/types";
+
+/**
+ * Import a campaign bundle, as a new campaign or into `campaignId`.
+ * Conflicts are reported with a 409 and nothing is written; `dryRun`
+ * returns the report without writing either way.
+ */
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = importCampaignSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: formatZodError(result.error) },
+      { status: 400 }
+    );
+  }
+
+  const { bundle, campaignId, dryRun } = result.data;
+
+  const { data: campaigns, error: campaignsError } = await supabase
+    .from("campaigns")
+    .select("id, name");
+
+  if (campaignsError) {
+    return NextResponse.json(
+      { error: campaignsError.message },
+      { status: 500 }
+    );
+  }
+
+  let target;
+  if (campaignId) {
+    if (!(campaigns || []).some((c) => c.id === campaignId)) {
+      return NextResponse.json(
+        { error: "Campaign not found" },
+        { status: 404 }
+      );
+    }
+
+    const [campaignResult, subredditsResult, keywordsResult] =
+      await Promise.all([
+        supabase.from("campaigns").select("*").eq("id", campaignId).single(),
+        supabase.from("subreddits").select("*").eq("campaign_id", campaignId),
+        supabase.from("keywords").select("*").eq("campaign_id", campaignId),
+      ]);
+
+    const error =
+      campaignResult.error || subredditsResult.error || keywordsResult.error;
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    target = {
+      campaign: campaignResult.data,
+      subreddits: subredditsResult.data || [],
+      keywords: keywordsResult.data || [],
+    };
+  }
+
+  const report = planBundleImport(
+    bundle,
+    (campaigns || []).map((c) => c.name),
+    target
+  );
+
+  if (dryRun) {
+    return NextResponse.json({ report });
+  }
+
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+
+  if (report.conflicts.length > 0) {
+    return NextResponse.json(
+      { error: "The bundle conflicts with existing data", report },
+      { status: 409 }
+    );
+  }
+
+  const { data: saved, error } = await createAuditedClient(actor).rpc(
+    "import_campaign_bundle",
+    {
+      target_campaign_id: campaignId ?? null,
+      campaign: bundle.campaign,
+      subreddits: bundle.subreddits.filter((s) =>
+        report.subreddits.create.includes(s.name)
+      ),
+      keywords: bundle.keywords.filter((k) =>
+        report.keywords.create.includes(k.keyword_code)
+      ),
+    }
+  );
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const imported = saved as { campaign: Campaign };
+
+  return NextResponse.json(
+    { campaign: imported.campaign, report },
+    { status: campaignId ? 200 : 201 }
+  );
+}
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { actorRequired, createAuditedClient, getActor } from "@/lib/audit";
+import {
+  createCampaignSchema,
+  formatZodError,
+  getFieldErrors,
+} from "@/lib/validations";
 
 export async function GET() {
   const { data, error } = await supabase
@@ -15,33 +21,34 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
-  const body = await request.json();
-
-  const {
-    name,
-    company_name,
-    company_info,
-    posts_per_week,
-    start_date,
-    timezone,
-  } = body;
-
-  if (!name || !company_name) {
+  const actor = getActor(request);
+  if (!actor) return actorRequired();
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = createCampaignSchema.safeParse(body);
+
+  if (!result.success) {
     return NextResponse.json(
-      { error: "name and company_name are required" },
+      {
+        error: formatZodError(result.error),
+        fieldErrors: getFieldErrors(result.error),
+      },
       { status: 400 }
     );
   }
 
-  const { data, error } = await supabase
+  const { data, error } = await createAuditedClient(actor)
     .from("campaigns")
     .insert({
-      name,
-      company_name,
-      company_info: company_info || {},
-      posts_per_week: posts_per_week || 3,
-      start_date: start_date || new Date().toISOString().split("T")[0],
-      timezone: timezone || "America/New_York",
+      ...result.data,
+      start_date:
+        result.data.start_date || new Date().toISOString().split("T")[0],
     })
     .select()
     .single();
@@ -1,7 +1,13 @@
 import { NextRequest } from "next/server";
-import { generateContentForPlan } from "@/lib/planner";
+import { ensureGenerationJob, subscribeToJob } from "@/lib/planner/jobs";
+import { repository } from "@/lib/repository";
 import { supabase } from "@/lib/supabase";
 
+/**
+ * Stream a weekly plan's generation as server-sent events. Generation runs
+ * as a background job, so closing the stream doesn't stop it; posting the
+ * same plan again reattaches to the running job.
+ */
 export async function POST(request: NextRequest) {
   let body;
   try {
@@ -35,54 +41,76 @@ export async function POST(request: NextRequest) {
     });
   }
 
-  if (weeklyPlan.status !== "generating") {
-    return new Response(
-      JSON.stringify({ error: "Weekly plan is not in generating status" }),
-      { status: 400, headers: { "Content-Type": "application/json" } }
-    );
+  let job;
+  try {
+    job = await ensureGenerationJob(weeklyPlanId);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return new Response(JSON.stringify({ error: message }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
   }
 
-  const campaign = weeklyPlan.campaigns;
-  const totalPosts = campaign.posts_per_week;
+  const totalPosts = weeklyPlan.campaigns.posts_per_week;
+  const jobId = job.id;
 
   const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
   const stream = new ReadableStream({
     async start(controller) {
       const sendEvent = (data: Record<string, unknown>) => {
         controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
       };
 
-      try {
-        const result = await generateContentForPlan(
-          weeklyPlanId,
-          (progress) => {
-            sendEvent({
-              type: "progress",
-              ...progress,
-              totalPosts,
-            });
-          }
-        );
+      sendEvent({ type: "job", jobId });
 
-        sendEvent({
-          type: "complete",
-          weeklyPlanId: result.weeklyPlanId,
-          postsGenerated: result.postsGenerated,
-          commentsGenerated: result.commentsGenerated,
-          errors: result.errors,
-        });
-      } catch (err) {
-        const message = err instanceof Error ? err.message : "Unknown error";
-        sendEvent({ type: "error", error: message });
+      unsubscribe = subscribeToJob(jobId, (event) => {
+        if (event.type === "progress") {
+          sendEvent({ type: "progress", ...event.progress, totalPosts });
+          return;
+        }
 
-        await supabase
-          .from("weekly_plans")
-          .update({ status: "failed", plan_json: { error: message } })
-          .eq("id", weeklyPlanId);
-      } finally {
+        if (event.type === "complete") {
+          sendEvent({
+            type: event.result.cancelled ? "cancelled" : "complete",
+            weeklyPlanId: event.result.weeklyPlanId,
+            postsGenerated: event.result.postsGenerated,
+            commentsGenerated: event.result.commentsGenerated,
+            errors: event.result.errors,
+          });
+        } else {
+          sendEvent({ type: "error", error: event.error });
+        }
+        unsubscribe?.();
+        controller.close();
+      });
+
+      if (!unsubscribe) {
+        // The job finished before we could attach; report how it ended
+        const finished = await repository.jobs.get(jobId);
+        sendEvent(
+          finished?.status === "completed" || finished?.status === "cancelled"
+            ? {
+                type:
+                  finished.status === "completed" ? "complete" : "cancelled",
+                weeklyPlanId,
+                postsGenerated: finished.posts_generated,
+                commentsGenerated: finished.comments_generated,
+                errors: finished.errors,
+              }
+            : {
+                type: "error",
+                error: finished?.error || "Generation job is not running",
+              }
+        );
         controller.close();
       }
     },
+    cancel() {
+      // The client went away; the job keeps running
+      unsubscribe?.();
+    },
   });
 
   return new Response(stream, {
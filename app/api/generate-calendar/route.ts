@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateWeeklyCalendar, getCurrentWeekStart } from "@/lib/planner";
+import {
+  generateWeeklyCalendar,
+  getCurrentWeekStart,
+  createLoggingObserver,
+} from "@/lib/planner";
 import { supabase } from "@/lib/supabase";
 import { generateCalendarSchema, formatZodError } from "@/lib/validations";
 
@@ -23,7 +27,7 @@ export async function POST(request: NextRequest) {
 
   const { data: campaign, error: campaignError } = await supabase
     .from("campaigns")
-    .select("id")
+    .select("id, timezone")
     .eq("id", campaignId)
     .single();
 
@@ -81,10 +85,12 @@ export async function POST(request: NextRequest) {
 
   const startDate = weekStartDate
     ? new Date(weekStartDate)
-    : getCurrentWeekStart();
+    : getCurrentWeekStart(new Date(), campaign.timezone);
 
   try {
-    const planResult = await generateWeeklyCalendar(campaignId, startDate);
+    const planResult = await generateWeeklyCalendar(campaignId, startDate, {
+      observers: [createLoggingObserver("generate-calendar")],
+    });
 
     return NextResponse.json({
       success: true,
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
-import { generateWeeklyCalendar, getNextWeekStart } from "@/lib/planner";
+import {
+  generateWeeklyCalendar,
+  getNextWeekStart,
+  createLoggingObserver,
+} from "@/lib/planner";
 import { generateNextWeekSchema, formatZodError } from "@/lib/validations";
 
 export async function POST(request: NextRequest) {
@@ -23,7 +27,7 @@ export async function POST(request: NextRequest) {
 
   const { data: campaign, error: campaignError } = await supabase
     .from("campaigns")
-    .select("id")
+    .select("id, timezone")
     .eq("id", campaignId)
     .single();
 
@@ -93,11 +97,13 @@ export async function POST(request: NextRequest) {
     nextWeekStart = new Date(latestPlan.week_start_date + "T00:00:00Z");
     nextWeekStart.setUTCDate(nextWeekStart.getUTCDate() + 7);
   } else {
-    nextWeekStart = getNextWeekStart();
+    nextWeekStart = getNextWeekStart(new Date(), campaign.timezone);
   }
 
   try {
-    const planResult = await generateWeeklyCalendar(campaignId, nextWeekStart);
+    const planResult = await generateWeeklyCalendar(campaignId, nextWeekStart, {
+      observers: [createLoggingObserver("generate-next-week")],
+    });
 
     return NextResponse.json({
       success: true,
@@ -1,18 +1,65 @@
 "use client";
 
-import { use, useEffect, useRef } from "react";
+import { use, useEffect, useRef, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import {
   useCalendar,
+  useCampaign,
   useRegenerateCalendar,
+  useDeleteWeeklyPlan,
   useCalendarGeneration,
+  useGenerationJob,
+  useReviewItem,
+  useLegalApprove,
+  useRecordOutcome,
+  useRegeneratePost,
+  useEditPost,
+  useEditComment,
+  useActorName,
 } from "@/lib/hooks";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Spinner } from "@/components/ui/spinner";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import {
+  CommentRevisions,
+  InlineEditor,
+  LegalApproval,
+  PlanStatusBadge,
+  PostOutcomeControls,
+  PostRevisions,
+  ReviewControls,
+  canRetryPlan,
+} from "@/components/calendar";
 import { toast } from "sonner";
+import type {
+  ComplianceCheckResult,
+  PostOutcome,
+  RuleCheckResult,
+} from "@/lib/types";
+
+const RULE_LABELS: Record<RuleCheckResult["rule"], string> = {
+  vendor_participation: "Vendor posts",
+  self_promotion_ratio: "Self-promotion ratio",
+  required_flair: "Flair",
+  banned_topics: "Banned topics",
+};
+
+const COMPLIANCE_LABELS: Record<ComplianceCheckResult["check"], string> = {
+  disclosure: "Disclosure",
+  product_mentions: "Product mentions",
+  product_claims: "Approved claims",
+  competitor_mentions: "Competitor comparisons",
+  single_operator: "One account per operator",
+  self_promotion_ratio: "Self-promotion ratio",
+  volume_caps: "Volume caps",
+  links: "Links",
+  community_rules: "Other community rules",
+};
 
 export default function CalendarViewPage({
   params,
@@ -22,28 +69,68 @@ export default function CalendarViewPage({
   const { id: campaignId, weekId } = use(params);
   const router = useRouter();
   const { data, isLoading, refetch } = useCalendar(campaignId, weekId);
+  const { data: campaign } = useCampaign(campaignId);
+  // Schedules are shown in the campaign's timezone once it has loaded
+  const timeZone = campaign?.timezone;
   const regenerateMutation = useRegenerateCalendar(campaignId, weekId);
+  const deleteMutation = useDeleteWeeklyPlan(campaignId);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const reviewMutation = useReviewItem(campaignId, weekId);
+  const legalApproveMutation = useLegalApprove(campaignId, weekId);
+  const recordOutcomeMutation = useRecordOutcome(campaignId, weekId);
+  const regeneratePostMutation = useRegeneratePost(campaignId, weekId);
+  const editPostMutation = useEditPost(campaignId, weekId);
+  const editCommentMutation = useEditComment(campaignId, weekId);
+  // Id of the post or reply open in the inline editor
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyCommentId, setHistoryCommentId] = useState<string | null>(null);
+  const { data: job, isLoading: isJobLoading } = useGenerationJob(
+    campaignId,
+    weekId
+  );
   const generationStartedRef = useRef(false);
+  const [reviewer, setReviewer] = useActorName();
 
   const plan = data?.plans?.[0] || null;
   const posts = data?.posts || [];
   const comments = data?.comments || [];
   const isGeneratingStatus = plan?.status === "generating";
+  const isReviewable =
+    !!plan && plan.status !== "generating" && plan.status !== "failed";
+  const approvedCount = [...posts, ...comments].filter(
+    (item) => item.review_status === "approved"
+  ).length;
 
-  const { startGeneration, isGenerating, progress, logs } =
-    useCalendarGeneration(campaignId, weekId, {
-      onPostComplete: () => refetch(),
-      onComplete: (result) => {
+  const {
+    startGeneration,
+    cancelGeneration,
+    resumeGeneration,
+    isGenerating,
+    progress,
+    logs,
+  } = useCalendarGeneration(campaignId, weekId, {
+    onPostComplete: () => refetch(),
+    onComplete: (result) => {
+      if (result.errors?.length) {
+        toast.warning(
+          `Generated ${result.postsGenerated} posts, ${result.errors.length} couldn't be generated`
+        );
+      } else {
         toast.success(
           `Generated ${result.postsGenerated} posts and ${result.commentsGenerated} comments!`
         );
-        refetch();
-      },
-      onError: (error) => {
-        toast.error(error);
-        refetch();
-      },
-    });
+      }
+      refetch();
+    },
+    onCancel: (result) => {
+      toast.info(`Generation cancelled after ${result.postsGenerated} posts`);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error);
+      refetch();
+    },
+  });
 
   const logContainerRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
@@ -52,12 +139,62 @@ export default function CalendarViewPage({
     }
   }, [logs]);
 
+  // Starts generation for a new plan, or reattaches to the running job
+  // after a reload. A failed job waits for the user to resume or cancel it.
+  const jobFailed = job?.status === "failed";
   useEffect(() => {
-    if (isGeneratingStatus && !isGenerating && !generationStartedRef.current) {
+    if (
+      isGeneratingStatus &&
+      !isJobLoading &&
+      !jobFailed &&
+      !isGenerating &&
+      !generationStartedRef.current
+    ) {
       generationStartedRef.current = true;
       startGeneration();
     }
-  }, [isGeneratingStatus, isGenerating, startGeneration]);
+  }, [
+    isGeneratingStatus,
+    isJobLoading,
+    jobFailed,
+    isGenerating,
+    startGeneration,
+  ]);
+
+  const canResume =
+    !isGenerating &&
+    !!job &&
+    (job.interrupted ||
+      jobFailed ||
+      (job.status === "cancelled" &&
+        job.completed_posts < job.subreddit_ids.length));
+  const showOutcome =
+    !!plan && !isGenerating && (canResume || canRetryPlan(plan.status));
+
+  const handleCancelGeneration = async () => {
+    try {
+      await cancelGeneration();
+      toast.info(
+        isGenerating
+          ? "Stopping after the current post..."
+          : "Generation cancelled"
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to cancel generation"
+      );
+    }
+  };
+
+  const handleResumeGeneration = async () => {
+    try {
+      await resumeGeneration();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to resume generation"
+      );
+    }
+  };
 
   const handleRegenerate = async () => {
     try {
@@ -75,6 +212,151 @@ export default function CalendarViewPage({
     }
   };
 
+  const handleDelete = async () => {
+    try {
+      await deleteMutation.mutateAsync(weekId);
+      toast.success("Content calendar deleted");
+      router.push(`/campaigns/${campaignId}`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete calendar"
+      );
+    }
+  };
+
+  const handleReview = async (
+    itemType: "post" | "comment",
+    itemId: string,
+    action: "approve" | "reject",
+    note?: string
+  ) => {
+    if (!reviewer.trim()) {
+      toast.error("Enter your name before signing off");
+      return;
+    }
+    try {
+      const result = await reviewMutation.mutateAsync({
+        action,
+        itemType,
+        itemId,
+        reviewer: reviewer.trim(),
+        note,
+      });
+      toast.success(
+        result.planStatus === "ready"
+          ? "All items approved, calendar is ready"
+          : action === "approve"
+            ? "Approved"
+            : "Rejected"
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save review"
+      );
+    }
+  };
+
+  const handleLegalApprove = async (postId: string) => {
+    if (!reviewer.trim()) {
+      toast.error("Enter your name before signing off");
+      return;
+    }
+    try {
+      await legalApproveMutation.mutateAsync({
+        postId,
+        approver: reviewer.trim(),
+      });
+      toast.success("Legal approval recorded");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save legal approval"
+      );
+    }
+  };
+
+  const handleRecordOutcome = async (
+    postId: string,
+    outcome: PostOutcome,
+    note: string
+  ) => {
+    if (!reviewer.trim()) {
+      toast.error("Enter your name before recording an outcome");
+      return;
+    }
+    try {
+      const result = await recordOutcomeMutation.mutateAsync({
+        postId,
+        outcome,
+        recorder: reviewer.trim(),
+        note: note || undefined,
+      });
+      toast.success(
+        result.pausedSubreddit
+          ? `Outcome recorded, r/${result.pausedSubreddit.name} paused`
+          : "Outcome recorded"
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to record outcome"
+      );
+    }
+  };
+
+  const handleRegeneratePost = async (
+    postId: string,
+    mode: "content" | "topic"
+  ) => {
+    try {
+      await regeneratePostMutation.mutateAsync({ postId, mode });
+      toast.success(
+        mode === "topic"
+          ? "Post regenerated on a new topic"
+          : "Post rewritten, back in review"
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to regenerate post"
+      );
+    }
+  };
+
+  const handleEditPost = async (
+    postId: string,
+    values: Record<string, string>
+  ) => {
+    try {
+      await editPostMutation.mutateAsync({
+        postId,
+        title: values.title,
+        body: values.body,
+      });
+      setEditingId(null);
+      toast.success("Post saved, back in review");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save post"
+      );
+    }
+  };
+
+  const handleEditComment = async (
+    commentId: string,
+    values: Record<string, string>
+  ) => {
+    try {
+      await editCommentMutation.mutateAsync({
+        commentId,
+        comment_text: values.comment_text,
+      });
+      setEditingId(null);
+      toast.success("Reply saved, back in review");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save reply"
+      );
+    }
+  };
+
   const getCommentsForPost = (postId: string) => {
     return comments.filter((c) => c.planned_post_id === postId);
   };
@@ -103,10 +385,78 @@ export default function CalendarViewPage({
               {new Date(comment.scheduled_at || "").toLocaleTimeString([], {
                 hour: "2-digit",
                 minute: "2-digit",
+                timeZone,
               })}
             </span>
           </div>
-          <p className="text-foreground mt-1">{comment.comment_text}</p>
+          {comment.anticipated_question && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Suggested reply to: &ldquo;{comment.anticipated_question}&rdquo;
+            </p>
+          )}
+          {editingId === comment.id ? (
+            <div className="mt-2">
+              <InlineEditor
+                fields={[
+                  {
+                    name: "comment_text",
+                    label: "Reply",
+                    value: comment.comment_text,
+                    multiline: true,
+                  },
+                ]}
+                onSave={(values) => handleEditComment(comment.id, values)}
+                onCancel={() => setEditingId(null)}
+                disabled={editCommentMutation.isPending}
+              />
+            </div>
+          ) : (
+            <p className="text-foreground mt-1 whitespace-pre-wrap">
+              {comment.comment_text}
+            </p>
+          )}
+          {isReviewable && (
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <ReviewControls
+                item={comment}
+                onApprove={() => handleReview("comment", comment.id, "approve")}
+                onReject={(note) =>
+                  handleReview("comment", comment.id, "reject", note)
+                }
+                disabled={reviewMutation.isPending}
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs"
+                onClick={() => setEditingId(comment.id)}
+                disabled={editingId === comment.id}
+              >
+                Edit
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs"
+                onClick={() =>
+                  setHistoryCommentId(
+                    historyCommentId === comment.id ? null : comment.id
+                  )
+                }
+              >
+                {historyCommentId === comment.id ? "Hide history" : "History"}
+              </Button>
+            </div>
+          )}
+          {historyCommentId === comment.id && (
+            <div className="mt-2">
+              <CommentRevisions
+                campaignId={campaignId}
+                weeklyPlanId={weekId}
+                commentId={comment.id}
+              />
+            </div>
+          )}
         </div>
         {renderCommentThread(postComments, comment.id, depth + 1)}
       </div>
@@ -139,28 +489,130 @@ export default function CalendarViewPage({
               </h1>
               {plan && (
                 <p className="text-muted-foreground">
-                  Week of {new Date(plan.week_start_date).toLocaleDateString()}{" "}
+                  Week of{" "}
+                  {new Date(
+                    plan.week_start_date + "T00:00:00Z"
+                  ).toLocaleDateString([], { timeZone: "UTC" })}{" "}
                   • {posts.length} posts • {comments.length} comments
+                  {timeZone && ` • times in ${timeZone}`}
                 </p>
               )}
+              {plan && !isGeneratingStatus && (
+                <div className="flex items-center gap-2 mt-2 text-sm">
+                  <PlanStatusBadge status={plan.status} />
+                  <span className="text-muted-foreground">
+                    {approvedCount} of {posts.length + comments.length} items
+                    approved
+                  </span>
+                </div>
+              )}
             </div>
-            <Button
-              onClick={handleRegenerate}
-              disabled={regenerateMutation.isPending || isGenerating}
-              variant="outline"
-            >
-              {regenerateMutation.isPending ? (
-                <>
-                  <Spinner size="sm" className="mr-2" />
-                  Regenerating...
-                </>
-              ) : (
-                "Regenerate Calendar"
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              {plan && !isGeneratingStatus && posts.length > 0 && (
+                <div className="flex items-center gap-1">
+                  <span className="text-sm text-muted-foreground mr-1">
+                    Export
+                  </span>
+                  {(["csv", "json", "ics"] as const).map((format) => (
+                    <Button key={format} variant="ghost" size="sm" asChild>
+                      <a
+                        href={`/api/campaigns/${campaignId}/calendar/${weekId}/export?format=${format}`}
+                        download
+                      >
+                        {format.toUpperCase()}
+                      </a>
+                    </Button>
+                  ))}
+                </div>
               )}
-            </Button>
+              <Button
+                onClick={handleRegenerate}
+                disabled={regenerateMutation.isPending || isGenerating}
+                variant="outline"
+              >
+                {regenerateMutation.isPending ? (
+                  <>
+                    <Spinner size="sm" className="mr-2" />
+                    Regenerating...
+                  </>
+                ) : (
+                  "Regenerate Calendar"
+                )}
+              </Button>
+            </div>
           </div>
         </header>
 
+        {showOutcome && plan && (
+          <Card
+            className={`mb-6 ${
+              plan.status === "failed"
+                ? "border-destructive/50 bg-destructive/5"
+                : "border-amber-500/50 bg-amber-500/5"
+            }`}
+          >
+            <CardContent className="py-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="text-sm">
+                  <p className="font-medium">
+                    {plan.status === "failed"
+                      ? "Generation failed"
+                      : plan.status === "partially_failed"
+                        ? "Some posts couldn't be generated"
+                        : plan.status === "cancelled"
+                          ? "Generation was cancelled"
+                          : "Generation was interrupted"}
+                  </p>
+                  {plan.plan_json.error && (
+                    <p className="text-destructive">{plan.plan_json.error}</p>
+                  )}
+                  {canResume && job && (
+                    <p className="text-muted-foreground">
+                      {job.completed_posts} of {job.subreddit_ids.length || "?"}{" "}
+                      posts done, {job.posts_generated} saved
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {isGeneratingStatus && job && (
+                    <Button variant="ghost" onClick={handleCancelGeneration}>
+                      Cancel
+                    </Button>
+                  )}
+                  {canRetryPlan(plan.status) && (
+                    <Button
+                      variant="ghost"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => setShowDeleteDialog(true)}
+                    >
+                      Delete
+                    </Button>
+                  )}
+                  {canRetryPlan(plan.status) && (
+                    <Button
+                      variant={canResume ? "outline" : "default"}
+                      onClick={handleRegenerate}
+                      disabled={regenerateMutation.isPending}
+                    >
+                      Retry
+                    </Button>
+                  )}
+                  {canResume && (
+                    <Button onClick={handleResumeGeneration}>Resume</Button>
+                  )}
+                </div>
+              </div>
+              {(plan.plan_json.errors?.length ?? 0) > 0 && (
+                <ul className="text-xs text-muted-foreground space-y-1">
+                  {plan.plan_json.errors?.map((error, i) => (
+                    <li key={i}>✗ {error}</li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {isGenerating && progress && (
           <Card className="mb-6 border-primary/50 bg-primary/5">
             <CardContent className="py-4">
@@ -185,6 +637,14 @@ export default function CalendarViewPage({
                       </div>
                     )}
                 </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleCancelGeneration}
+                  disabled={job?.cancel_requested}
+                >
+                  {job?.cancel_requested ? "Stopping..." : "Cancel"}
+                </Button>
               </div>
 
               {logs.length > 0 && (
@@ -218,6 +678,22 @@ export default function CalendarViewPage({
           </Card>
         )}
 
+        {isReviewable && posts.length > 0 && (
+          <Card className="mb-6">
+            <CardContent className="py-4 flex items-center gap-4">
+              <Label htmlFor="reviewer-name" className="whitespace-nowrap">
+                Reviewing as
+              </Label>
+              <Input
+                id="reviewer-name"
+                placeholder="Your full name"
+                value={reviewer}
+                onChange={(e) => setReviewer(e.target.value)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {posts.length === 0 && !isGenerating ? (
           <Card className="border-dashed">
             <CardContent className="flex items-center justify-center py-12">
@@ -249,14 +725,23 @@ export default function CalendarViewPage({
                       >
                         r/{post.subreddit_name}
                       </Badge>
+                      {post.flair && (
+                        <Badge variant="outline" className="text-xs">
+                          {post.flair}
+                        </Badge>
+                      )}
                       <span className="text-sm text-muted-foreground">
-                        {new Date(post.scheduled_at || "").toLocaleDateString()}{" "}
+                        {new Date(post.scheduled_at || "").toLocaleDateString(
+                          [],
+                          { timeZone }
+                        )}{" "}
                         at{" "}
                         {new Date(post.scheduled_at || "").toLocaleTimeString(
                           [],
                           {
                             hour: "2-digit",
                             minute: "2-digit",
+                            timeZone,
                           }
                         )}
                       </span>
@@ -288,22 +773,16 @@ export default function CalendarViewPage({
                       </Badge>
                       <Badge
                         variant={
-                          post.risk_score <= 0.3
-                            ? "default"
-                            : post.risk_score <= 0.5
-                              ? "secondary"
-                              : "destructive"
+                          post.compliance_score >= 1 ? "default" : "secondary"
                         }
                         className={
-                          post.risk_score <= 0.3
+                          post.compliance_score >= 1
                             ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400"
-                            : post.risk_score <= 0.5
-                              ? "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400"
-                              : ""
+                            : "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400"
                         }
-                        title="Detection risk (lower is better)"
+                        title="Platform-policy checks passed"
                       >
-                        R: {Math.round(post.risk_score * 100)}%
+                        C: {Math.round(post.compliance_score * 100)}%
                       </Badge>
                     </div>
                   </div>
@@ -317,17 +796,120 @@ export default function CalendarViewPage({
                         OP
                       </Badge>
                     </div>
-                    <h3 className="text-lg font-semibold mb-2">{post.title}</h3>
-                    <p className="text-muted-foreground whitespace-pre-wrap">
-                      {post.body}
-                    </p>
+                    {editingId === post.id ? (
+                      <InlineEditor
+                        fields={[
+                          { name: "title", label: "Title", value: post.title },
+                          {
+                            name: "body",
+                            label: "Body",
+                            value: post.body,
+                            multiline: true,
+                          },
+                        ]}
+                        onSave={(values) => handleEditPost(post.id, values)}
+                        onCancel={() => setEditingId(null)}
+                        disabled={editPostMutation.isPending}
+                      />
+                    ) : (
+                      <>
+                        <h3 className="text-lg font-semibold mb-2">
+                          {post.title}
+                        </h3>
+                        <p className="text-muted-foreground whitespace-pre-wrap">
+                          {post.body}
+                        </p>
+                      </>
+                    )}
+                    {isReviewable && (
+                      <div className="mt-4 space-y-2">
+                        <LegalApproval
+                          post={post}
+                          onApprove={() => handleLegalApprove(post.id)}
+                          disabled={legalApproveMutation.isPending}
+                        />
+                        <ReviewControls
+                          item={post}
+                          onApprove={() =>
+                            handleReview("post", post.id, "approve")
+                          }
+                          onReject={(note) =>
+                            handleReview("post", post.id, "reject", note)
+                          }
+                          disabled={reviewMutation.isPending}
+                        />
+                        <PostOutcomeControls
+                          post={post}
+                          onRecord={(outcome, note) =>
+                            handleRecordOutcome(post.id, outcome, note)
+                          }
+                          disabled={recordOutcomeMutation.isPending}
+                        />
+                      </div>
+                    )}
+                    {isReviewable && (
+                      <div className="mt-3">
+                        <PostRevisions
+                          campaignId={campaignId}
+                          weeklyPlanId={weekId}
+                          post={post}
+                          onRegenerate={(mode) =>
+                            handleRegeneratePost(post.id, mode)
+                          }
+                          onEdit={() => setEditingId(post.id)}
+                          disabled={regeneratePostMutation.isPending}
+                        />
+                      </div>
+                    )}
+                    {(post.compliance_report?.length ?? 0) > 0 && (
+                      <div className="mt-4 space-y-1">
+                        <p className="text-xs font-medium text-muted-foreground">
+                          Platform policy
+                        </p>
+                        {post.compliance_report.map((check) => (
+                          <div
+                            key={check.check}
+                            className={`text-xs ${
+                              check.passed
+                                ? "text-green-700 dark:text-green-400"
+                                : check.blocking
+                                  ? "text-red-600 dark:text-red-400"
+                                  : "text-yellow-700 dark:text-yellow-400"
+                            }`}
+                          >
+                            {check.passed ? "✓" : check.blocking ? "✗" : "!"}{" "}
+                            {COMPLIANCE_LABELS[check.check]}: {check.detail}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {(post.rule_report?.length ?? 0) > 0 && (
+                      <div className="mt-4 space-y-1">
+                        <p className="text-xs font-medium text-muted-foreground">
+                          Community rules
+                        </p>
+                        {post.rule_report.map((check) => (
+                          <div
+                            key={check.rule}
+                            className={`text-xs ${
+                              check.passed
+                                ? "text-green-700 dark:text-green-400"
+                                : "text-red-600 dark:text-red-400"
+                            }`}
+                          >
+                            {check.passed ? "✓" : "✗"} {RULE_LABELS[check.rule]}
+                            : {check.detail}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </CardContent>
 
                   {postComments.length > 0 && (
                     <div className="border-t">
                       <div className="px-4 py-2 bg-muted/50">
                         <span className="text-sm font-medium text-muted-foreground">
-                          {postComments.length} Comments
+                          {postComments.length} Suggested Replies
                         </span>
                       </div>
                       <div className="p-4">
@@ -389,25 +971,18 @@ export default function CalendarViewPage({
                 </p>
               </div>
               <div>
-                <p className="text-muted-foreground">Avg Risk</p>
+                <p className="text-muted-foreground">Avg Compliance</p>
                 <p
                   className={`text-xl font-bold ${
                     posts.length > 0 &&
-                    posts.reduce((sum, p) => sum + p.risk_score, 0) /
-                      posts.length <=
-                      0.3
+                    posts.every((p) => p.compliance_score >= 1)
                       ? "text-green-600"
-                      : posts.length > 0 &&
-                          posts.reduce((sum, p) => sum + p.risk_score, 0) /
-                            posts.length <=
-                            0.5
-                        ? "text-yellow-600"
-                        : "text-red-600"
+                      : "text-yellow-600"
                   }`}
                 >
                   {posts.length > 0
                     ? Math.round(
-                        (posts.reduce((sum, p) => sum + p.risk_score, 0) /
+                        (posts.reduce((sum, p) => sum + p.compliance_score, 0) /
                           posts.length) *
                           100
                       )
@@ -439,6 +1014,16 @@ export default function CalendarViewPage({
           </CardContent>
         </Card>
       </div>
+
+      <ConfirmDialog
+        open={showDeleteDialog}
+        onOpenChange={setShowDeleteDialog}
+        title="Delete Content Calendar"
+        description="Are you sure you want to delete this weekly content calendar? All posts and comments in this calendar will be permanently deleted. This action cannot be undone."
+        onConfirm={handleDelete}
+        confirmText="Delete Calendar"
+        variant="destructive"
+      />
     </div>
   );
 }
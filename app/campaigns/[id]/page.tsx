@@ -1,6 +1,6 @@
 "use client";
 
-import { use } from "react";
+import { use, useState } from "react";
 import Link from "next/link";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
@@ -9,23 +9,35 @@ import {
   useUpdateCampaign,
   useDeleteCampaign,
   useDeleteWeeklyPlan,
+  useRetryWeeklyPlan,
   useAddPersona,
+  useUpdatePersona,
   useDeletePersona,
   useSetOperatorPersona,
   useAddSubreddit,
   useDeleteSubreddit,
+  useUpdateSubredditRules,
+  useSetSubredditActive,
   useAddKeyword,
   useDeleteKeyword,
   useCreateWeeklyPlan,
+  useAuditLog,
+  useOutcomes,
+  useActorName,
+  type AuditFilters,
 } from "@/lib/hooks";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Spinner } from "@/components/ui/spinner";
 import { CampaignHeader } from "@/components/campaign/campaign-header";
 import { OverviewTab } from "@/components/overview/overview-tab";
 import { PersonasTab } from "@/components/personas/personas-tab";
+import type { NewPersona } from "@/components/personas/add-persona-dialog";
+import type { AccountDetails } from "@/components/personas/account-details-fields";
 import { SubredditsTab } from "@/components/subreddits/subreddits-tab";
 import { KeywordsTab } from "@/components/keywords/keywords-tab";
 import { CalendarTab } from "@/components/calendar/calendar-tab";
+import { AuditTab } from "@/components/audit/audit-tab";
+import type { PostingSchedule, ReasoningEffort, VolumeCaps } from "@/lib/types";
 
 export default function CampaignPage({
   params,
@@ -39,21 +51,37 @@ export default function CampaignPage({
   const updateCampaign = useUpdateCampaign(id);
   const deleteCampaign = useDeleteCampaign();
   const deleteWeeklyPlan = useDeleteWeeklyPlan(id);
+  const retryWeeklyPlan = useRetryWeeklyPlan(id);
   const addPersona = useAddPersona(id);
+  const updatePersona = useUpdatePersona(id);
   const deletePersona = useDeletePersona(id);
   const setOperatorPersona = useSetOperatorPersona(id);
   const addSubreddit = useAddSubreddit(id);
   const deleteSubreddit = useDeleteSubreddit(id);
+  const updateSubredditRules = useUpdateSubredditRules(id);
+  const setSubredditActive = useSetSubredditActive(id);
   const addKeyword = useAddKeyword(id);
   const deleteKeyword = useDeleteKeyword(id);
   const createWeeklyPlan = useCreateWeeklyPlan(id);
+  const [auditFilters, setAuditFilters] = useState<AuditFilters>({});
+  const auditLog = useAuditLog(id, auditFilters);
+  const outcomes = useOutcomes(id);
+  const [actorName, setActorName] = useActorName();
 
   const handleUpdateCampaign = async (data: {
     name: string;
     company_name: string;
     company_url: string;
     company_description: string;
+    disclosure_template: string;
+    approved_claims: string[];
+    competitors: string[];
     posts_per_week: number;
+    llm_provider: "openai" | "stub";
+    llm_model: string;
+    llm_reasoning_effort: ReasoningEffort | "";
+    posting_schedule: PostingSchedule;
+    volume_caps: VolumeCaps;
   }) => {
     await updateCampaign.mutateAsync({
       name: data.name,
@@ -61,8 +89,18 @@ export default function CampaignPage({
       company_info: {
         website: data.company_url || undefined,
         description: data.company_description || undefined,
+        disclosure_template: data.disclosure_template || undefined,
+        approved_claims: data.approved_claims.filter((c) => c.trim()),
+        competitors: data.competitors.filter((c) => c.trim()),
       },
       posts_per_week: data.posts_per_week,
+      llm_settings: {
+        provider: data.llm_provider,
+        model: data.llm_model || undefined,
+        reasoning_effort: data.llm_reasoning_effort || null,
+      },
+      posting_schedule: data.posting_schedule,
+      volume_caps: data.volume_caps,
     });
   };
 
@@ -82,6 +120,17 @@ export default function CampaignPage({
     }
   };
 
+  const handleRetryWeeklyPlan = async (weeklyPlanId: string) => {
+    try {
+      const result = await retryWeeklyPlan.mutateAsync(weeklyPlanId);
+      router.push(`/campaigns/${id}/calendar/${result.weeklyPlanId}`);
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to retry calendar";
+      toast.error(message);
+    }
+  };
+
   const handleGenerateNextWeek = async () => {
     try {
       const result = await createWeeklyPlan.mutateAsync({ isNextWeek: true });
@@ -93,12 +142,12 @@ export default function CampaignPage({
     }
   };
 
-  const handleAddPersona = async (persona: {
-    username: string;
-    bio: string;
-  }) => {
+  const handleAddPersona = async (persona: NewPersona) => {
     try {
-      await addPersona.mutateAsync(persona);
+      await addPersona.mutateAsync({
+        ...persona,
+        employer_relationship: persona.employer_relationship || undefined,
+      });
       toast.success("Persona added!");
     } catch (err) {
       const message =
@@ -108,6 +157,17 @@ export default function CampaignPage({
     }
   };
 
+  const handleUpdatePersonaDetails = async (
+    personaId: string,
+    details: AccountDetails
+  ) => {
+    await updatePersona.mutateAsync({
+      id: personaId,
+      ...details,
+      employer_relationship: details.employer_relationship || undefined,
+    });
+  };
+
   const handleAddSubreddits = async (names: string[]) => {
     try {
       await addSubreddit.mutateAsync({ names });
@@ -189,6 +249,7 @@ export default function CampaignPage({
             <TabsTrigger value="calendar">
               Calendar ({campaign.weekly_plans.length})
             </TabsTrigger>
+            <TabsTrigger value="audit">Audit</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview">
@@ -197,6 +258,10 @@ export default function CampaignPage({
               subredditsCount={campaign.subreddits.length}
               keywordsCount={campaign.keywords.length}
               weeklyPlansCount={campaign.weekly_plans.length}
+              outcomes={outcomes.data || []}
+              pausedSubreddits={campaign.subreddits
+                .filter((s) => !s.is_active)
+                .map((s) => s.name)}
               isGenerating={createWeeklyPlan.isPending}
               onGenerateCalendar={handleGenerateCalendar}
               onGenerateNextWeek={handleGenerateNextWeek}
@@ -207,9 +272,11 @@ export default function CampaignPage({
             <PersonasTab
               personas={campaign.personas}
               onAddPersona={handleAddPersona}
+              onUpdateDetails={handleUpdatePersonaDetails}
               onDeletePersona={(id) => deletePersona.mutateAsync(id)}
               onSetOperator={(id) => setOperatorPersona.mutate(id)}
               isAddingPersona={addPersona.isPending}
+              isUpdatingDetails={updatePersona.isPending}
               isDeletingPersona={deletePersona.isPending}
               isSettingOperator={setOperatorPersona.isPending}
             />
@@ -220,8 +287,16 @@ export default function CampaignPage({
               subreddits={campaign.subreddits}
               onAddSubreddits={handleAddSubreddits}
               onDeleteSubreddit={(id) => deleteSubreddit.mutateAsync(id)}
+              onUpdateRules={async (id, rules) => {
+                await updateSubredditRules.mutateAsync({ id, rules });
+              }}
+              onResume={async (id) => {
+                await setSubredditActive.mutateAsync({ id, is_active: true });
+              }}
               isAddingSubreddit={addSubreddit.isPending}
               isDeletingSubreddit={deleteSubreddit.isPending}
+              isUpdatingRules={updateSubredditRules.isPending}
+              isResuming={setSubredditActive.isPending}
             />
           </TabsContent>
 
@@ -239,10 +314,23 @@ export default function CampaignPage({
             <CalendarTab
               weeklyPlans={campaign.weekly_plans}
               campaignId={id}
+              onRetryWeeklyPlan={handleRetryWeeklyPlan}
               onDeleteWeeklyPlan={(id) => deleteWeeklyPlan.mutateAsync(id)}
+              isRetryingWeeklyPlan={retryWeeklyPlan.isPending}
               isDeletingWeeklyPlan={deleteWeeklyPlan.isPending}
             />
           </TabsContent>
+
+          <TabsContent value="audit">
+            <AuditTab
+              entries={auditLog.data || []}
+              isLoading={auditLog.isLoading}
+              filters={auditFilters}
+              onFiltersChange={setAuditFilters}
+              actorName={actorName}
+              onActorNameChange={setActorName}
+            />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -3,12 +3,19 @@
 import { useState } from "react";
 import Link from "next/link";
 import { toast } from "sonner";
-import { useCampaigns, useCreateCampaign } from "@/lib/hooks";
+import {
+  fieldErrorsOf,
+  useActorName,
+  useCampaigns,
+  useCreateCampaign,
+} from "@/lib/hooks";
+import type { FieldErrors } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Spinner } from "@/components/ui/spinner";
+import { FieldError } from "@/components/ui/field-error";
 import {
   Card,
   CardContent,
@@ -29,6 +36,7 @@ import {
 export default function Home() {
   const { data: campaigns = [], isLoading } = useCampaigns();
   const createCampaign = useCreateCampaign();
+  const [actorName, setActorName] = useActorName();
 
   const [open, setOpen] = useState(false);
   const [newCampaign, setNewCampaign] = useState({
@@ -38,9 +46,11 @@ export default function Home() {
     company_description: "",
     posts_per_week: 3,
   });
+  const [errors, setErrors] = useState<FieldErrors>({});
 
   const handleCreateCampaign = async (e: React.FormEvent) => {
     e.preventDefault();
+    setErrors({});
     try {
       await createCampaign.mutateAsync({
         name: newCampaign.name,
@@ -61,6 +71,7 @@ export default function Home() {
       });
       toast.success("Campaign created!");
     } catch (err) {
+      setErrors(fieldErrorsOf(err));
       const message =
         err instanceof Error ? err.message : "Failed to create campaign";
       toast.error(message);
@@ -95,12 +106,25 @@ export default function Home() {
               </DialogHeader>
               <form onSubmit={handleCreateCampaign}>
                 <div className="grid gap-4 py-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="actor">
+                      Your Name <span className="text-destructive">*</span>
+                    </Label>
+                    <Input
+                      id="actor"
+                      value={actorName}
+                      onChange={(e) => setActorName(e.target.value)}
+                      placeholder="Recorded on your changes"
+                      required
+                    />
+                  </div>
                   <div className="grid gap-2">
                     <Label htmlFor="name">
                       Campaign Name <span className="text-destructive">*</span>
                     </Label>
                     <Input
                       id="name"
+                      aria-invalid={!!errors.name}
                       value={newCampaign.name}
                       onChange={(e) =>
                         setNewCampaign({ ...newCampaign, name: e.target.value })
@@ -108,6 +132,7 @@ export default function Home() {
                       placeholder="e.g., SlideForge Q1 Campaign"
                       required
                     />
+                    <FieldError message={errors.name} />
                   </div>
                   <div className="grid gap-2">
                     <Label htmlFor="company">
@@ -115,6 +140,7 @@ export default function Home() {
                     </Label>
                     <Input
                       id="company"
+                      aria-invalid={!!errors.company_name}
                       value={newCampaign.company_name}
                       onChange={(e) =>
                         setNewCampaign({
@@ -125,6 +151,7 @@ export default function Home() {
                       placeholder="e.g., SlideForge"
                       required
                     />
+                    <FieldError message={errors.company_name} />
                   </div>
                   <div className="grid gap-2">
                     <Label htmlFor="company_url">
@@ -135,6 +162,7 @@ export default function Home() {
                     </Label>
                     <Input
                       id="company_url"
+                      aria-invalid={!!errors["company_info.website"]}
                       value={newCampaign.company_url}
                       onChange={(e) =>
                         setNewCampaign({
@@ -144,6 +172,7 @@ export default function Home() {
                       }
                       placeholder="e.g., slideforge.ai"
                     />
+                    <FieldError message={errors["company_info.website"]} />
                   </div>
                   <div className="grid gap-2">
                     <Label htmlFor="company_description">
@@ -154,6 +183,7 @@ export default function Home() {
                     </Label>
                     <Textarea
                       id="company_description"
+                      aria-invalid={!!errors["company_info.description"]}
                       value={newCampaign.company_description}
                       onChange={(e) =>
                         setNewCampaign({
@@ -164,6 +194,7 @@ export default function Home() {
                       placeholder="What does your company do? Who is your ICP?"
                       className="h-24"
                     />
+                    <FieldError message={errors["company_info.description"]} />
                   </div>
                   <div className="grid gap-2">
                     <Label htmlFor="posts">
@@ -171,6 +202,7 @@ export default function Home() {
                     </Label>
                     <Input
                       id="posts"
+                      aria-invalid={!!errors.posts_per_week}
                       type="number"
                       min="1"
                       max="14"
@@ -183,6 +215,7 @@ export default function Home() {
                       }
                       required
                     />
+                    <FieldError message={errors.posts_per_week} />
                   </div>
                 </div>
                 <DialogFooter>
@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { AuditFilters } from "@/lib/hooks";
+import type { AuditEntry, AuditEntityType } from "@/lib/types";
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  campaign: "Campaign",
+  persona: "Persona",
+  subreddit: "Subreddit",
+  keyword: "Keyword",
+  weekly_plan: "Weekly plan",
+  planned_post: "Post",
+  planned_comment: "Comment",
+};
+
+interface AuditTabProps {
+  entries: AuditEntry[];
+  isLoading: boolean;
+  filters: AuditFilters;
+  onFiltersChange: (filters: AuditFilters) => void;
+  actorName: string;
+  onActorNameChange: (name: string) => void;
+}
+
+export function AuditTab({
+  entries,
+  isLoading,
+  filters,
+  onFiltersChange,
+  actorName,
+  onActorNameChange,
+}: AuditTabProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="py-4 grid gap-4 md:grid-cols-4">
+          <div className="grid gap-2">
+            <Label htmlFor="audit-actor">Your name</Label>
+            <Input
+              id="audit-actor"
+              placeholder="Recorded on your changes"
+              value={actorName}
+              onChange={(e) => onActorNameChange(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="audit-entity">Entity</Label>
+            <Select
+              value={filters.entityType || "all"}
+              onValueChange={(value) =>
+                onFiltersChange({
+                  ...filters,
+                  entityType:
+                    value === "all" ? undefined : (value as AuditEntityType),
+                })
+              }
+            >
+              <SelectTrigger id="audit-entity" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All entities</SelectItem>
+                {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={filters.from || ""}
+              onChange={(e) =>
+                onFiltersChange({
+                  ...filters,
+                  from: e.target.value || undefined,
+                })
+              }
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={filters.to || ""}
+              onChange={(e) =>
+                onFiltersChange({ ...filters, to: e.target.value || undefined })
+              }
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Spinner size="lg" />
+        </div>
+      ) : entries.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="flex items-center justify-center py-12">
+            <p className="text-muted-foreground">No audit records found</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry) => (
+            <Card key={entry.id}>
+              <CardContent className="py-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 flex-wrap text-sm">
+                    <Badge variant="outline" className="text-xs">
+                      {ENTITY_LABELS[entry.entity_type]}
+                    </Badge>
+                    <span className="font-medium">{entry.action}</span>
+                    <span className="text-muted-foreground">
+                      by {entry.actor}
+                    </span>
+                    <span className="text-muted-foreground">
+                      • {new Date(entry.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setExpandedId(expandedId === entry.id ? null : entry.id)
+                    }
+                  >
+                    {expandedId === entry.id ? "Hide" : "Details"}
+                  </Button>
+                </div>
+                {expandedId === entry.id && (
+                  <div className="mt-3 grid gap-3 md:grid-cols-2">
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground mb-1">
+                        Before
+                      </p>
+                      <pre className="text-xs bg-muted rounded-lg p-3 overflow-auto max-h-64">
+                        {JSON.stringify(entry.before, null, 2)}
+                      </pre>
+                    </div>
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground mb-1">
+                        After
+                      </p>
+                      <pre className="text-xs bg-muted rounded-lg p-3 overflow-auto max-h-64">
+                        {JSON.stringify(entry.after, null, 2)}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
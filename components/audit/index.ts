@@ -0,0 +1 @@
+export { AuditTab } from "./audit-tab";
@@ -10,14 +10,18 @@ import type { WeeklyPlan } from "@/lib/types";
 interface CalendarTabProps {
   weeklyPlans: WeeklyPlan[];
   campaignId: string;
+  onRetryWeeklyPlan: (id: string) => Promise<void>;
   onDeleteWeeklyPlan: (id: string) => Promise<unknown>;
+  isRetryingWeeklyPlan: boolean;
   isDeletingWeeklyPlan: boolean;
 }
 
 export function CalendarTab({
   weeklyPlans,
   campaignId,
+  onRetryWeeklyPlan,
   onDeleteWeeklyPlan,
+  isRetryingWeeklyPlan,
   isDeletingWeeklyPlan,
 }: CalendarTabProps) {
   const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
@@ -55,7 +59,9 @@ export function CalendarTab({
             key={plan.id}
             plan={plan}
             campaignId={campaignId}
+            onRetry={() => onRetryWeeklyPlan(plan.id)}
             onDelete={() => setPendingDeleteId(plan.id)}
+            isRetrying={isRetryingWeeklyPlan}
           />
         ))}
       </div>
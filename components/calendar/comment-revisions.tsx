@@ -0,0 +1,50 @@
+"use client";
+
+import { Spinner } from "@/components/ui/spinner";
+import { useCommentRevisions } from "@/lib/hooks";
+
+interface CommentRevisionsProps {
+  campaignId: string;
+  weeklyPlanId: string;
+  commentId: string;
+}
+
+/** Earlier text of a suggested reply, newest first */
+export function CommentRevisions({
+  campaignId,
+  weeklyPlanId,
+  commentId,
+}: CommentRevisionsProps) {
+  const { data: revisions = [], isLoading } = useCommentRevisions(
+    campaignId,
+    weeklyPlanId,
+    commentId,
+    true
+  );
+
+  if (isLoading) {
+    return <Spinner size="sm" />;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        No earlier versions of this reply
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {revisions.map((revision) => (
+        <div key={revision.id} className="rounded-lg bg-muted p-3 text-xs">
+          <p className="mb-1 text-muted-foreground">
+            Replaced by {revision.created_by} •{" "}
+            {new Date(revision.created_at).toLocaleString()}
+          </p>
+          <p className="whitespace-pre-wrap">{revision.comment_text}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,2 +1,13 @@
 export { CalendarTab } from "./calendar-tab";
 export { WeeklyPlanCard } from "./weekly-plan-card";
+export { ReviewControls } from "./review-controls";
+export { LegalApproval } from "./legal-approval";
+export {
+  PostOutcomeControls,
+  OutcomeBadge,
+  OUTCOME_LABELS,
+} from "./post-outcome";
+export { PlanStatusBadge, canRetryPlan } from "./plan-status-badge";
+export { PostRevisions } from "./post-revisions";
+export { CommentRevisions } from "./comment-revisions";
+export { InlineEditor } from "./inline-editor";
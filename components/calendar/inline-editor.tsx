@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface InlineEditorField {
+  name: string;
+  label: string;
+  value: string;
+  multiline?: boolean;
+}
+
+interface InlineEditorProps {
+  fields: InlineEditorField[];
+  onSave: (values: Record<string, string>) => Promise<void>;
+  onCancel: () => void;
+  disabled: boolean;
+}
+
+/**
+ * Edit a few text fields in place. Saving re-runs the compliance checks on
+ * the server, so the editor stays open if the save is refused.
+ */
+export function InlineEditor({
+  fields,
+  onSave,
+  onCancel,
+  disabled,
+}: InlineEditorProps) {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(fields.map((f) => [f.name, f.value]))
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onSave(values);
+  };
+
+  const unchanged = fields.every((f) => values[f.name] === f.value);
+  const empty = fields.some((f) => !values[f.name].trim());
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-3">
+      {fields.map((field) => (
+        <div key={field.name} className="grid gap-1">
+          <Label htmlFor={`edit-${field.name}`} className="text-xs">
+            {field.label}
+          </Label>
+          {field.multiline ? (
+            <Textarea
+              id={`edit-${field.name}`}
+              value={values[field.name]}
+              onChange={(e) =>
+                setValues({ ...values, [field.name]: e.target.value })
+              }
+              className="h-24"
+            />
+          ) : (
+            <Input
+              id={`edit-${field.name}`}
+              value={values[field.name]}
+              onChange={(e) =>
+                setValues({ ...values, [field.name]: e.target.value })
+              }
+            />
+          )}
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Button
+          type="submit"
+          size="sm"
+          disabled={disabled || unchanged || empty}
+        >
+          Save
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
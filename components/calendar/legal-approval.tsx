@@ -0,0 +1,68 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { needsLegalApproval } from "@/lib/planner/competitors";
+import type { PlannedPost } from "@/lib/types";
+
+interface LegalApprovalProps {
+  post: Pick<
+    PlannedPost,
+    "compliance_report" | "legal_approved_by" | "legal_approved_at"
+  >;
+  onApprove: () => Promise<void>;
+  disabled: boolean;
+}
+
+/**
+ * Legal sign-off for threads that compare the product with competitors.
+ * Renders nothing for other posts.
+ */
+export function LegalApproval({
+  post,
+  onApprove,
+  disabled,
+}: LegalApprovalProps) {
+  if (!needsLegalApproval(post.compliance_report)) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      {post.legal_approved_by ? (
+        <>
+          <Badge
+            variant="secondary"
+            className="text-xs bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400"
+          >
+            Legal approved
+          </Badge>
+          <span className="text-muted-foreground">
+            by {post.legal_approved_by}
+            {post.legal_approved_at &&
+              ` on ${new Date(post.legal_approved_at).toLocaleDateString()}`}
+          </span>
+        </>
+      ) : (
+        <>
+          <Badge
+            variant="secondary"
+            className="text-xs bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400"
+          >
+            Needs legal approval
+          </Badge>
+          <span className="text-muted-foreground">
+            Compares the product with competitors
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            onClick={onApprove}
+            disabled={disabled}
+          >
+            Legal Approve
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
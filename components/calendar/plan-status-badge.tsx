@@ -0,0 +1,47 @@
+import { Badge } from "@/components/ui/badge";
+import type { WeeklyPlanStatus } from "@/lib/types";
+
+const PLAN_STATUS_LABELS: Record<WeeklyPlanStatus, string> = {
+  generating: "Generating",
+  in_review: "In review",
+  ready: "Ready",
+  partially_failed: "Partially failed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const PLAN_STATUS_CLASSES: Record<WeeklyPlanStatus, string> = {
+  generating: "",
+  in_review: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
+  ready: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+  partially_failed:
+    "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400",
+  failed: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+  cancelled: "bg-muted text-muted-foreground",
+};
+
+/** Statuses where the plan can be generated again from scratch */
+export function canRetryPlan(status: WeeklyPlanStatus): boolean {
+  return (
+    status === "failed" ||
+    status === "partially_failed" ||
+    status === "cancelled"
+  );
+}
+
+export function PlanStatusBadge({
+  status,
+  className = "",
+}: {
+  status: WeeklyPlanStatus;
+  className?: string;
+}) {
+  return (
+    <Badge
+      variant="secondary"
+      className={`${PLAN_STATUS_CLASSES[status]} ${className}`}
+    >
+      {PLAN_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { PlannedPost, PostOutcome } from "@/lib/types";
+
+export const OUTCOME_LABELS: Record<PostOutcome, string> = {
+  live: "Live",
+  removed_by_mods: "Removed by mods",
+  removed_by_admins: "Removed by admins",
+  warned: "Warned",
+};
+
+const OUTCOME_CLASSES: Record<PostOutcome, string> = {
+  live: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+  removed_by_mods:
+    "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+  removed_by_admins:
+    "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+  warned:
+    "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400",
+};
+
+export function OutcomeBadge({ outcome }: { outcome: PostOutcome }) {
+  return (
+    <Badge
+      variant="secondary"
+      className={`text-xs ${OUTCOME_CLASSES[outcome]}`}
+    >
+      {OUTCOME_LABELS[outcome]}
+    </Badge>
+  );
+}
+
+interface PostOutcomeControlsProps {
+  post: Pick<
+    PlannedPost,
+    | "review_status"
+    | "subreddit_name"
+    | "outcome"
+    | "outcome_note"
+    | "outcome_recorded_by"
+    | "outcome_recorded_at"
+  >;
+  onRecord: (outcome: PostOutcome, note: string) => Promise<void>;
+  disabled: boolean;
+}
+
+/**
+ * What happened to an approved post once it was published. Renders nothing
+ * for posts that aren't approved.
+ */
+export function PostOutcomeControls({
+  post,
+  onRecord,
+  disabled,
+}: PostOutcomeControlsProps) {
+  const [showDialog, setShowDialog] = useState(false);
+  const [outcome, setOutcome] = useState<PostOutcome | "">("");
+  const [note, setNote] = useState("");
+
+  if (post.review_status !== "approved") return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!outcome) return;
+    await onRecord(outcome, note.trim());
+    setShowDialog(false);
+    setOutcome("");
+    setNote("");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      {post.outcome ? (
+        <>
+          <OutcomeBadge outcome={post.outcome} />
+          <span className="text-muted-foreground">
+            {post.outcome_recorded_by && `by ${post.outcome_recorded_by}`}
+            {post.outcome_recorded_at &&
+              ` on ${new Date(post.outcome_recorded_at).toLocaleDateString()}`}
+            {post.outcome_note && `: “${post.outcome_note}”`}
+          </span>
+        </>
+      ) : (
+        <span className="text-muted-foreground">Not published yet</span>
+      )}
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7 text-xs"
+        onClick={() => setShowDialog(true)}
+        disabled={disabled}
+      >
+        {post.outcome ? "Update Outcome" : "Record Outcome"}
+      </Button>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record outcome</DialogTitle>
+            <DialogDescription>
+              A removal or warning pauses r/{post.subreddit_name} for this
+              campaign until someone turns it back on in Subreddits.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="post-outcome">Outcome</Label>
+                <Select
+                  value={outcome}
+                  onValueChange={(value) => setOutcome(value as PostOutcome)}
+                >
+                  <SelectTrigger id="post-outcome" className="w-full">
+                    <SelectValue placeholder="Choose..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(OUTCOME_LABELS) as PostOutcome[]).map(
+                      (value) => (
+                        <SelectItem key={value} value={value}>
+                          {OUTCOME_LABELS[value]}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="outcome-note">Note</Label>
+                <Textarea
+                  id="outcome-note"
+                  placeholder="e.g., Removed under rule 3, no self-promotion"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="h-20"
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowDialog(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={disabled || !outcome}>
+                Save Outcome
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { usePostRevisions } from "@/lib/hooks";
+import type { PlannedPost, PostRevisionChange } from "@/lib/types";
+
+const CHANGE_LABELS: Record<PostRevisionChange, string> = {
+  regenerate_content: "Rewritten",
+  regenerate_topic: "New topic",
+  edit: "Edited",
+};
+
+interface PostRevisionsProps {
+  campaignId: string;
+  weeklyPlanId: string;
+  post: PlannedPost;
+  onRegenerate: (mode: "content" | "topic") => Promise<void>;
+  onEdit: () => void;
+  disabled: boolean;
+}
+
+/**
+ * Edit or regenerate a single post in place and compare each earlier
+ * version with the one that replaced it
+ */
+export function PostRevisions({
+  campaignId,
+  weeklyPlanId,
+  post,
+  onRegenerate,
+  onEdit,
+  disabled,
+}: PostRevisionsProps) {
+  const [showHistory, setShowHistory] = useState(false);
+  const { data: revisions = [], isLoading } = usePostRevisions(
+    campaignId,
+    weeklyPlanId,
+    post.id,
+    showHistory
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 text-xs"
+          onClick={onEdit}
+          disabled={disabled}
+        >
+          Edit
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 text-xs"
+          onClick={() => onRegenerate("content")}
+          disabled={disabled}
+          title="Rewrite the title and body on the same topic"
+        >
+          Rewrite
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 text-xs"
+          onClick={() => onRegenerate("topic")}
+          disabled={disabled}
+          title="Pick a new topic and write a new post for this slot"
+        >
+          New topic
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 text-xs"
+          onClick={() => setShowHistory(!showHistory)}
+        >
+          {showHistory ? "Hide history" : "History"}
+        </Button>
+      </div>
+
+      {showHistory &&
+        (isLoading ? (
+          <Spinner size="sm" />
+        ) : revisions.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No earlier versions of this post
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {revisions.map((revision, i) => {
+              // Each version was replaced by the next newer one
+              const replacement = i === 0 ? post : revisions[i - 1];
+              return (
+                <div
+                  key={revision.id}
+                  className="grid gap-3 md:grid-cols-2 rounded-lg bg-muted p-3 text-xs"
+                >
+                  <div>
+                    <div className="flex items-center gap-2 mb-1 text-muted-foreground">
+                      <Badge variant="outline" className="text-xs">
+                        {CHANGE_LABELS[revision.change]}
+                      </Badge>
+                      <span>
+                        by {revision.created_by} •{" "}
+                        {new Date(revision.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="font-medium">{revision.title}</p>
+                    <p className="whitespace-pre-wrap">{revision.body}</p>
+                    <p className="mt-1 text-muted-foreground">
+                      Q: {Math.round(revision.quality_score * 100)}% • C:{" "}
+                      {Math.round(revision.compliance_score * 100)}%
+                    </p>
+                  </div>
+                  <div>
+                    <p className="mb-1 text-muted-foreground">
+                      {i === 0 ? "Current version" : "Replaced by"}
+                    </p>
+                    <p className="font-medium">{replacement.title}</p>
+                    <p className="whitespace-pre-wrap">{replacement.body}</p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { ReviewStatus } from "@/lib/types";
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  in_review: "In review",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+const STATUS_CLASSES: Record<ReviewStatus, string> = {
+  in_review: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
+  approved:
+    "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+  rejected: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+};
+
+interface ReviewItem {
+  review_status: ReviewStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+}
+
+interface ReviewControlsProps {
+  item: ReviewItem;
+  onApprove: () => Promise<void>;
+  onReject: (note: string) => Promise<void>;
+  disabled: boolean;
+}
+
+export function ReviewControls({
+  item,
+  onApprove,
+  onReject,
+  disabled,
+}: ReviewControlsProps) {
+  const [showRejectDialog, setShowRejectDialog] = useState(false);
+  const [note, setNote] = useState("");
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onReject(note.trim());
+    setShowRejectDialog(false);
+    setNote("");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <Badge
+        variant="secondary"
+        className={`text-xs ${STATUS_CLASSES[item.review_status]}`}
+      >
+        {STATUS_LABELS[item.review_status]}
+      </Badge>
+      {item.reviewed_by && (
+        <span className="text-muted-foreground">
+          by {item.reviewed_by}
+          {item.reviewed_at &&
+            ` on ${new Date(item.reviewed_at).toLocaleDateString()}`}
+          {item.review_note && `: “${item.review_note}”`}
+        </span>
+      )}
+      {item.review_status === "in_review" && (
+        <>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            onClick={onApprove}
+            disabled={disabled}
+          >
+            Approve
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs text-destructive hover:text-destructive"
+            onClick={() => setShowRejectDialog(true)}
+            disabled={disabled}
+          >
+            Reject
+          </Button>
+        </>
+      )}
+
+      <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject item</DialogTitle>
+            <DialogDescription>
+              Explain what needs to change. The note is saved with your
+              sign-off.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReject}>
+            <div className="grid gap-2 py-4">
+              <Label htmlFor="review-note">Reviewer note</Label>
+              <Textarea
+                id="review-note"
+                placeholder="e.g., Claim about export speed isn't backed up"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="h-24"
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowRejectDialog(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="destructive"
+                disabled={disabled || !note.trim()}
+              >
+                Reject
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,19 +3,26 @@
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { PlanStatusBadge, canRetryPlan } from "./plan-status-badge";
 import type { WeeklyPlan } from "@/lib/types";
 
 interface WeeklyPlanCardProps {
   plan: WeeklyPlan;
   campaignId: string;
+  onRetry: () => void;
   onDelete: () => void;
+  isRetrying: boolean;
 }
 
 export function WeeklyPlanCard({
   plan,
   campaignId,
+  onRetry,
   onDelete,
+  isRetrying,
 }: WeeklyPlanCardProps) {
+  const errorCount = plan.plan_json.errors?.length || 0;
+
   return (
     <Card className="hover:border-primary transition-colors">
       <CardContent className="py-4 flex justify-between items-center">
@@ -23,22 +30,45 @@ export function WeeklyPlanCard({
           href={`/campaigns/${campaignId}/calendar/${plan.id}`}
           className="flex-1"
         >
-          <p className="font-medium">
-            Week of {new Date(plan.week_start_date).toLocaleDateString()}
-          </p>
+          <div className="flex items-center gap-2">
+            <p className="font-medium">
+              Week of{" "}
+              {new Date(plan.week_start_date + "T00:00:00Z").toLocaleDateString(
+                [],
+                { timeZone: "UTC" }
+              )}
+            </p>
+            <PlanStatusBadge status={plan.status} className="text-xs" />
+          </div>
           <p className="text-sm text-muted-foreground">
             {plan.plan_json.posts_count || 0} posts •{" "}
             {plan.plan_json.comments_count || 0} comments
+            {errorCount > 0 && ` • ${errorCount} skipped`}
           </p>
+          {plan.plan_json.error && (
+            <p className="text-sm text-destructive">{plan.plan_json.error}</p>
+          )}
         </Link>
-        <Button
-          variant="ghost"
-          size="sm"
-          className="text-destructive hover:text-destructive"
-          onClick={onDelete}
-        >
-          Delete
-        </Button>
+        <div className="flex gap-1">
+          {canRetryPlan(plan.status) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onRetry}
+              disabled={isRetrying}
+            >
+              Retry
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            onClick={onDelete}
+          >
+            Delete
+          </Button>
+        </div>
       </CardContent>
     </Card>
   );
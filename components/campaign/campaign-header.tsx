@@ -5,7 +5,12 @@ import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { EditCampaignDialog } from "@/components/campaign/edit-campaign-dialog";
-import type { Campaign } from "@/lib/types";
+import type {
+  Campaign,
+  PostingSchedule,
+  ReasoningEffort,
+  VolumeCaps,
+} from "@/lib/types";
 
 interface CampaignHeaderProps {
   campaign: Campaign;
@@ -14,7 +19,15 @@ interface CampaignHeaderProps {
     company_name: string;
     company_url: string;
     company_description: string;
+    disclosure_template: string;
+    approved_claims: string[];
+    competitors: string[];
     posts_per_week: number;
+    llm_provider: "openai" | "stub";
+    llm_model: string;
+    llm_reasoning_effort: ReasoningEffort | "";
+    posting_schedule: PostingSchedule;
+    volume_caps: VolumeCaps;
   }) => Promise<void>;
   onDelete: () => Promise<void>;
   isUpdating: boolean;
@@ -36,7 +49,17 @@ export function CampaignHeader({
     company_name: campaign.company_name,
     company_url: campaign.company_info?.website || "",
     company_description: campaign.company_info?.description || "",
+    disclosure_template: campaign.company_info?.disclosure_template || "",
+    approved_claims: campaign.company_info?.approved_claims || [],
+    competitors: campaign.company_info?.competitors || [],
     posts_per_week: campaign.posts_per_week,
+    llm_provider: campaign.llm_settings?.provider || "openai",
+    llm_model: campaign.llm_settings?.model || "",
+    llm_reasoning_effort: (campaign.llm_settings?.reasoning_effort || "") as
+      | ReasoningEffort
+      | "",
+    posting_schedule: campaign.posting_schedule || {},
+    volume_caps: campaign.volume_caps || {},
   };
 
   const handleUpdate = async (data: {
@@ -44,7 +67,15 @@ export function CampaignHeader({
     company_name: string;
     company_url: string;
     company_description: string;
+    disclosure_template: string;
+    approved_claims: string[];
+    competitors: string[];
     posts_per_week: number;
+    llm_provider: "openai" | "stub";
+    llm_model: string;
+    llm_reasoning_effort: ReasoningEffort | "";
+    posting_schedule: PostingSchedule;
+    volume_caps: VolumeCaps;
   }) => {
     try {
       await onUpdate(data);
@@ -54,6 +85,7 @@ export function CampaignHeader({
       const message =
         err instanceof Error ? err.message : "Failed to update campaign";
       toast.error(message);
+      throw err;
     }
   };
 
@@ -116,6 +148,7 @@ export function CampaignHeader({
         onSubmit={handleUpdate}
         isPending={isUpdating}
         initialData={editCampaignData}
+        timezone={campaign.timezone}
       />
 
       <ConfirmDialog
@@ -14,6 +14,25 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Spinner } from "@/components/ui/spinner";
+import { FieldError } from "@/components/ui/field-error";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DEFAULT_DISCLOSURE_TEMPLATE } from "@/lib/planner/disclosure";
+import { DEFAULT_LLM_MODEL } from "@/lib/llm/provider";
+import { fieldErrorsOf } from "@/lib/hooks";
+import type {
+  FieldErrors,
+  PostingSchedule,
+  ReasoningEffort,
+  VolumeCaps,
+} from "@/lib/types";
+import { PostingScheduleFields } from "./posting-schedule-fields";
+import { VolumeCapsFields } from "./volume-caps-fields";
 
 interface EditCampaignDialogProps {
   open: boolean;
@@ -23,7 +42,15 @@ interface EditCampaignDialogProps {
     company_name: string;
     company_url: string;
     company_description: string;
+    disclosure_template: string;
+    approved_claims: string[];
+    competitors: string[];
     posts_per_week: number;
+    llm_provider: "openai" | "stub";
+    llm_model: string;
+    llm_reasoning_effort: ReasoningEffort | "";
+    posting_schedule: PostingSchedule;
+    volume_caps: VolumeCaps;
   }) => Promise<void>;
   isPending: boolean;
   initialData: {
@@ -31,8 +58,17 @@ interface EditCampaignDialogProps {
     company_name: string;
     company_url: string;
     company_description: string;
+    disclosure_template: string;
+    approved_claims: string[];
+    competitors: string[];
     posts_per_week: number;
+    llm_provider: "openai" | "stub";
+    llm_model: string;
+    llm_reasoning_effort: ReasoningEffort | "";
+    posting_schedule: PostingSchedule;
+    volume_caps: VolumeCaps;
   };
+  timezone: string;
 }
 
 export function EditCampaignDialog({
@@ -41,8 +77,16 @@ export function EditCampaignDialog({
   onSubmit,
   isPending,
   initialData,
+  timezone,
 }: EditCampaignDialogProps) {
   const [formData, setFormData] = useState(initialData);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const claimsError = Object.entries(errors).find(([field]) =>
+    field.startsWith("company_info.approved_claims")
+  )?.[1];
+  const competitorsError = Object.entries(errors).find(([field]) =>
+    field.startsWith("company_info.competitors")
+  )?.[1];
 
   useEffect(() => {
     setFormData(initialData);
@@ -50,12 +94,17 @@ export function EditCampaignDialog({
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    await onSubmit(formData);
+    setErrors({});
+    try {
+      await onSubmit(formData);
+    } catch (err) {
+      setErrors(fieldErrorsOf(err));
+    }
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Campaign</DialogTitle>
           <DialogDescription>
@@ -70,12 +119,14 @@ export function EditCampaignDialog({
               </Label>
               <Input
                 id="edit-name"
+                aria-invalid={!!errors.name}
                 value={formData.name}
                 onChange={(e) =>
                   setFormData({ ...formData, name: e.target.value })
                 }
                 required
               />
+              <FieldError message={errors.name} />
             </div>
             <div className="grid gap-2">
               <Label htmlFor="edit-company">
@@ -83,6 +134,7 @@ export function EditCampaignDialog({
               </Label>
               <Input
                 id="edit-company"
+                aria-invalid={!!errors.company_name}
                 value={formData.company_name}
                 onChange={(e) =>
                   setFormData({
@@ -92,6 +144,7 @@ export function EditCampaignDialog({
                 }
                 required
               />
+              <FieldError message={errors.company_name} />
             </div>
             <div className="grid gap-2">
               <Label htmlFor="edit-url">
@@ -102,6 +155,7 @@ export function EditCampaignDialog({
               </Label>
               <Input
                 id="edit-url"
+                aria-invalid={!!errors["company_info.website"]}
                 value={formData.company_url}
                 onChange={(e) =>
                   setFormData({
@@ -111,6 +165,7 @@ export function EditCampaignDialog({
                 }
                 placeholder="e.g., slideforge.ai"
               />
+              <FieldError message={errors["company_info.website"]} />
             </div>
             <div className="grid gap-2">
               <Label htmlFor="edit-description">
@@ -121,6 +176,7 @@ export function EditCampaignDialog({
               </Label>
               <Textarea
                 id="edit-description"
+                aria-invalid={!!errors["company_info.description"]}
                 value={formData.company_description}
                 onChange={(e) =>
                   setFormData({
@@ -131,6 +187,86 @@ export function EditCampaignDialog({
                 placeholder="What does your company do? Who is your ICP?"
                 className="h-24"
               />
+              <FieldError message={errors["company_info.description"]} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="edit-disclosure">
+                Affiliation Disclosure{" "}
+                <span className="text-muted-foreground font-normal">
+                  (optional)
+                </span>
+              </Label>
+              <Input
+                id="edit-disclosure"
+                aria-invalid={!!errors["company_info.disclosure_template"]}
+                value={formData.disclosure_template}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    disclosure_template: e.target.value,
+                  })
+                }
+                placeholder={DEFAULT_DISCLOSURE_TEMPLATE}
+              />
+              <FieldError
+                message={errors["company_info.disclosure_template"]}
+              />
+              <p className="text-xs text-muted-foreground">
+                Added to every post and comment written by an affiliated
+                persona. Use {"{company_name}"} for the company name.
+              </p>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="edit-claims">
+                Approved Claims{" "}
+                <span className="text-muted-foreground font-normal">
+                  (one per line)
+                </span>
+              </Label>
+              <Textarea
+                id="edit-claims"
+                aria-invalid={!!claimsError}
+                value={formData.approved_claims.join("\n")}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    approved_claims: e.target.value.split("\n"),
+                  })
+                }
+                placeholder="e.g., Slideforge exports decks to PowerPoint and Google Slides."
+                className="h-24"
+              />
+              <FieldError message={claimsError} />
+              <p className="text-xs text-muted-foreground">
+                Statements about the product that don&apos;t match one of these
+                are flagged for review.
+              </p>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="edit-competitors">
+                Competitors{" "}
+                <span className="text-muted-foreground font-normal">
+                  (one per line)
+                </span>
+              </Label>
+              <Textarea
+                id="edit-competitors"
+                aria-invalid={!!competitorsError}
+                value={formData.competitors.join("\n")}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    competitors: e.target.value.split("\n"),
+                  })
+                }
+                placeholder="e.g., Canva"
+                className="h-20"
+              />
+              <FieldError message={competitorsError} />
+              <p className="text-xs text-muted-foreground">
+                Posts that compare the product with these need legal approval
+                before they can be approved.
+              </p>
             </div>
             <div className="grid gap-2">
               <Label htmlFor="edit-posts">
@@ -138,6 +274,7 @@ export function EditCampaignDialog({
               </Label>
               <Input
                 id="edit-posts"
+                aria-invalid={!!errors.posts_per_week}
                 type="number"
                 min="1"
                 max="14"
@@ -150,7 +287,89 @@ export function EditCampaignDialog({
                 }
                 required
               />
+              <FieldError message={errors.posts_per_week} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="edit-llm-provider">Content Model</Label>
+                <Select
+                  value={formData.llm_provider}
+                  onValueChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      llm_provider: value as "openai" | "stub",
+                    })
+                  }
+                >
+                  <SelectTrigger id="edit-llm-provider" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="openai">OpenAI</SelectItem>
+                    <SelectItem value="stub">Offline stub</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-llm-effort">Reasoning Effort</Label>
+                <Select
+                  value={formData.llm_reasoning_effort || "default"}
+                  onValueChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      llm_reasoning_effort:
+                        value === "default" ? "" : (value as ReasoningEffort),
+                    })
+                  }
+                >
+                  <SelectTrigger id="edit-llm-effort" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Per step default</SelectItem>
+                    <SelectItem value="minimal">Minimal</SelectItem>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
+            {formData.llm_provider === "openai" && (
+              <div className="grid gap-2">
+                <Label htmlFor="edit-llm-model">
+                  Model{" "}
+                  <span className="text-muted-foreground font-normal">
+                    (optional)
+                  </span>
+                </Label>
+                <Input
+                  id="edit-llm-model"
+                  aria-invalid={!!errors["llm_settings.model"]}
+                  value={formData.llm_model}
+                  onChange={(e) =>
+                    setFormData({ ...formData, llm_model: e.target.value })
+                  }
+                  placeholder={DEFAULT_LLM_MODEL}
+                />
+                <FieldError message={errors["llm_settings.model"]} />
+              </div>
+            )}
+            <PostingScheduleFields
+              value={formData.posting_schedule}
+              onChange={(posting_schedule) =>
+                setFormData({ ...formData, posting_schedule })
+              }
+              timezone={timezone}
+              errors={errors}
+            />
+            <VolumeCapsFields
+              value={formData.volume_caps}
+              onChange={(volume_caps) =>
+                setFormData({ ...formData, volume_caps })
+              }
+              errors={errors}
+            />
           </div>
           <DialogFooter>
             <Button
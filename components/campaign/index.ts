@@ -1,2 +1,4 @@
 export { CampaignHeader } from "./campaign-header";
 export { EditCampaignDialog } from "./edit-campaign-dialog";
+export { PostingScheduleFields } from "./posting-schedule-fields";
+export { VolumeCapsFields } from "./volume-caps-fields";
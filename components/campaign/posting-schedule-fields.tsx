@@ -0,0 +1,194 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DEFAULT_POSTING_SCHEDULE } from "@/lib/planner/scheduler";
+import { FieldError } from "@/components/ui/field-error";
+import type {
+  BlackoutPeriod,
+  FieldErrors,
+  PostingSchedule,
+  Weekday,
+} from "@/lib/types";
+
+// Monday first, like the calendar weeks
+const WEEKDAYS: { day: Weekday; label: string }[] = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" },
+];
+
+interface PostingScheduleFieldsProps {
+  value: PostingSchedule;
+  onChange: (value: PostingSchedule) => void;
+  timezone: string;
+  /** Validation messages for the campaign, keyed like `posting_schedule.end_hour` */
+  errors?: FieldErrors;
+}
+
+/**
+ * Allowed posting days, hours and blackout dates for a campaign
+ */
+export function PostingScheduleFields({
+  value,
+  onChange,
+  timezone,
+  errors = {},
+}: PostingScheduleFieldsProps) {
+  const errorFor = (field: string) => errors[`posting_schedule.${field}`];
+  const days = value.days ?? DEFAULT_POSTING_SCHEDULE.days;
+  const blackouts = value.blackouts ?? [];
+
+  const toggleDay = (day: Weekday) =>
+    onChange({
+      ...value,
+      days: days.includes(day)
+        ? days.filter((d) => d !== day)
+        : [...days, day].sort((a, b) => a - b),
+    });
+
+  const updateBlackout = (index: number, changes: Partial<BlackoutPeriod>) =>
+    onChange({
+      ...value,
+      blackouts: blackouts.map((b, i) =>
+        i === index ? { ...b, ...changes } : b
+      ),
+    });
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid gap-2">
+        <Label>Posting Days</Label>
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.map(({ day, label }) => (
+            <Button
+              key={day}
+              type="button"
+              size="sm"
+              variant={days.includes(day) ? "default" : "outline"}
+              className="h-7 px-2 text-xs"
+              onClick={() => toggleDay(day)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <FieldError message={errorFor("days")} />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="schedule-start">From (hour)</Label>
+          <Input
+            id="schedule-start"
+            aria-invalid={!!errorFor("start_hour")}
+            type="number"
+            min="0"
+            max="23"
+            value={value.start_hour ?? DEFAULT_POSTING_SCHEDULE.start_hour}
+            onChange={(e) =>
+              onChange({ ...value, start_hour: parseInt(e.target.value) })
+            }
+          />
+          <FieldError message={errorFor("start_hour")} />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="schedule-end">Until (hour)</Label>
+          <Input
+            id="schedule-end"
+            aria-invalid={!!errorFor("end_hour")}
+            type="number"
+            min="1"
+            max="24"
+            value={value.end_hour ?? DEFAULT_POSTING_SCHEDULE.end_hour}
+            onChange={(e) =>
+              onChange({ ...value, end_hour: parseInt(e.target.value) })
+            }
+          />
+          <FieldError message={errorFor("end_hour")} />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground -mt-2">
+        Posts go out between these hours in {timezone}.
+      </p>
+      <div className="grid gap-2">
+        <Label>
+          Blackout Dates{" "}
+          <span className="text-muted-foreground font-normal">
+            (holidays, launch freezes, incidents)
+          </span>
+        </Label>
+        {blackouts.map((blackout, i) => (
+          <div key={i} className="grid gap-1">
+            <div className="grid grid-cols-[1fr_1fr_1.5fr_auto] gap-2">
+              <Input
+                type="date"
+                aria-label="Blackout start"
+                aria-invalid={!!errorFor(`blackouts.${i}.start_date`)}
+                value={blackout.start_date}
+                onChange={(e) =>
+                  updateBlackout(i, { start_date: e.target.value })
+                }
+              />
+              <Input
+                type="date"
+                aria-label="Blackout end"
+                aria-invalid={!!errorFor(`blackouts.${i}.end_date`)}
+                value={blackout.end_date}
+                onChange={(e) =>
+                  updateBlackout(i, { end_date: e.target.value })
+                }
+              />
+              <Input
+                placeholder="Reason"
+                value={blackout.reason}
+                onChange={(e) => updateBlackout(i, { reason: e.target.value })}
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() =>
+                  onChange({
+                    ...value,
+                    blackouts: blackouts.filter((_, j) => j !== i),
+                  })
+                }
+              >
+                Remove
+              </Button>
+            </div>
+            <FieldError
+              message={
+                errorFor(`blackouts.${i}.start_date`) ||
+                errorFor(`blackouts.${i}.end_date`) ||
+                errorFor(`blackouts.${i}.reason`)
+              }
+            />
+          </div>
+        ))}
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="justify-self-start"
+          onClick={() =>
+            onChange({
+              ...value,
+              blackouts: [
+                ...blackouts,
+                { start_date: "", end_date: "", reason: "" },
+              ],
+            })
+          }
+        >
+          Add Blackout
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FieldError } from "@/components/ui/field-error";
+import type {
+  CapWindow,
+  FieldErrors,
+  VolumeCap,
+  VolumeCaps,
+} from "@/lib/types";
+
+const WINDOWS: { window: CapWindow; label: string }[] = [
+  { window: "7d", label: "7 days" },
+  { window: "30d", label: "30 days" },
+  { window: "90d", label: "90 days" },
+];
+
+const ROWS: {
+  scope: keyof VolumeCaps;
+  kind: keyof VolumeCap;
+  label: string;
+}[] = [
+  { scope: "community", kind: "total", label: "Per community" },
+  { scope: "community", kind: "promotional", label: "Promotional" },
+  { scope: "account", kind: "total", label: "Per account" },
+  { scope: "account", kind: "promotional", label: "Promotional" },
+];
+
+interface VolumeCapsFieldsProps {
+  value: VolumeCaps;
+  onChange: (value: VolumeCaps) => void;
+  /** Validation messages for the campaign, keyed like `volume_caps.account.7d.total` */
+  errors?: FieldErrors;
+}
+
+/**
+ * Most posts and replies per community and per account over rolling windows
+ */
+export function VolumeCapsFields({
+  value,
+  onChange,
+  errors = {},
+}: VolumeCapsFieldsProps) {
+  const setCap = (
+    scope: keyof VolumeCaps,
+    window: CapWindow,
+    kind: keyof VolumeCap,
+    input: string
+  ) =>
+    onChange({
+      ...value,
+      [scope]: {
+        ...value[scope],
+        [window]: {
+          ...value[scope]?.[window],
+          [kind]: input === "" ? null : Number(input),
+        },
+      },
+    });
+
+  const messages = Object.entries(errors)
+    .filter(([field]) => field.startsWith("volume_caps."))
+    .map(
+      ([field, message]) => `${field.slice("volume_caps.".length)}: ${message}`
+    );
+
+  return (
+    <div className="grid gap-2">
+      <Label>Volume Caps</Label>
+      <div className="grid grid-cols-[1fr_repeat(3,5rem)] items-center gap-2 text-xs">
+        <span />
+        {WINDOWS.map(({ window, label }) => (
+          <span key={window} className="text-muted-foreground">
+            {label}
+          </span>
+        ))}
+        {ROWS.map(({ scope, kind, label }) => (
+          <div key={`${scope}-${kind}`} className="contents">
+            <span className={kind === "promotional" ? "pl-3" : ""}>
+              {label}
+            </span>
+            {WINDOWS.map(({ window }) => {
+              const field = `volume_caps.${scope}.${window}.${kind}`;
+              return (
+                <Input
+                  key={window}
+                  type="number"
+                  min="0"
+                  className="h-8"
+                  aria-label={`${label} ${scope} cap over ${window}`}
+                  aria-invalid={!!errors[field]}
+                  placeholder="None"
+                  value={value[scope]?.[window]?.[kind] ?? ""}
+                  onChange={(e) => setCap(scope, window, kind, e.target.value)}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      {messages.map((message) => (
+        <FieldError key={message} message={message} />
+      ))}
+      <p className="text-xs text-muted-foreground">
+        Posts and replies over a cap in any rolling window are blocked. Leave
+        blank for no cap.
+      </p>
+    </div>
+  );
+}
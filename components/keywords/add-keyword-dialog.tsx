@@ -16,6 +16,9 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Spinner } from "@/components/ui/spinner";
+import { FieldError } from "@/components/ui/field-error";
+import { fieldErrorsOf } from "@/lib/hooks";
+import type { FieldErrors } from "@/lib/types";
 
 interface AddKeywordDialogProps {
   open: boolean;
@@ -32,6 +35,7 @@ export function AddKeywordDialog({
 }: AddKeywordDialogProps) {
   const [keywordInput, setKeywordInput] = useState("");
   const [pendingKeywords, setPendingKeywords] = useState<string[]>([]);
+  const [errors, setErrors] = useState<FieldErrors>({});
 
   const handleAddToPending = () => {
     const text = keywordInput.trim();
@@ -48,6 +52,7 @@ export function AddKeywordDialog({
 
   const handleRemoveFromPending = (text: string) => {
     setPendingKeywords(pendingKeywords.filter((k) => k !== text));
+    setErrors({});
   };
 
   const handleSubmit = async () => {
@@ -56,13 +61,19 @@ export function AddKeywordDialog({
       return;
     }
 
-    await onSubmit(pendingKeywords);
-    setPendingKeywords([]);
-    setKeywordInput("");
+    setErrors({});
+    try {
+      await onSubmit(pendingKeywords);
+      setPendingKeywords([]);
+      setKeywordInput("");
+    } catch (err) {
+      setErrors(fieldErrorsOf(err));
+    }
   };
 
   const handleClose = () => {
     onOpenChange(false);
+    setErrors({});
     setPendingKeywords([]);
     setKeywordInput("");
   };
@@ -113,10 +124,10 @@ export function AddKeywordDialog({
             <div className="grid gap-2">
               <Label>Keywords to add ({pendingKeywords.length})</Label>
               <div className="flex flex-wrap gap-2">
-                {pendingKeywords.map((text) => (
+                {pendingKeywords.map((text, i) => (
                   <Badge
                     key={text}
-                    variant="secondary"
+                    variant={errors[`texts.${i}`] ? "destructive" : "secondary"}
                     className="cursor-pointer hover:bg-destructive hover:text-white"
                     onClick={() => handleRemoveFromPending(text)}
                   >
@@ -124,6 +135,15 @@ export function AddKeywordDialog({
                   </Badge>
                 ))}
               </div>
+              {pendingKeywords.map((text, i) => (
+                <FieldError
+                  key={text}
+                  message={
+                    errors[`texts.${i}`] && `text: ${errors[`texts.${i}`]}`
+                  }
+                />
+              ))}
+              <FieldError message={errors.texts} />
             </div>
           )}
         </div>
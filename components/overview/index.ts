@@ -1 +1,2 @@
 export { OverviewTab } from "./overview-tab";
+export { OutcomesPanel } from "./outcomes-panel";
@@ -0,0 +1,76 @@
+"use client";
+
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { OutcomeBadge } from "@/components/calendar/post-outcome";
+import type { PlannedPost } from "@/lib/types";
+
+interface OutcomesPanelProps {
+  outcomes: PlannedPost[];
+  /** Names of the campaign's subreddits that are currently inactive */
+  pausedSubreddits: string[];
+}
+
+/**
+ * Outcomes recorded for published posts, newest first
+ */
+export function OutcomesPanel({
+  outcomes,
+  pausedSubreddits,
+}: OutcomesPanelProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Post Outcomes</CardTitle>
+        <CardDescription>
+          A removal or warning pauses the subreddit until someone resumes it in
+          Subreddits.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {outcomes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No outcomes recorded yet
+          </p>
+        ) : (
+          <div className="divide-y">
+            {outcomes.map((post) => (
+              <div
+                key={post.id}
+                className="py-2 flex flex-wrap items-center gap-2 text-sm"
+              >
+                {post.outcome && <OutcomeBadge outcome={post.outcome} />}
+                <span className="font-medium">r/{post.subreddit_name}</span>
+                {post.outcome !== "live" &&
+                  pausedSubreddits.includes(post.subreddit_name) && (
+                    <Badge variant="outline" className="text-xs">
+                      Paused
+                    </Badge>
+                  )}
+                <Link
+                  href={`/campaigns/${post.campaign_id}/calendar/${post.weekly_plan_id}`}
+                  className="truncate hover:underline"
+                >
+                  {post.title}
+                </Link>
+                <span className="text-xs text-muted-foreground">
+                  {post.outcome_recorded_by && `by ${post.outcome_recorded_by}`}
+                  {post.outcome_recorded_at &&
+                    ` on ${new Date(post.outcome_recorded_at).toLocaleDateString()}`}
+                  {post.outcome_note && `: “${post.outcome_note}”`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,12 +8,16 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import type { PlannedPost } from "@/lib/types";
+import { OutcomesPanel } from "./outcomes-panel";
 
 interface OverviewTabProps {
   personasCount: number;
   subredditsCount: number;
   keywordsCount: number;
   weeklyPlansCount: number;
+  outcomes: PlannedPost[];
+  pausedSubreddits: string[];
   isGenerating: boolean;
   onGenerateCalendar: () => void;
   onGenerateNextWeek: () => void;
@@ -24,6 +28,8 @@ export function OverviewTab({
   subredditsCount,
   keywordsCount,
   weeklyPlansCount,
+  outcomes,
+  pausedSubreddits,
   isGenerating,
   onGenerateCalendar,
   onGenerateNextWeek,
@@ -76,6 +82,8 @@ export function OverviewTab({
           </CardContent>
         </Card>
       </div>
+
+      <OutcomesPanel outcomes={outcomes} pausedSubreddits={pausedSubreddits} />
     </div>
   );
 }
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Spinner } from "@/components/ui/spinner";
+import { fieldErrorsOf } from "@/lib/hooks";
+import type { FieldErrors, Persona } from "@/lib/types";
+import {
+  AccountDetails,
+  AccountDetailsFields,
+  toAccountDetails,
+} from "./account-details-fields";
+
+interface AccountDetailsDialogProps {
+  persona: Persona | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (details: AccountDetails) => Promise<void>;
+  isPending: boolean;
+}
+
+export function AccountDetailsDialog({
+  persona,
+  onOpenChange,
+  onSubmit,
+  isPending,
+}: AccountDetailsDialogProps) {
+  const [formData, setFormData] = useState(
+    persona ? toAccountDetails(persona) : null
+  );
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+    setErrors({});
+    try {
+      await onSubmit(formData);
+    } catch (err) {
+      setErrors(fieldErrorsOf(err));
+    }
+  };
+
+  return (
+    <Dialog open={!!persona} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Account details for u/{persona?.username}</DialogTitle>
+          <DialogDescription>
+            Content is only assigned to accounts with every detail recorded.
+          </DialogDescription>
+        </DialogHeader>
+        {formData && (
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              <AccountDetailsFields
+                value={formData}
+                onChange={setFormData}
+                errors={errors}
+                idPrefix="account-details"
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending && <Spinner size="sm" />}
+                {isPending ? "Saving..." : "Save Details"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FieldError } from "@/components/ui/field-error";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { EmployerRelationship, FieldErrors, Persona } from "@/lib/types";
+
+export interface AccountDetails {
+  owner_name: string;
+  employer_relationship: EmployerRelationship | "";
+  disclosure_text: string;
+  profile_states_affiliation: boolean;
+  consent: boolean;
+}
+
+export const EMPTY_ACCOUNT_DETAILS: AccountDetails = {
+  owner_name: "",
+  employer_relationship: "",
+  disclosure_text: "",
+  profile_states_affiliation: false,
+  consent: false,
+};
+
+export function toAccountDetails(persona: Persona): AccountDetails {
+  return {
+    owner_name: persona.owner_name || "",
+    employer_relationship: persona.employer_relationship || "",
+    disclosure_text: persona.disclosure_text || "",
+    profile_states_affiliation: persona.profile_states_affiliation,
+    consent: !!persona.consent_given_at,
+  };
+}
+
+interface AccountDetailsFieldsProps {
+  value: AccountDetails;
+  onChange: (value: AccountDetails) => void;
+  errors: FieldErrors;
+  /** Keeps input ids unique when several forms are mounted */
+  idPrefix: string;
+}
+
+/**
+ * Who runs an account and how it discloses the company connection
+ */
+export function AccountDetailsFields({
+  value,
+  onChange,
+  errors,
+  idPrefix,
+}: AccountDetailsFieldsProps) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}-owner`}>
+            Run by <span className="text-destructive">*</span>
+          </Label>
+          <Input
+            id={`${idPrefix}-owner`}
+            aria-invalid={!!errors.owner_name}
+            placeholder="e.g., Riley Chen"
+            value={value.owner_name}
+            onChange={(e) => onChange({ ...value, owner_name: e.target.value })}
+          />
+          <FieldError message={errors.owner_name} />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}-relationship`}>
+            Relationship <span className="text-destructive">*</span>
+          </Label>
+          <Select
+            value={value.employer_relationship}
+            onValueChange={(relationship) =>
+              onChange({
+                ...value,
+                employer_relationship: relationship as EmployerRelationship,
+              })
+            }
+          >
+            <SelectTrigger
+              id={`${idPrefix}-relationship`}
+              aria-invalid={!!errors.employer_relationship}
+              className="w-full"
+            >
+              <SelectValue placeholder="Choose..." />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="employee">Employee</SelectItem>
+              <SelectItem value="founder">Founder</SelectItem>
+              <SelectItem value="contractor">Contractor</SelectItem>
+              <SelectItem value="agency">Agency</SelectItem>
+            </SelectContent>
+          </Select>
+          <FieldError message={errors.employer_relationship} />
+        </div>
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor={`${idPrefix}-disclosure`}>
+          Disclosure <span className="text-destructive">*</span>
+        </Label>
+        <Input
+          id={`${idPrefix}-disclosure`}
+          aria-invalid={!!errors.disclosure_text}
+          placeholder="e.g., Disclosure: I'm on the Slideforge team."
+          value={value.disclosure_text}
+          onChange={(e) =>
+            onChange({ ...value, disclosure_text: e.target.value })
+          }
+        />
+        <FieldError message={errors.disclosure_text} />
+        <p className="text-xs text-muted-foreground">
+          Added word for word to every post and reply from this account.
+        </p>
+      </div>
+      <div className="grid gap-2">
+        <label className="flex items-start gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="mt-0.5 size-4 accent-primary"
+            checked={value.profile_states_affiliation}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                profile_states_affiliation: e.target.checked,
+              })
+            }
+          />
+          The account&apos;s public profile states its connection to the company
+        </label>
+        <label className="flex items-start gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="mt-0.5 size-4 accent-primary"
+            aria-invalid={!!errors.consent}
+            checked={value.consent}
+            onChange={(e) => onChange({ ...value, consent: e.target.checked })}
+          />
+          The person or team running this account has agreed to the company
+          planning content for it
+        </label>
+        <FieldError message={errors.consent} />
+      </div>
+    </>
+  );
+}
@@ -15,11 +15,27 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Spinner } from "@/components/ui/spinner";
+import { FieldError } from "@/components/ui/field-error";
+import { fieldErrorsOf } from "@/lib/hooks";
+import type { FieldErrors } from "@/lib/types";
+import {
+  AccountDetails,
+  AccountDetailsFields,
+  EMPTY_ACCOUNT_DETAILS,
+} from "./account-details-fields";
+
+export type NewPersona = { username: string; bio: string } & AccountDetails;
+
+const EMPTY_PERSONA: NewPersona = {
+  username: "",
+  bio: "",
+  ...EMPTY_ACCOUNT_DETAILS,
+};
 
 interface AddPersonaDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmit: (persona: { username: string; bio: string }) => Promise<void>;
+  onSubmit: (persona: NewPersona) => Promise<void>;
   isPending: boolean;
 }
 
@@ -29,15 +45,19 @@ export function AddPersonaDialog({
   onSubmit,
   isPending,
 }: AddPersonaDialogProps) {
-  const [newPersona, setNewPersona] = useState({
-    username: "",
-    bio: "",
-  });
+  const [newPersona, setNewPersona] = useState(EMPTY_PERSONA);
+
+  const [errors, setErrors] = useState<FieldErrors>({});
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    await onSubmit(newPersona);
-    setNewPersona({ username: "", bio: "" });
+    setErrors({});
+    try {
+      await onSubmit(newPersona);
+      setNewPersona(EMPTY_PERSONA);
+    } catch (err) {
+      setErrors(fieldErrorsOf(err));
+    }
   };
 
   return (
@@ -45,11 +65,12 @@ export function AddPersonaDialog({
       <DialogTrigger asChild>
         <Button size="sm">+ Add Persona</Button>
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Add Persona</DialogTitle>
           <DialogDescription>
-            Create a new persona with their backstory and posting limits.
+            Add a real account run for the company. Record who runs it and how
+            it discloses the connection before content is assigned to it.
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit}>
@@ -60,6 +81,7 @@ export function AddPersonaDialog({
               </Label>
               <Input
                 id="username"
+                aria-invalid={!!errors.username}
                 placeholder="e.g., riley_ops"
                 value={newPersona.username}
                 onChange={(e) =>
@@ -70,6 +92,7 @@ export function AddPersonaDialog({
                 }
                 required
               />
+              <FieldError message={errors.username} />
             </div>
             <div className="grid gap-2">
               <Label htmlFor="bio">
@@ -77,6 +100,7 @@ export function AddPersonaDialog({
               </Label>
               <Textarea
                 id="bio"
+                aria-invalid={!!errors.bio}
                 placeholder="Detailed background story that defines their voice, personality, and perspective..."
                 value={newPersona.bio}
                 onChange={(e) =>
@@ -88,7 +112,16 @@ export function AddPersonaDialog({
                 className="h-32"
                 required
               />
+              <FieldError message={errors.bio} />
             </div>
+            <AccountDetailsFields
+              value={newPersona}
+              onChange={(details) =>
+                setNewPersona({ ...newPersona, ...details })
+              }
+              errors={errors}
+              idPrefix="new-persona"
+            />
           </div>
           <DialogFooter>
             <Button
@@ -1,3 +1,4 @@
 export { PersonasTab } from "./personas-tab";
 export { AddPersonaDialog } from "./add-persona-dialog";
 export { PersonaCard } from "./persona-card";
+export { AccountDetailsDialog } from "./account-details-dialog";
@@ -3,10 +3,12 @@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
+import { getMissingAccountDetails } from "@/lib/planner/persona-selector";
 import type { Persona } from "@/lib/types";
 
 interface PersonaCardProps {
   persona: Persona;
+  onEditDetails: () => void;
   onSetOperator: () => void;
   onDelete: () => void;
   isSettingOperator: boolean;
@@ -14,10 +16,13 @@ interface PersonaCardProps {
 
 export function PersonaCard({
   persona,
+  onEditDetails,
   onSetOperator,
   onDelete,
   isSettingOperator,
 }: PersonaCardProps) {
+  const missing = getMissingAccountDetails(persona);
+
   return (
     <Card className={persona.is_operator ? "border-primary" : ""}>
       <CardContent className="pt-4">
@@ -30,12 +35,36 @@ export function PersonaCard({
                   Operator
                 </Badge>
               )}
+              {missing.length === 0 ? (
+                <Badge variant="secondary" className="text-xs">
+                  Verified
+                </Badge>
+              ) : (
+                <Badge variant="destructive" className="text-xs">
+                  Unverified
+                </Badge>
+              )}
             </div>
+            {persona.owner_name && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Run by {persona.owner_name}
+                {persona.employer_relationship &&
+                  ` (${persona.employer_relationship})`}
+              </p>
+            )}
             <p className="text-sm text-muted-foreground mt-1 line-clamp-3">
               {persona.bio}
             </p>
+            {missing.length > 0 && (
+              <p className="text-xs text-destructive mt-1">
+                No content is assigned until it has: {missing.join(", ")}
+              </p>
+            )}
           </div>
           <div className="flex gap-2 ml-2">
+            <Button variant="outline" size="sm" onClick={onEditDetails}>
+              Account Details
+            </Button>
             {!persona.is_operator && (
               <Button
                 variant="outline"
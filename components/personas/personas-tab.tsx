@@ -3,16 +3,20 @@
 import { useState } from "react";
 import { toast } from "sonner";
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
-import { AddPersonaDialog } from "./add-persona-dialog";
+import { AddPersonaDialog, NewPersona } from "./add-persona-dialog";
+import { AccountDetailsDialog } from "./account-details-dialog";
+import type { AccountDetails } from "./account-details-fields";
 import { PersonaCard } from "./persona-card";
 import type { Persona } from "@/lib/types";
 
 interface PersonasTabProps {
   personas: Persona[];
-  onAddPersona: (persona: { username: string; bio: string }) => Promise<void>;
+  onAddPersona: (persona: NewPersona) => Promise<void>;
+  onUpdateDetails: (id: string, details: AccountDetails) => Promise<void>;
   onDeletePersona: (id: string) => Promise<void>;
   onSetOperator: (id: string) => void;
   isAddingPersona: boolean;
+  isUpdatingDetails: boolean;
   isDeletingPersona: boolean;
   isSettingOperator: boolean;
 }
@@ -20,23 +24,37 @@ interface PersonasTabProps {
 export function PersonasTab({
   personas,
   onAddPersona,
+  onUpdateDetails,
   onDeletePersona,
   onSetOperator,
   isAddingPersona,
+  isUpdatingDetails,
   isDeletingPersona,
   isSettingOperator,
 }: PersonasTabProps) {
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [editingDetails, setEditingDetails] = useState<Persona | null>(null);
 
-  const handleAddPersona = async (persona: {
-    username: string;
-    bio: string;
-  }) => {
+  const handleAddPersona = async (persona: NewPersona) => {
     await onAddPersona(persona);
     setShowAddDialog(false);
   };
 
+  const handleUpdateDetails = async (details: AccountDetails) => {
+    if (!editingDetails) return;
+    try {
+      await onUpdateDetails(editingDetails.id, details);
+      setEditingDetails(null);
+      toast.success("Account details saved");
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to save account details";
+      toast.error(message);
+      throw err;
+    }
+  };
+
   const handleDeletePersona = async () => {
     if (!pendingDeleteId) return;
     try {
@@ -74,6 +92,7 @@ export function PersonasTab({
           <PersonaCard
             key={persona.id}
             persona={persona}
+            onEditDetails={() => setEditingDetails(persona)}
             onSetOperator={() => handleSetOperator(persona)}
             onDelete={() => setPendingDeleteId(persona.id)}
             isSettingOperator={isSettingOperator}
@@ -81,6 +100,14 @@ export function PersonasTab({
         ))}
       </div>
 
+      <AccountDetailsDialog
+        key={editingDetails?.id ?? "none"}
+        persona={editingDetails}
+        onOpenChange={(open) => !open && setEditingDetails(null)}
+        onSubmit={handleUpdateDetails}
+        isPending={isUpdatingDetails}
+      />
+
       <ConfirmDialog
         open={!!pendingDeleteId}
         onOpenChange={(open) => !open && setPendingDeleteId(null)}
@@ -16,6 +16,9 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Spinner } from "@/components/ui/spinner";
+import { FieldError } from "@/components/ui/field-error";
+import { fieldErrorsOf } from "@/lib/hooks";
+import type { FieldErrors } from "@/lib/types";
 
 interface AddSubredditDialogProps {
   open: boolean;
@@ -32,6 +35,7 @@ export function AddSubredditDialog({
 }: AddSubredditDialogProps) {
   const [subredditInput, setSubredditInput] = useState("");
   const [pendingSubreddits, setPendingSubreddits] = useState<string[]>([]);
+  const [errors, setErrors] = useState<FieldErrors>({});
 
   const handleAddToPending = () => {
     const name = subredditInput.trim().replace(/^r\//, "");
@@ -48,6 +52,7 @@ export function AddSubredditDialog({
 
   const handleRemoveFromPending = (name: string) => {
     setPendingSubreddits(pendingSubreddits.filter((n) => n !== name));
+    setErrors({});
   };
 
   const handleSubmit = async () => {
@@ -56,13 +61,19 @@ export function AddSubredditDialog({
       return;
     }
 
-    await onSubmit(pendingSubreddits);
-    setPendingSubreddits([]);
-    setSubredditInput("");
+    setErrors({});
+    try {
+      await onSubmit(pendingSubreddits);
+      setPendingSubreddits([]);
+      setSubredditInput("");
+    } catch (err) {
+      setErrors(fieldErrorsOf(err));
+    }
   };
 
   const handleClose = () => {
     onOpenChange(false);
+    setErrors({});
     setPendingSubreddits([]);
     setSubredditInput("");
   };
@@ -112,10 +123,10 @@ export function AddSubredditDialog({
             <div className="grid gap-2">
               <Label>Subreddits to add ({pendingSubreddits.length})</Label>
               <div className="flex flex-wrap gap-2">
-                {pendingSubreddits.map((name) => (
+                {pendingSubreddits.map((name, i) => (
                   <Badge
                     key={name}
-                    variant="secondary"
+                    variant={errors[`names.${i}`] ? "destructive" : "secondary"}
                     className="cursor-pointer hover:bg-destructive hover:text-white"
                     onClick={() => handleRemoveFromPending(name)}
                   >
@@ -123,6 +134,15 @@ export function AddSubredditDialog({
                   </Badge>
                 ))}
               </div>
+              {pendingSubreddits.map((name, i) => (
+                <FieldError
+                  key={name}
+                  message={
+                    errors[`names.${i}`] && `r/${name}: ${errors[`names.${i}`]}`
+                  }
+                />
+              ))}
+              <FieldError message={errors.names} />
             </div>
           )}
         </div>
@@ -1,3 +1,4 @@
 export { SubredditsTab } from "./subreddits-tab";
 export { AddSubredditDialog } from "./add-subreddit-dialog";
 export { SubredditCard } from "./subreddit-card";
+export { SubredditRulesDialog } from "./subreddit-rules-dialog";
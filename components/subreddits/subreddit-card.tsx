@@ -1,27 +1,85 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import type { Subreddit } from "@/lib/types";
 
 interface SubredditCardProps {
   subreddit: Subreddit;
+  onEditRules: () => void;
+  onResume: () => void;
   onDelete: () => void;
+  isResuming: boolean;
 }
 
-export function SubredditCard({ subreddit, onDelete }: SubredditCardProps) {
+export function SubredditCard({
+  subreddit,
+  onEditRules,
+  onResume,
+  onDelete,
+  isResuming,
+}: SubredditCardProps) {
+  const rules = subreddit.rules || {};
+
   return (
     <Card>
       <CardContent className="py-3 flex justify-between items-center">
-        <p className="font-medium">r/{subreddit.name}</p>
-        <Button
-          variant="ghost"
-          size="sm"
-          className="text-destructive hover:text-destructive"
-          onClick={onDelete}
-        >
-          Delete
-        </Button>
+        <div className="flex items-center gap-2 flex-wrap">
+          <p className="font-medium">r/{subreddit.name}</p>
+          {!subreddit.is_active && (
+            <Badge
+              variant="secondary"
+              className="text-xs bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400"
+            >
+              Paused
+            </Badge>
+          )}
+          {rules.allows_disclosed_vendor_posts === false && (
+            <Badge variant="destructive" className="text-xs">
+              No vendor posts
+            </Badge>
+          )}
+          {rules.max_self_promotion_ratio !== undefined &&
+            rules.max_self_promotion_ratio !== null && (
+              <Badge variant="outline" className="text-xs">
+                ≤{Math.round(rules.max_self_promotion_ratio * 100)}% promo
+              </Badge>
+            )}
+          {rules.required_flair && (
+            <Badge variant="outline" className="text-xs">
+              Flair: {rules.required_flair}
+            </Badge>
+          )}
+          {(rules.banned_topics?.length ?? 0) > 0 && (
+            <Badge variant="outline" className="text-xs">
+              {rules.banned_topics?.length} banned topics
+            </Badge>
+          )}
+        </div>
+        <div className="flex gap-2 ml-2">
+          {!subreddit.is_active && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onResume}
+              disabled={isResuming}
+            >
+              Resume
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={onEditRules}>
+            Rules
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            onClick={onDelete}
+          >
+            Delete
+          </Button>
+        </div>
       </CardContent>
     </Card>
   );
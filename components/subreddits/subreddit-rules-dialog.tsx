@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Spinner } from "@/components/ui/spinner";
+import { FieldError } from "@/components/ui/field-error";
+import { fieldErrorsOf } from "@/lib/hooks";
+import type { FieldErrors, Subreddit, SubredditRules } from "@/lib/types";
+
+interface SubredditRulesDialogProps {
+  subreddit: Subreddit | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (rules: SubredditRules) => Promise<void>;
+  isPending: boolean;
+}
+
+interface RulesFormData {
+  max_self_promotion_percent: string;
+  vendor_posts: "allowed" | "forbidden" | "unknown";
+  required_flair: string;
+  banned_topics: string;
+}
+
+function toFormData(rules: SubredditRules | undefined): RulesFormData {
+  const r = rules || {};
+  return {
+    max_self_promotion_percent:
+      r.max_self_promotion_ratio !== undefined &&
+      r.max_self_promotion_ratio !== null
+        ? String(Math.round(r.max_self_promotion_ratio * 100))
+        : "",
+    vendor_posts:
+      r.allows_disclosed_vendor_posts === true
+        ? "allowed"
+        : r.allows_disclosed_vendor_posts === false
+          ? "forbidden"
+          : "unknown",
+    required_flair: r.required_flair || "",
+    banned_topics: (r.banned_topics || []).join("\n"),
+  };
+}
+
+function toRules(formData: RulesFormData): SubredditRules {
+  const percent = parseFloat(formData.max_self_promotion_percent);
+  return {
+    max_self_promotion_ratio: isNaN(percent) ? null : percent / 100,
+    allows_disclosed_vendor_posts:
+      formData.vendor_posts === "unknown"
+        ? undefined
+        : formData.vendor_posts === "allowed",
+    required_flair: formData.required_flair.trim() || null,
+    banned_topics: formData.banned_topics
+      .split(/[\n,]/)
+      .map((t) => t.trim())
+      .filter((t) => t.length > 0),
+  };
+}
+
+export function SubredditRulesDialog({
+  subreddit,
+  onOpenChange,
+  onSubmit,
+  isPending,
+}: SubredditRulesDialogProps) {
+  const [formData, setFormData] = useState(toFormData(subreddit?.rules));
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+    try {
+      await onSubmit(toRules(formData));
+    } catch (err) {
+      setErrors(fieldErrorsOf(err));
+    }
+  };
+
+  // Banned topics are validated one by one; show the first bad one
+  const bannedTopicError = Object.entries(errors).find(([field]) =>
+    field.startsWith("rules.banned_topics")
+  )?.[1];
+
+  return (
+    <Dialog open={!!subreddit} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rules for r/{subreddit?.name}</DialogTitle>
+          <DialogDescription>
+            Record the community&apos;s rules. Every planned post is checked
+            against them.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="rules-vendor">Disclosed vendor posts</Label>
+              <Select
+                value={formData.vendor_posts}
+                onValueChange={(value) =>
+                  setFormData({
+                    ...formData,
+                    vendor_posts: value as RulesFormData["vendor_posts"],
+                  })
+                }
+              >
+                <SelectTrigger id="rules-vendor" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unknown">Not recorded</SelectItem>
+                  <SelectItem value="allowed">Allowed</SelectItem>
+                  <SelectItem value="forbidden">Not allowed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="rules-ratio">
+                Max self-promotion (%){" "}
+                <span className="text-muted-foreground font-normal">
+                  (optional)
+                </span>
+              </Label>
+              <Input
+                id="rules-ratio"
+                aria-invalid={!!errors["rules.max_self_promotion_ratio"]}
+                type="number"
+                min="0"
+                max="100"
+                placeholder="e.g., 10"
+                value={formData.max_self_promotion_percent}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    max_self_promotion_percent: e.target.value,
+                  })
+                }
+              />
+              <FieldError message={errors["rules.max_self_promotion_ratio"]} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="rules-flair">
+                Required flair{" "}
+                <span className="text-muted-foreground font-normal">
+                  (optional)
+                </span>
+              </Label>
+              <Input
+                id="rules-flair"
+                aria-invalid={!!errors["rules.required_flair"]}
+                placeholder="e.g., Question"
+                value={formData.required_flair}
+                onChange={(e) =>
+                  setFormData({ ...formData, required_flair: e.target.value })
+                }
+              />
+              <FieldError message={errors["rules.required_flair"]} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="rules-banned">
+                Banned topics{" "}
+                <span className="text-muted-foreground font-normal">
+                  (one per line)
+                </span>
+              </Label>
+              <Textarea
+                id="rules-banned"
+                aria-invalid={!!bannedTopicError}
+                placeholder="e.g., pricing&#10;giveaways"
+                value={formData.banned_topics}
+                onChange={(e) =>
+                  setFormData({ ...formData, banned_topics: e.target.value })
+                }
+                className="h-24"
+              />
+              <FieldError message={bannedTopicError} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending}>
+              {isPending && <Spinner size="sm" />}
+              {isPending ? "Saving..." : "Save Rules"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,31 +5,66 @@ import { toast } from "sonner";
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { AddSubredditDialog } from "./add-subreddit-dialog";
 import { SubredditCard } from "./subreddit-card";
-import type { Subreddit } from "@/lib/types";
+import { SubredditRulesDialog } from "./subreddit-rules-dialog";
+import type { Subreddit, SubredditRules } from "@/lib/types";
 
 interface SubredditsTabProps {
   subreddits: Subreddit[];
   onAddSubreddits: (names: string[]) => Promise<void>;
   onDeleteSubreddit: (id: string) => Promise<void>;
+  onUpdateRules: (id: string, rules: SubredditRules) => Promise<void>;
+  onResume: (id: string) => Promise<void>;
   isAddingSubreddit: boolean;
   isDeletingSubreddit: boolean;
+  isUpdatingRules: boolean;
+  isResuming: boolean;
 }
 
 export function SubredditsTab({
   subreddits,
   onAddSubreddits,
   onDeleteSubreddit,
+  onUpdateRules,
+  onResume,
   isAddingSubreddit,
   isDeletingSubreddit,
+  isUpdatingRules,
+  isResuming,
 }: SubredditsTabProps) {
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [editingRules, setEditingRules] = useState<Subreddit | null>(null);
 
   const handleAddSubreddits = async (names: string[]) => {
     await onAddSubreddits(names);
     setShowAddDialog(false);
   };
 
+  const handleUpdateRules = async (rules: SubredditRules) => {
+    if (!editingRules) return;
+    try {
+      await onUpdateRules(editingRules.id, rules);
+      setEditingRules(null);
+      toast.success("Rules saved");
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to save rules";
+      toast.error(message);
+      throw err;
+    }
+  };
+
+  const handleResume = async (subreddit: Subreddit) => {
+    try {
+      await onResume(subreddit.id);
+      toast.success(`r/${subreddit.name} resumed`);
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to resume subreddit";
+      toast.error(message);
+    }
+  };
+
   const handleDeleteSubreddit = async () => {
     if (!pendingDeleteId) return;
     try {
@@ -60,11 +95,22 @@ export function SubredditsTab({
           <SubredditCard
             key={subreddit.id}
             subreddit={subreddit}
+            onEditRules={() => setEditingRules(subreddit)}
+            onResume={() => handleResume(subreddit)}
             onDelete={() => setPendingDeleteId(subreddit.id)}
+            isResuming={isResuming}
           />
         ))}
       </div>
 
+      <SubredditRulesDialog
+        key={editingRules?.id ?? "none"}
+        subreddit={editingRules}
+        onOpenChange={(open) => !open && setEditingRules(null)}
+        onSubmit={handleUpdateRules}
+        isPending={isUpdatingRules}
+      />
+
       <ConfirmDialog
         open={!!pendingDeleteId}
         onOpenChange={(open) => !open && setPendingDeleteId(null)}
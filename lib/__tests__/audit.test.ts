@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../supabase", () => ({
+  supabase: {},
+  createSupabaseClient: vi.fn(),
+}));
+
+import { ACTOR_HEADER, auditHeaders, getActor } from "../audit";
+
+function requestWithActor(actor?: string) {
+  return new Request("http://localhost/api", {
+    headers: actor === undefined ? {} : { [ACTOR_HEADER]: actor },
+  });
+}
+
+describe("getActor", () => {
+  it("decodes the actor's name", () => {
+    expect(getActor(requestWithActor(encodeURIComponent("Zoë Ng")))).toBe(
+      "Zoë Ng"
+    );
+  });
+
+  it("returns null when no name was sent", () => {
+    expect(getActor(requestWithActor())).toBeNull();
+    expect(getActor(requestWithActor("   "))).toBeNull();
+  });
+});
+
+describe("auditHeaders", () => {
+  it("sends the actor as base64 UTF-8", () => {
+    const headers = auditHeaders("Zoë Ng");
+
+    expect(
+      Buffer.from(headers["x-audit-actor"], "base64").toString("utf8")
+    ).toBe("Zoë Ng");
+    expect(headers).not.toHaveProperty("x-audit-action");
+  });
+
+  it("names the change for one entity type", () => {
+    expect(
+      auditHeaders("Sam", { entityType: "planned_post", action: "approve" })
+    ).toMatchObject({
+      "x-audit-entity": "planned_post",
+      "x-audit-action": "approve",
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import {
+  createCampaignSchema,
+  createKeywordsSchema,
+  createPersonaSchema,
+  createSubredditsSchema,
+  getFieldErrors,
+  updateCampaignSchema,
+  updatePersonaSchema,
+} from "../validations";
+
+const PERSONA_ID = "5f0c3b8e-2a4d-4c1e-9b7a-1d2e3f4a5b6c";
+
+describe("createCampaignSchema", () => {
+  it("fills in defaults for optional settings", () => {
+    const result = createCampaignSchema.parse({
+      name: " Launch ",
+      company_name: "Slideforge",
+    });
+
+    expect(result).toEqual({
+      name: "Launch",
+      company_name: "Slideforge",
+      company_info: {},
+      posts_per_week: 3,
+      timezone: "America/New_York",
+      llm_settings: {},
+      posting_schedule: {},
+      volume_caps: {},
+    });
+  });
+
+  it("reports each invalid field by its path", () => {
+    const result = createCampaignSchema.safeParse({
+      name: "",
+      company_name: "Slideforge",
+      company_info: { website: 42 },
+      posts_per_week: 30,
+      timezone: "Mars/Olympus_Mons",
+    });
+
+    expect(result.success).toBe(false);
+    expect(getFieldErrors(result.error!)).toEqual({
+      name: "Campaign name is required",
+      "company_info.website": expect.any(String),
+      posts_per_week: "Posts per week must be between 1 and 14",
+      timezone: "Unknown timezone",
+    });
+  });
+});
+
+describe("updateCampaignSchema", () => {
+  it("accepts partial updates but not unknown columns", () => {
+    expect(updateCampaignSchema.parse({ posts_per_week: 5 })).toEqual({
+      posts_per_week: 5,
+    });
+
+    const result = updateCampaignSchema.safeParse({
+      name: "Launch",
+      id: "other-campaign",
+      created_at: "2020-01-01",
+    });
+    expect(result.success).toBe(false);
+    expect(Object.keys(getFieldErrors(result.error!))).toEqual([
+      "id",
+      "created_at",
+    ]);
+  });
+});
+
+describe("persona schemas", () => {
+  const account = {
+    owner_name: "Riley Chen",
+    employer_relationship: "employee",
+    consent: true,
+    disclosure_text: "Disclosure: I work at Slideforge.",
+  };
+
+  it("normalizes the username", () => {
+    expect(
+      createPersonaSchema.parse({
+        username: "u/riley_ops",
+        bio: "Ops lead",
+        ...account,
+      })
+    ).toEqual({
+      username: "riley_ops",
+      bio: "Ops lead",
+      ...account,
+      profile_states_affiliation: false,
+    });
+    expect(
+      getFieldErrors(
+        createPersonaSchema.safeParse({
+          username: "riley ops!",
+          bio: " ",
+          ...account,
+        }).error!
+      )
+    ).toEqual({
+      username: "Username can only contain letters, numbers, _ and -",
+      bio: "Bio is required",
+    });
+  });
+
+  it("does not let an account opt out of disclosure", () => {
+    expect(
+      createPersonaSchema.safeParse({
+        username: "riley_ops",
+        bio: "Ops lead",
+        is_affiliated: false,
+        ...account,
+      }).success
+    ).toBe(false);
+  });
+
+  it("requires the account owner, relationship, consent and disclosure", () => {
+    const result = createPersonaSchema.safeParse({
+      username: "riley_ops",
+      bio: "Ops lead",
+      consent: false,
+    });
+
+    expect(getFieldErrors(result.error!)).toEqual({
+      owner_name: expect.any(String),
+      employer_relationship:
+        "Pick how the account owner is connected to the company",
+      consent: "The account owner's consent is required",
+      disclosure_text: expect.any(String),
+    });
+  });
+
+  it("refuses to move a persona to another campaign", () => {
+    const result = updatePersonaSchema.safeParse({
+      id: PERSONA_ID,
+      bio: "New bio",
+      campaign_id: "other-campaign",
+      is_operator: true,
+    });
+
+    expect(result.success).toBe(false);
+    expect(Object.keys(getFieldErrors(result.error!))).toEqual([
+      "campaign_id",
+      "is_operator",
+    ]);
+  });
+});
+
+describe("createSubredditsSchema", () => {
+  it("strips r/ and reports bad names by position", () => {
+    expect(
+      createSubredditsSchema.parse({ names: ["r/PowerPoint", "startups"] })
+    ).toEqual({ names: ["PowerPoint", "startups"], rules: {} });
+
+    const result = createSubredditsSchema.safeParse({
+      names: ["startups", "not a sub"],
+    });
+    expect(getFieldErrors(result.error!)).toEqual({
+      "names.1": "Subreddit name can only contain letters, numbers and _",
+    });
+  });
+
+  it("needs at least one name", () => {
+    const result = createSubredditsSchema.safeParse({ names: [] });
+    expect(getFieldErrors(result.error!)).toEqual({
+      names: "Add at least one subreddit",
+    });
+  });
+});
+
+describe("createKeywordsSchema", () => {
+  it("rejects blank keywords", () => {
+    const result = createKeywordsSchema.safeParse({
+      texts: ["pitch deck", "  "],
+    });
+    expect(getFieldErrors(result.error!)).toEqual({
+      "texts.1": "Keyword can't be blank",
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseClient } from "./supabase";
+import { createSupabaseRepository, Repository } from "./repository";
+import { AuditAction, AuditEntityType } from "./types";
+
+/**
+ * Request header carrying the name of the person making a change.
+ * The value is URI-encoded so names outside Latin-1 survive the header.
+ */
+export const ACTOR_HEADER = "x-actor";
+
+/**
+ * Names a change more precisely than create/update/delete, e.g. approving
+ * a post. Only rows of `entityType` get `action`; anything else written in
+ * the same request is recorded by its operation.
+ */
+export interface AuditContext {
+  entityType: AuditEntityType;
+  action: AuditAction;
+}
+
+/**
+ * Read the actor's name from a request, or null when it wasn't sent
+ */
+export function getActor(request: Request): string | null {
+  const header = request.headers.get(ACTOR_HEADER);
+  if (!header) return null;
+
+  try {
+    return decodeURIComponent(header).trim() || null;
+  } catch {
+    return header.trim() || null;
+  }
+}
+
+/**
+ * Response for a change request that didn't say who is making it
+ */
+export function actorRequired(): NextResponse {
+  return NextResponse.json(
+    { error: "Enter your name before making changes" },
+    { status: 401 }
+  );
+}
+
+/**
+ * Headers the audit trigger reads. The actor is base64-encoded UTF-8, which
+ * the database can decode.
+ */
+export function auditHeaders(
+  actor: string,
+  context?: AuditContext
+): Record<string, string> {
+  return {
+    "x-audit-actor": Buffer.from(actor, "utf8").toString("base64"),
+    ...(context && {
+      "x-audit-entity": context.entityType,
+      "x-audit-action": context.action,
+    }),
+  };
+}
+
+/**
+ * A Supabase client whose writes are audited.
+ *
+ * The `record_audit` trigger writes an audit record for every row a request
+ * creates, updates or deletes in the campaign tables, in the same
+ * transaction as the change, so a change is never saved without its record.
+ * The audit log is append-only: the database refuses updates and deletes.
+ * Writes from other clients (like background generation) aren't audited.
+ */
+export function createAuditedClient(
+  actor: string,
+  context?: AuditContext
+): SupabaseClient {
+  return createSupabaseClient(auditHeaders(actor, context));
+}
+
+/**
+ * The planner's repository, with its writes audited (see createAuditedClient)
+ */
+export function createAuditedRepository(
+  actor: string,
+  context?: AuditContext
+): Repository {
+  return createSupabaseRepository(createAuditedClient(actor, context));
+}
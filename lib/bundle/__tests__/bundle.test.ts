@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import { createCampaignBundle, planBundleImport, ImportTarget } from "../index";
+import { campaignBundleSchema } from "../../validations";
+import { Keyword, Subreddit } from "../../types";
+
+const NOW = "2025-12-01T00:00:00.000Z";
+
+function createSubreddit(
+  name: string,
+  overrides: Partial<Subreddit> = {}
+): Subreddit {
+  return {
+    id: `sub-${name}`,
+    campaign_id: "campaign-1",
+    name,
+    is_active: true,
+    rules: { required_flair: null, banned_topics: ["pricing"] },
+    created_at: NOW,
+    updated_at: NOW,
+    ...overrides,
+  };
+}
+
+function createKeyword(code: string, text: string): Keyword {
+  return {
+    id: `kw-${code}`,
+    campaign_id: "campaign-1",
+    keyword_code: code,
+    keyword_text: text,
+    intent: "informational",
+    is_active: true,
+    created_at: NOW,
+    updated_at: NOW,
+  };
+}
+
+function createTarget(): ImportTarget {
+  return {
+    campaign: {
+      id: "campaign-1",
+      name: "Launch",
+      company_name: "Slideforge",
+      company_info: { website: "slideforge.app" },
+      posts_per_week: 3,
+      start_date: "2025-12-01",
+      timezone: "America/New_York",
+      llm_settings: { provider: "stub" },
+      posting_schedule: {},
+      volume_caps: {},
+      created_at: NOW,
+      updated_at: NOW,
+    },
+    subreddits: [createSubreddit("startups"), createSubreddit("powerpoint")],
+    keywords: [
+      createKeyword("K10", "pitch deck generator"),
+      createKeyword("K2", "ai presentation maker"),
+    ],
+  };
+}
+
+describe("createCampaignBundle", () => {
+  it("produces a bundle that passes validation, without ids", () => {
+    const bundle = createCampaignBundle(createTarget(), new Date(NOW));
+
+    expect(campaignBundleSchema.parse(bundle)).toEqual(bundle);
+    expect(bundle.version).toBe(1);
+    expect(bundle.subreddits.map((s) => s.name)).toEqual([
+      "powerpoint",
+      "startups",
+    ]);
+    expect(bundle.keywords.map((k) => k.keyword_code)).toEqual(["K2", "K10"]);
+    expect(JSON.stringify(bundle)).not.toContain("campaign-1");
+  });
+});
+
+describe("campaignBundleSchema", () => {
+  it("rejects other versions and duplicate subreddits", () => {
+    const bundle = createCampaignBundle(createTarget(), new Date(NOW));
+
+    expect(
+      campaignBundleSchema.safeParse({ ...bundle, version: 2 }).success
+    ).toBe(false);
+    expect(
+      campaignBundleSchema.safeParse({
+        ...bundle,
+        subreddits: [
+          ...bundle.subreddits,
+          { ...bundle.subreddits[0], name: "r/PowerPoint" },
+        ],
+      }).success
+    ).toBe(false);
+  });
+
+  it("reads subreddit names the same way as the subreddit forms", () => {
+    const bundle = createCampaignBundle(createTarget(), new Date(NOW));
+    const withName = (name: string) =>
+      campaignBundleSchema.safeParse({
+        ...bundle,
+        subreddits: [{ ...bundle.subreddits[0], name }],
+      });
+
+    expect(withName(" /r/powerpoint ").data?.subreddits[0].name).toBe(
+      "powerpoint"
+    );
+    expect(withName("r/not a subreddit").success).toBe(false);
+  });
+});
+
+describe("planBundleImport", () => {
+  it("creates a new campaign unless the name is taken", () => {
+    const bundle = createCampaignBundle(createTarget(), new Date(NOW));
+
+    const report = planBundleImport(bundle, ["Other"]);
+    expect(report.campaignId).toBeNull();
+    expect(report.conflicts).toEqual([]);
+    expect(report.subreddits.create).toEqual(["powerpoint", "startups"]);
+
+    expect(planBundleImport(bundle, ["launch"]).conflicts).toEqual([
+      {
+        entity: "campaign",
+        key: "name",
+        detail: 'A campaign named "Launch" already exists',
+      },
+    ]);
+  });
+
+  it("adds what the campaign is missing and leaves matching rows alone", () => {
+    const bundle = createCampaignBundle(createTarget(), new Date(NOW));
+    bundle.subreddits.push({ name: "design", is_active: true, rules: {} });
+    bundle.keywords.push({
+      keyword_code: "K11",
+      keyword_text: "slide templates",
+      intent: "commercial",
+      is_active: true,
+    });
+
+    const report = planBundleImport(bundle, ["Launch"], createTarget());
+
+    expect(report.campaignId).toBe("campaign-1");
+    expect(report.conflicts).toEqual([]);
+    expect(report.subreddits).toEqual({
+      create: ["design"],
+      unchanged: ["powerpoint", "startups"],
+    });
+    expect(report.keywords).toEqual({
+      create: ["K11"],
+      unchanged: ["K2", "K10"],
+    });
+  });
+
+  it("reports rows that differ instead of overwriting them", () => {
+    const bundle = createCampaignBundle(createTarget(), new Date(NOW));
+    bundle.campaign.posts_per_week = 5;
+    bundle.subreddits[0].rules = { banned_topics: [] };
+    bundle.keywords[0].keyword_text = "slide maker";
+    bundle.keywords.push({
+      keyword_code: "K12",
+      keyword_text: "Pitch Deck Generator",
+      intent: "informational",
+      is_active: true,
+    });
+
+    const report = planBundleImport(bundle, ["Launch"], createTarget());
+
+    expect(report.conflicts.map((c) => `${c.entity}:${c.key}`)).toEqual([
+      "campaign:posts_per_week",
+      "subreddit:powerpoint",
+      "keyword:K2",
+      "keyword:K12",
+    ]);
+    expect(report.conflicts[3].detail).toBe(
+      '"Pitch Deck Generator" already exists as K10'
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import {
+  BundleConflict,
+  BundleImportReport,
+  Campaign,
+  CampaignBundle,
+  Keyword,
+  Subreddit,
+} from "../types";
+
+/** The campaign's saved configuration that an import is checked against */
+export interface ImportTarget {
+  campaign: Campaign;
+  subreddits: Subreddit[];
+  keywords: Keyword[];
+}
+
+const CAMPAIGN_FIELDS = [
+  "name",
+  "company_name",
+  "company_info",
+  "posts_per_week",
+  "start_date",
+  "timezone",
+  "llm_settings",
+  "posting_schedule",
+  "volume_caps",
+] as const;
+
+/**
+ * JSON with object keys sorted, so values can be compared regardless of
+ * the order their keys were saved in
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v)
+            .filter(([, inner]) => inner !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b))
+        )
+      : v
+  );
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return canonicalJson(a ?? null) === canonicalJson(b ?? null);
+}
+
+/**
+ * Package a campaign's configuration as a bundle
+ */
+export function createCampaignBundle(
+  { campaign, subreddits, keywords }: ImportTarget,
+  now: Date = new Date()
+): CampaignBundle {
+  return {
+    version: 1,
+    exported_at: now.toISOString(),
+    campaign: {
+      name: campaign.name,
+      company_name: campaign.company_name,
+      company_info: campaign.company_info,
+      posts_per_week: campaign.posts_per_week,
+      start_date: campaign.start_date,
+      timezone: campaign.timezone,
+      llm_settings: campaign.llm_settings,
+      posting_schedule: campaign.posting_schedule,
+      volume_caps: campaign.volume_caps,
+    },
+    subreddits: [...subreddits]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(({ name, is_active, rules }) => ({ name, is_active, rules })),
+    keywords: [...keywords]
+      .sort((a, b) =>
+        a.keyword_code.localeCompare(b.keyword_code, undefined, {
+          numeric: true,
+        })
+      )
+      .map(({ keyword_code, keyword_text, intent, is_active }) => ({
+        keyword_code,
+        keyword_text,
+        intent,
+        is_active,
+      })),
+  };
+}
+
+/**
+ * Work out what importing a bundle would do without writing anything.
+ *
+ * Without a target the bundle creates a new campaign, which conflicts only
+ * if the name is taken. With a target, subreddits and keywords the campaign
+ * is missing are added; anything it already has with different values is a
+ * conflict, since an import never overwrites saved configuration.
+ */
+export function planBundleImport(
+  bundle: CampaignBundle,
+  existingCampaignNames: string[],
+  target?: ImportTarget
+): BundleImportReport {
+  const conflicts: BundleConflict[] = [];
+
+  if (!target) {
+    const taken = existingCampaignNames.some(
+      (name) => name.toLowerCase() === bundle.campaign.name.toLowerCase()
+    );
+    if (taken) {
+      conflicts.push({
+        entity: "campaign",
+        key: "name",
+        detail: `A campaign named "${bundle.campaign.name}" already exists`,
+      });
+    }
+    return {
+      campaignId: null,
+      conflicts,
+      subreddits: {
+        create: bundle.subreddits.map((s) => s.name),
+        unchanged: [],
+      },
+      keywords: {
+        create: bundle.keywords.map((k) => k.keyword_code),
+        unchanged: [],
+      },
+    };
+  }
+
+  for (const field of CAMPAIGN_FIELDS) {
+    if (!isSame(target.campaign[field], bundle.campaign[field])) {
+      conflicts.push({
+        entity: "campaign",
+        key: field,
+        detail: `${field} differs from the bundle`,
+      });
+    }
+  }
+
+  const subreddits = { create: [] as string[], unchanged: [] as string[] };
+  for (const sub of bundle.subreddits) {
+    const saved = target.subreddits.find(
+      (s) => s.name.toLowerCase() === sub.name.toLowerCase()
+    );
+    if (!saved) {
+      subreddits.create.push(sub.name);
+    } else if (
+      saved.is_active === sub.is_active &&
+      isSame(saved.rules, sub.rules)
+    ) {
+      subreddits.unchanged.push(sub.name);
+    } else {
+      conflicts.push({
+        entity: "subreddit",
+        key: sub.name,
+        detail:
+          saved.is_active !== sub.is_active
+            ? `r/${sub.name} is ${saved.is_active ? "active" : "inactive"} here`
+            : `r/${sub.name} has different rules here`,
+      });
+    }
+  }
+
+  const keywords = { create: [] as string[], unchanged: [] as string[] };
+  for (const keyword of bundle.keywords) {
+    const byCode = target.keywords.find(
+      (k) => k.keyword_code === keyword.keyword_code
+    );
+    const byText = target.keywords.find(
+      (k) => k.keyword_text.toLowerCase() === keyword.keyword_text.toLowerCase()
+    );
+
+    if (byCode) {
+      if (
+        byCode.keyword_text.toLowerCase() ===
+          keyword.keyword_text.toLowerCase() &&
+        byCode.intent === keyword.intent &&
+        byCode.is_active === keyword.is_active
+      ) {
+        keywords.unchanged.push(keyword.keyword_code);
+      } else {
+        conflicts.push({
+          entity: "keyword",
+          key: keyword.keyword_code,
+          detail: `${keyword.keyword_code} is "${byCode.keyword_text}" (${byCode.intent}${byCode.is_active ? "" : ", inactive"}) here`,
+        });
+      }
+    } else if (byText) {
+      conflicts.push({
+        entity: "keyword",
+        key: keyword.keyword_code,
+        detail: `"${keyword.keyword_text}" already exists as ${byText.keyword_code}`,
+      });
+    } else {
+      keywords.create.push(keyword.keyword_code);
+    }
+  }
+
+  return { campaignId: target.campaign.id, conflicts, subreddits, keywords };
+}
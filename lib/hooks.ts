@@ -5,12 +5,24 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import type {
   Campaign,
   CompanyInfo,
+  EmployerRelationship,
   Persona,
   Subreddit,
+  SubredditRules,
   Keyword,
   WeeklyPlan,
   PlannedPost,
   PlannedComment,
+  AuditEntry,
+  AuditEntityType,
+  LLMSettings,
+  PostingSchedule,
+  PostOutcome,
+  GenerationJob,
+  PostRevision,
+  CommentRevision,
+  FieldErrors,
+  VolumeCaps,
 } from "./types";
 
 // ============ Query Keys ============
@@ -20,10 +32,44 @@ export const queryKeys = {
   campaign: (id: string) => ["campaigns", id] as const,
   calendar: (campaignId: string, weeklyPlanId: string) =>
     ["calendar", campaignId, weeklyPlanId] as const,
+  generationJob: (campaignId: string, weeklyPlanId: string) =>
+    ["calendar", campaignId, weeklyPlanId, "job"] as const,
+  postRevisions: (campaignId: string, weeklyPlanId: string, postId: string) =>
+    [
+      "calendar",
+      campaignId,
+      weeklyPlanId,
+      "posts",
+      postId,
+      "revisions",
+    ] as const,
+  commentRevisions: (
+    campaignId: string,
+    weeklyPlanId: string,
+    commentId: string
+  ) =>
+    [
+      "calendar",
+      campaignId,
+      weeklyPlanId,
+      "comments",
+      commentId,
+      "revisions",
+    ] as const,
+  audit: (campaignId: string, filters: AuditFilters) =>
+    ["campaigns", campaignId, "audit", filters] as const,
+  outcomes: (campaignId: string) =>
+    ["campaigns", campaignId, "outcomes"] as const,
 };
 
 // ============ Types ============
 
+export interface AuditFilters {
+  entityType?: AuditEntityType;
+  from?: string;
+  to?: string;
+}
+
 interface CampaignListItem {
   id: string;
   name: string;
@@ -46,6 +92,11 @@ interface CalendarData {
   comments: (PlannedComment & { author: Persona })[];
 }
 
+export interface GenerationJobState extends GenerationJob {
+  /** Marked running, but nothing has checkpointed it for a while */
+  interrupted: boolean;
+}
+
 interface CreateCampaignInput {
   name: string;
   company_name: string;
@@ -53,14 +104,83 @@ interface CreateCampaignInput {
   posts_per_week: number;
 }
 
-interface CreatePersonaInput {
+interface PersonaAccountInput {
+  owner_name?: string;
+  employer_relationship?: EmployerRelationship;
+  consent?: boolean;
+  disclosure_text?: string;
+  profile_states_affiliation?: boolean;
+}
+
+interface CreatePersonaInput extends PersonaAccountInput {
   username: string;
   bio: string;
 }
 
+interface UpdatePersonaInput extends PersonaAccountInput {
+  id: string;
+}
+
 interface CreateSubredditInput {
   name?: string;
   names?: string[];
+  rules?: SubredditRules;
+}
+
+interface UpdateSubredditRulesInput {
+  id: string;
+  rules: SubredditRules;
+}
+
+interface ReviewItemInput {
+  action: "approve" | "reject";
+  itemType: "post" | "comment";
+  itemId: string;
+  reviewer: string;
+  note?: string;
+}
+
+interface ReviewItemResponse {
+  planStatus: WeeklyPlan["status"];
+}
+
+interface LegalApproveInput {
+  postId: string;
+  approver: string;
+}
+
+interface RecordOutcomeInput {
+  postId: string;
+  outcome: PostOutcome;
+  recorder: string;
+  note?: string;
+}
+
+interface RecordOutcomeResponse {
+  item: PlannedPost;
+  pausedSubreddit: Subreddit | null;
+}
+
+interface RegeneratePostInput {
+  postId: string;
+  mode: "content" | "topic";
+}
+
+interface EditPostInput {
+  postId: string;
+  title: string;
+  body: string;
+}
+
+interface EditCommentInput {
+  commentId: string;
+  comment_text: string;
+}
+
+interface RegeneratePostResponse {
+  post: PlannedPost;
+  revision: PostRevision;
+  planStatus: WeeklyPlan["status"];
 }
 
 interface CreateKeywordInput {
@@ -78,15 +198,67 @@ interface GenerateCalendarResponse {
 
 // ============ API Functions ============
 
+const ACTOR_STORAGE_KEY = "actor-name";
+
+function getStoredActorName(): string {
+  if (typeof window === "undefined") return "";
+  return window.localStorage.getItem(ACTOR_STORAGE_KEY) || "";
+}
+
+/**
+ * A failed API request, with the server's per-field validation messages
+ * when it sent any
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly fieldErrors: FieldErrors = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * The per-field validation messages of a failed request, for forms to show
+ * next to their inputs
+ */
+export function fieldErrorsOf(err: unknown): FieldErrors {
+  return err instanceof ApiError ? err.fieldErrors : {};
+}
+
 async function fetchJson<T>(url: string, options?: RequestInit): Promise<T> {
-  const res = await fetch(url, options);
+  const actor = getStoredActorName();
+  const headers = new Headers(options?.headers);
+  if (actor) {
+    headers.set("x-actor", encodeURIComponent(actor));
+  }
+
+  const res = await fetch(url, { ...options, headers });
   if (!res.ok) {
     const error = await res.json().catch(() => ({ error: "Request failed" }));
-    throw new Error(error.error || "Request failed");
+    throw new ApiError(error.error || "Request failed", error.fieldErrors);
   }
   return res.json();
 }
 
+// ============ Actor ============
+
+/**
+ * Name of the person using the app, saved in the browser and sent with
+ * every request so changes are attributed in the audit log
+ */
+export function useActorName() {
+  const [actorName, setActorNameState] = useState(getStoredActorName);
+
+  const setActorName = (name: string) => {
+    window.localStorage.setItem(ACTOR_STORAGE_KEY, name);
+    setActorNameState(name);
+  };
+
+  return [actorName, setActorName] as const;
+}
+
 // ============ Campaign Hooks ============
 
 export function useCampaigns() {
@@ -125,6 +297,9 @@ interface UpdateCampaignInput {
   company_name?: string;
   company_info?: CompanyInfo;
   posts_per_week?: number;
+  llm_settings?: LLMSettings;
+  posting_schedule?: PostingSchedule;
+  volume_caps?: VolumeCaps;
 }
 
 export function useUpdateCampaign(campaignId: string) {
@@ -234,6 +409,30 @@ export function useDeleteWeeklyPlan(campaignId: string) {
   });
 }
 
+/**
+ * Regenerate any of a campaign's weekly plans from scratch, e.g. to retry a
+ * failed or cancelled one from the calendar list
+ */
+export function useRetryWeeklyPlan(campaignId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (weeklyPlanId: string) =>
+      fetchJson<RegenerateCalendarResponse>(
+        `/api/campaigns/${campaignId}/calendar/${weeklyPlanId}/regenerate`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+        }
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.campaign(campaignId),
+      });
+    },
+  });
+}
+
 export function useRegenerateCalendar(
   campaignId: string,
   weeklyPlanId: string
@@ -265,6 +464,223 @@ export function useRegenerateCalendar(
   });
 }
 
+export function useReviewItem(campaignId: string, weeklyPlanId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ action, ...input }: ReviewItemInput) =>
+      fetchJson<ReviewItemResponse>(
+        `/api/campaigns/${campaignId}/calendar/${weeklyPlanId}/${action}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        }
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.calendar(campaignId, weeklyPlanId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.campaign(campaignId),
+      });
+    },
+  });
+}
+
+export function useLegalApprove(campaignId: string, weeklyPlanId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: LegalApproveInput) =>
+      fetchJson<{ item: PlannedPost }>(
+        `/api/campaigns/${campaignId}/calendar/${weeklyPlanId}/legal-approve`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        }
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.calendar(campaignId, weeklyPlanId),
+      });
+    },
+  });
+}
+
+export function useRecordOutcome(campaignId: string, weeklyPlanId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: RecordOutcomeInput) =>
+      fetchJson<RecordOutcomeResponse>(
+        `/api/campaigns/${campaignId}/calendar/${weeklyPlanId}/outcome`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        }
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.calendar(campaignId, weeklyPlanId),
+      });
+      // Also refreshes the outcomes list and any paused subreddit
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.campaign(campaignId),
+      });
+    },
+  });
+}
+
+export function useRegeneratePost(campaignId: string, weeklyPlanId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ postId, mode }: RegeneratePostInput) =>
+      fetchJson<RegeneratePostResponse>(
+        `/api/campaigns/${campaignId}/calendar/${weeklyPlanId}/posts/${postId}/regenerate`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ mode }),
+        }
+      ),
+    onSuccess: () => {
+      // Also refreshes the post's revisions, which share the calendar key
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.calendar(campaignId, weeklyPlanId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.campaign(campaignId),
+      });
+    },
+  });
+}
+
+export function useEditPost(campaignId: string, weeklyPlanId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ postId, ...input }: EditPostInput) =>
+      fetchJson<{ post: PlannedPost; planStatus: WeeklyPlan["status"] }>(
+        `/api/campaigns/${campaignId}/calendar/${weeklyPlanId}/posts/${postId}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        }
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.calendar(campaignId, weeklyPlanId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.campaign(campaignId),
+      });
+    },
+  });
+}
+
+export function useEditComment(campaignId: string, weeklyPlanId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ commentId, ...input }: EditCommentInput) =>
+      fetchJson<{ comment: PlannedComment; planStatus: WeeklyPlan["status"] }>(
+        `/api/campaigns/${campaignId}/calendar/${weeklyPlanId}/comments/${commentId}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        }
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.calendar(campaignId, weeklyPlanId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.campaign(campaignId),
+      });
+    },
+  });
+}
+
+export function useCommentRevisions(
+  campaignId: string,
+  weeklyPlanId: string,
+  commentId: string,
+  enabled: boolean
+) {
+  return useQuery({
+    queryKey: queryKeys.commentRevisions(campaignId, weeklyPlanId, commentId),
+    queryFn: async () =>
+      (
+        await fetchJson<{ revisions: CommentRevision[] }>(
+          `/api/campaigns/${campaignId}/calendar/${weeklyPlanId}/comments/${commentId}/revisions`
+        )
+      ).revisions,
+    enabled,
+  });
+}
+
+export function usePostRevisions(
+  campaignId: string,
+  weeklyPlanId: string,
+  postId: string,
+  enabled: boolean
+) {
+  return useQuery({
+    queryKey: queryKeys.postRevisions(campaignId, weeklyPlanId, postId),
+    queryFn: async () =>
+      (
+        await fetchJson<{ revisions: PostRevision[] }>(
+          `/api/campaigns/${campaignId}/calendar/${weeklyPlanId}/posts/${postId}/revisions`
+        )
+      ).revisions,
+    enabled,
+  });
+}
+
+export function useGenerationJob(campaignId: string, weeklyPlanId: string) {
+  return useQuery({
+    queryKey: queryKeys.generationJob(campaignId, weeklyPlanId),
+    queryFn: async () =>
+      (
+        await fetchJson<{ job: GenerationJobState | null }>(
+          `/api/campaigns/${campaignId}/calendar/${weeklyPlanId}/job`
+        )
+      ).job,
+    enabled: !!campaignId && !!weeklyPlanId,
+  });
+}
+
+export function useAuditLog(campaignId: string, filters: AuditFilters) {
+  const params = new URLSearchParams();
+  if (filters.entityType) params.set("entityType", filters.entityType);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+
+  return useQuery({
+    queryKey: queryKeys.audit(campaignId, filters),
+    queryFn: () =>
+      fetchJson<AuditEntry[]>(
+        `/api/campaigns/${campaignId}/audit?${params.toString()}`
+      ),
+    enabled: !!campaignId,
+  });
+}
+
+export function useOutcomes(campaignId: string) {
+  return useQuery({
+    queryKey: queryKeys.outcomes(campaignId),
+    queryFn: () =>
+      fetchJson<PlannedPost[]>(`/api/campaigns/${campaignId}/outcomes`),
+    enabled: !!campaignId,
+  });
+}
+
 // ============ Persona Hooks ============
 
 export function useAddPersona(campaignId: string) {
@@ -285,6 +701,24 @@ export function useAddPersona(campaignId: string) {
   });
 }
 
+export function useUpdatePersona(campaignId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdatePersonaInput) =>
+      fetchJson<Persona>(`/api/campaigns/${campaignId}/personas`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.campaign(campaignId),
+      });
+    },
+  });
+}
+
 export function useDeletePersona(campaignId: string) {
   const queryClient = useQueryClient();
 
@@ -340,6 +774,42 @@ export function useAddSubreddit(campaignId: string) {
   });
 }
 
+export function useUpdateSubredditRules(campaignId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateSubredditRulesInput) =>
+      fetchJson<Subreddit>(`/api/campaigns/${campaignId}/subreddits`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.campaign(campaignId),
+      });
+    },
+  });
+}
+
+export function useSetSubredditActive(campaignId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: { id: string; is_active: boolean }) =>
+      fetchJson<Subreddit>(`/api/campaigns/${campaignId}/subreddits`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.campaign(campaignId),
+      });
+    },
+  });
+}
+
 export function useDeleteSubreddit(campaignId: string) {
   const queryClient = useQueryClient();
 
@@ -426,7 +896,8 @@ export function useCreateWeeklyPlan(campaignId: string) {
 // ============ SSE Streaming Hook for Calendar Page ============
 
 export interface GenerationProgress {
-  type: "progress" | "complete" | "error";
+  type: "job" | "progress" | "complete" | "cancelled" | "error";
+  jobId?: string;
   step?: string;
   postIndex?: number;
   totalPosts?: number;
@@ -443,6 +914,7 @@ interface UseCalendarGenerationOptions {
   onProgress?: (progress: GenerationProgress) => void;
   onPostComplete?: () => void;
   onComplete?: (result: GenerationProgress) => void;
+  onCancel?: (result: GenerationProgress) => void;
   onError?: (error: string) => void;
 }
 
@@ -463,7 +935,21 @@ export function useCalendarGeneration(
   const [progress, setProgress] = useState<GenerationProgress | null>(null);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const queryClient = useQueryClient();
+  const jobUrl = `/api/campaigns/${campaignId}/calendar/${weeklyPlanId}/job`;
+
+  const invalidatePlan = () => {
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.campaign(campaignId),
+    });
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.calendar(campaignId, weeklyPlanId),
+    });
+  };
 
+  /**
+   * Start generating the plan, or reattach to the job already generating
+   * it (e.g. after a page reload). Events so far are replayed.
+   */
   const startGeneration = async () => {
     setIsGenerating(true);
     setProgress(null);
@@ -531,12 +1017,17 @@ export function useCalendarGeneration(
                   },
                 ]);
                 options.onComplete?.(data);
-                queryClient.invalidateQueries({
-                  queryKey: queryKeys.campaign(campaignId),
-                });
-                queryClient.invalidateQueries({
-                  queryKey: queryKeys.calendar(campaignId, weeklyPlanId),
-                });
+                invalidatePlan();
+              } else if (data.type === "cancelled") {
+                setLogs((prev) => [
+                  ...prev,
+                  {
+                    timestamp: new Date(),
+                    message: `⏹️ Generation cancelled with ${data.postsGenerated} posts, ${data.commentsGenerated} comments saved`,
+                  },
+                ]);
+                options.onCancel?.(data);
+                invalidatePlan();
               } else if (data.type === "error") {
                 setLogs((prev) => [
                   ...prev,
@@ -561,13 +1052,39 @@ export function useCalendarGeneration(
       setProgress({ type: "error", error: message });
     } finally {
       setIsGenerating(false);
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.generationJob(campaignId, weeklyPlanId),
+      });
     }
   };
 
+  /**
+   * Ask the running job to stop before its next post
+   */
+  const cancelGeneration = async () => {
+    await fetchJson(`${jobUrl}/cancel`, { method: "POST" });
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.generationJob(campaignId, weeklyPlanId),
+    });
+    invalidatePlan();
+  };
+
+  /**
+   * Continue a failed, cancelled or interrupted job after its last
+   * completed post, and follow its progress
+   */
+  const resumeGeneration = async () => {
+    await fetchJson(`${jobUrl}/resume`, { method: "POST" });
+    invalidatePlan();
+    await startGeneration();
+  };
+
   const clearLogs = () => setLogs([]);
 
   return {
     startGeneration,
+    cancelGeneration,
+    resumeGeneration,
     isGenerating,
     progress,
     logs,
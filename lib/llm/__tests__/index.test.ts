@@ -0,0 +1,31 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { getLLMProvider } from "..";
+
+describe("getLLMProvider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("resolves the stub provider without OpenAI credentials", async () => {
+    vi.stubEnv("OPENAI_API_KEY", undefined);
+    vi.stubEnv("LLM_PROVIDER", "stub");
+
+    const llm = getLLMProvider({ provider: "openai" });
+
+    expect(llm.name).toBe("stub");
+    await expect(
+      llm.complete({
+        task: "topic",
+        system: "Respond with JSON only.",
+        prompt: "r/powerpoint",
+        defaultReasoningEffort: "low",
+      })
+    ).resolves.toContain("topicKey");
+  });
+
+  it("creates the OpenAI provider without calling the API", () => {
+    vi.stubEnv("OPENAI_API_KEY", undefined);
+
+    expect(getLLMProvider({ model: "gpt-test" }).name).toBe("openai:gpt-test");
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { createStubProvider } from "../stub-provider";
+import { LLMRequest } from "../provider";
+
+function createRequest(
+  task: LLMRequest["task"],
+  prompt = "Write something for r/powerpoint"
+): LLMRequest {
+  return {
+    task,
+    system: "Respond with JSON only.",
+    prompt,
+    defaultReasoningEffort: "low",
+  };
+}
+
+describe("createStubProvider", () => {
+  const llm = createStubProvider();
+
+  it("returns the same output for the same request", async () => {
+    const first = await llm.complete(createRequest("post"));
+    const second = await llm.complete(createRequest("post"));
+
+    expect(first).toBe(second);
+  });
+
+  it("returns a topic with a key unique to the prompt", async () => {
+    const a = JSON.parse(
+      await llm.complete(createRequest("topic", "r/powerpoint"))
+    );
+    const b = JSON.parse(
+      await llm.complete(createRequest("topic", "r/consulting"))
+    );
+
+    expect(a.topic).toBeTruthy();
+    expect(a.angle).toBeTruthy();
+    expect(a.topicKey).not.toBe(b.topicKey);
+  });
+
+  it("returns well-formed JSON for posts and comments", async () => {
+    const post = JSON.parse(await llm.complete(createRequest("post")));
+    const comment = JSON.parse(await llm.complete(createRequest("comment")));
+
+    expect(post.title).toBeTruthy();
+    expect(post.body).toBeTruthy();
+    expect(comment.text).toBeTruthy();
+  });
+
+  it("plans three distinct suggested replies", async () => {
+    const plan = JSON.parse(await llm.complete(createRequest("thread_plan")));
+    const questions = plan.suggested_replies.map(
+      (r: { question: string }) => r.question
+    );
+
+    expect(questions).toHaveLength(3);
+    expect(new Set(questions).size).toBe(3);
+  });
+});
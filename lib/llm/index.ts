@@ -0,0 +1,23 @@
+import { LLMSettings } from "../types";
+import { LLMProvider } from "./provider";
+import { createOpenAIProvider } from "./openai-provider";
+import { createStubProvider } from "./stub-provider";
+
+export { DEFAULT_LLM_MODEL } from "./provider";
+export type { LLMProvider, LLMRequest, LLMTask } from "./provider";
+export { createOpenAIProvider } from "./openai-provider";
+export { createStubProvider } from "./stub-provider";
+
+/**
+ * Get the LLM provider for a campaign's settings.
+ * Setting LLM_PROVIDER=stub in the environment forces the offline stub for
+ * every campaign, so CI and demos never reach the network.
+ */
+export function getLLMProvider(settings: LLMSettings = {}): LLMProvider {
+  const provider =
+    process.env.LLM_PROVIDER === "stub" ? "stub" : settings.provider;
+
+  return provider === "stub"
+    ? createStubProvider()
+    : createOpenAIProvider(settings);
+}
@@ -0,0 +1,29 @@
+import { getOpenAI } from "../openai";
+import { LLMSettings } from "../types";
+import { DEFAULT_LLM_MODEL, LLMProvider } from "./provider";
+
+/**
+ * Provider backed by the OpenAI Responses API
+ */
+export function createOpenAIProvider(settings: LLMSettings = {}): LLMProvider {
+  const model = settings.model?.trim() || DEFAULT_LLM_MODEL;
+
+  return {
+    name: `openai:${model}`,
+    async complete(request) {
+      const response = await getOpenAI().responses.create({
+        model,
+        input: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.prompt },
+        ],
+        reasoning: {
+          effort: settings.reasoning_effort || request.defaultReasoningEffort,
+        },
+        ...(request.verbosity && { text: { verbosity: request.verbosity } }),
+      });
+
+      return response.output_text || "{}";
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { ReasoningEffort } from "../types";
+
+export const DEFAULT_LLM_MODEL = "gpt-5-mini";
+
+/**
+ * What a completion is for. Providers that don't call a real model (like
+ * the offline stub) use it to shape their response.
+ */
+export type LLMTask = "topic" | "post" | "comment" | "thread_plan";
+
+export interface LLMRequest {
+  task: LLMTask;
+  system: string;
+  prompt: string;
+  /** Used when the campaign doesn't set its own reasoning effort */
+  defaultReasoningEffort: ReasoningEffort;
+  verbosity?: "low" | "medium" | "high";
+}
+
+export interface LLMProvider {
+  name: string;
+  /** Returns the raw text output, expected to be JSON for every task */
+  complete(request: LLMRequest): Promise<string>;
+}
@@ -0,0 +1,114 @@
+import { LLMProvider, LLMRequest } from "./provider";
+
+const STUB_TOPICS = [
+  {
+    topic: "Editable slide exports",
+    angle: "Which tools export slides you can still edit afterwards?",
+  },
+  {
+    topic: "Pitch deck turnaround",
+    angle: "How do small teams turn around client decks in a day?",
+  },
+  {
+    topic: "Charts in generated decks",
+    angle: "Has anyone found a tool that handles charts without cleanup?",
+  },
+  {
+    topic: "Brand templates",
+    angle: "How do you keep generated slides on brand?",
+  },
+];
+
+const STUB_POSTS = [
+  {
+    title: "What do you use for editable slide exports?",
+    body: "Most tools I tried give me flat images. Looking for something that keeps text editable in PowerPoint.",
+  },
+  {
+    title: "Fastest way to turn notes into a deck?",
+    body: "I get rough notes from clients and need a first draft deck the same day. Curious what works for you.",
+  },
+  {
+    title: "Anyone happy with how their tool handles charts?",
+    body: "Text slides come out fine but charts always need manual fixing. Is that just how it is?",
+  },
+];
+
+const STUB_REPLIES = [
+  "Yes, exports keep text and shapes editable in PowerPoint.",
+  "There's a free tier with a monthly limit, paid plans remove it.",
+  "Charts still need some manual cleanup, we're working on it.",
+  "Not yet, there's no offline mode right now.",
+];
+
+const STUB_QUESTIONS = [
+  {
+    question: "How much does it cost?",
+    intent: "explains pricing and any free tier plainly",
+  },
+  {
+    question: "Does the export stay editable?",
+    intent: "answers what stays editable and what doesn't",
+  },
+  {
+    question: "What are the downsides?",
+    intent: "names a real limitation honestly",
+  },
+  {
+    question: "Are you affiliated with this?",
+    intent: "confirms they work at the company and what their role is",
+  },
+];
+
+/**
+ * Hash text to a stable non-negative integer
+ */
+function hashText(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash << 5) - hash + text.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash);
+}
+
+function pick<T>(items: T[], seed: number): T {
+  return items[seed % items.length];
+}
+
+function respond(request: LLMRequest): unknown {
+  const seed = hashText(`${request.system}\n${request.prompt}`);
+
+  switch (request.task) {
+    case "topic": {
+      const topic = pick(STUB_TOPICS, seed);
+      return {
+        topic: topic.topic,
+        topicKey: `${topic.topic.toLowerCase().replace(/\s+/g, "_")}_${seed.toString(36)}`,
+        angle: topic.angle,
+      };
+    }
+    case "post":
+      return pick(STUB_POSTS, seed);
+    case "comment":
+      return { text: pick(STUB_REPLIES, seed) };
+    case "thread_plan":
+      return {
+        suggested_replies: [0, 1, 2].map((i) => pick(STUB_QUESTIONS, seed + i)),
+      };
+  }
+}
+
+/**
+ * Deterministic offline provider for CI and local demos.
+ * The same request always gets the same well-formed JSON response, and no
+ * network calls are made.
+ */
+export function createStubProvider(): LLMProvider {
+  return {
+    name: "stub",
+    async complete(request) {
+      return JSON.stringify(respond(request));
+    },
+  };
+}
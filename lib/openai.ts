@@ -1,5 +1,14 @@
 import OpenAI from "openai";
 
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+let client: OpenAI | null = null;
+
+/**
+ * The shared OpenAI client, created on first use so importing this module
+ * doesn't need OPENAI_API_KEY (the stub provider never calls it)
+ */
+export function getOpenAI(): OpenAI {
+  if (!client) {
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return client;
+}
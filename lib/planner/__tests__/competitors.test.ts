@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { findCompetitorMentions, needsLegalApproval } from "../competitors";
+
+const competitors = ["Canva", "Google Slides"];
+const productNames = ["Slideforge"];
+
+describe("findCompetitorMentions", () => {
+  it("marks a title comparing the product with a competitor", () => {
+    expect(
+      findCompetitorMentions(
+        "Slideforge vs Canva for slides?",
+        competitors,
+        productNames
+      )
+    ).toEqual([
+      {
+        competitor: "Canva",
+        sentence: "Slideforge vs Canva for slides?",
+        comparative: true,
+      },
+    ]);
+  });
+
+  it("marks comparison wording without the product name", () => {
+    const [mention] = findCompetitorMentions(
+      "Honestly it's way cheaper than Google Slides add-ons.",
+      competitors,
+      productNames
+    );
+
+    expect(mention.competitor).toBe("Google Slides");
+    expect(mention.comparative).toBe(true);
+  });
+
+  it("keeps plain mentions that don't compare", () => {
+    const [mention] = findCompetitorMentions(
+      "You can paste the outline into Google Slides afterwards.",
+      competitors,
+      productNames
+    );
+
+    expect(mention.comparative).toBe(false);
+  });
+
+  it("matches whole words only, case-insensitively", () => {
+    expect(
+      findCompetitorMentions("canvas are for painters", competitors, [])
+    ).toEqual([]);
+    expect(
+      findCompetitorMentions("tried CANVA once", competitors, [])
+    ).toHaveLength(1);
+  });
+
+  it("finds nothing without a competitor list", () => {
+    expect(
+      findCompetitorMentions("Slideforge vs Canva?", [], productNames)
+    ).toEqual([]);
+  });
+});
+
+describe("needsLegalApproval", () => {
+  it("is true only when the competitor check failed", () => {
+    const check = {
+      check: "competitor_mentions" as const,
+      blocking: false,
+      detail: "",
+    };
+
+    expect(needsLegalApproval([{ ...check, passed: false }])).toBe(true);
+    expect(needsLegalApproval([{ ...check, passed: true }])).toBe(false);
+    expect(needsLegalApproval([])).toBe(false);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import { evaluateCompliance, describeBlockers } from "../compliance";
+import { Persona, RuleCheckResult } from "../../types";
+
+function createPersona(username: string, campaignId = "campaign-1"): Persona {
+  return {
+    id: `persona-${username}`,
+    campaign_id: campaignId,
+    username,
+    bio: `I'm ${username}`,
+    is_active: true,
+    is_operator: false,
+    owner_name: null,
+    employer_relationship: null,
+    consent_given_at: null,
+    disclosure_text: null,
+    profile_states_affiliation: false,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+const disclosure = "Disclosure: I work at Slideforge.";
+const productNames = ["Slideforge"];
+const approvedClaims = ["Slideforge 2.0 is out."];
+const competitors = ["Canva", "Gamma"];
+const brand = createPersona("slideforge_team");
+
+function evaluate(
+  post: { author: Persona; text: string },
+  comments: { author: Persona; text: string }[] = [],
+  ruleReport: RuleCheckResult[] = [],
+  volumeViolations: string[] = []
+) {
+  return evaluateCompliance({
+    post,
+    comments,
+    productNames,
+    disclosure,
+    approvedClaims,
+    competitors,
+    ruleReport,
+    volumeViolations,
+  });
+}
+
+function findCheck(
+  report: ReturnType<typeof evaluateCompliance>,
+  check: string
+) {
+  return report.checks.find((c) => c.check === check);
+}
+
+describe("evaluateCompliance", () => {
+  it("passes a disclosed post and brand replies", () => {
+    const report = evaluate(
+      { author: brand, text: `Slideforge 2.0 is out\n\n${disclosure}` },
+      [{ author: brand, text: `Yes, it exports to pptx.\n\n${disclosure}` }]
+    );
+
+    expect(report.blocked).toBe(false);
+    expect(report.score).toBe(1);
+  });
+
+  it("blocks text from affiliated authors without the disclosure", () => {
+    const report = evaluate({ author: brand, text: "Any tips for decks?" });
+
+    expect(report.blocked).toBe(true);
+    expect(findCheck(report, "disclosure")?.passed).toBe(false);
+  });
+
+  it("blocks product mentions without the disclosure", () => {
+    const report = evaluate({
+      author: createPersona("casual_user"),
+      text: "Slideforge is the best tool I've tried",
+    });
+
+    expect(report.blocked).toBe(true);
+    expect(findCheck(report, "disclosure")?.passed).toBe(false);
+    expect(findCheck(report, "product_mentions")?.passed).toBe(false);
+  });
+
+  it("blocks a second campaign account in the thread", () => {
+    const other = createPersona("jordan_consults");
+
+    const report = evaluate({ author: brand, text: `Hi\n\n${disclosure}` }, [
+      { author: other, text: `Great point!\n\n${disclosure}` },
+    ]);
+
+    expect(report.blocked).toBe(true);
+    expect(findCheck(report, "single_operator")?.detail).toContain(
+      "u/jordan_consults"
+    );
+  });
+
+  it("blocks when the self-promotion ratio rule failed", () => {
+    const report = evaluate(
+      { author: brand, text: `Hi\n\n${disclosure}` },
+      [],
+      [
+        {
+          rule: "self_promotion_ratio",
+          passed: false,
+          detail: "2 of 3 posts promotional (limit 10%)",
+        },
+      ]
+    );
+
+    expect(report.blocked).toBe(true);
+    expect(describeBlockers(report)).toBe(
+      "2 of 3 posts promotional (limit 10%)"
+    );
+  });
+
+  it("blocks posts that would go over a volume cap", () => {
+    const report = evaluate(
+      { author: brand, text: `Hi\n\n${disclosure}` },
+      [],
+      [],
+      ["r/powerpoint would have 4 items in 7 days (cap 3)"]
+    );
+
+    expect(report.blocked).toBe(true);
+    expect(describeBlockers(report)).toBe(
+      "r/powerpoint would have 4 items in 7 days (cap 3)"
+    );
+  });
+
+  it("lowers the score without blocking for links and other rules", () => {
+    const report = evaluate(
+      { author: brand, text: `See slideforge.ai\n\n${disclosure}` },
+      [],
+      [
+        {
+          rule: "required_flair",
+          passed: false,
+          detail: 'Requires flair "Question"',
+        },
+      ]
+    );
+
+    expect(report.blocked).toBe(false);
+    expect(findCheck(report, "links")?.passed).toBe(false);
+    expect(findCheck(report, "community_rules")?.passed).toBe(false);
+    expect(report.score).toBeLessThan(1);
+  });
+
+  it("flags product statements that aren't approved claims", () => {
+    const report = evaluate(
+      { author: brand, text: `Slideforge 2.0 is out\n\n${disclosure}` },
+      [{ author: brand, text: `+1 Slideforge\n\n${disclosure}` }]
+    );
+
+    expect(report.blocked).toBe(false);
+    expect(findCheck(report, "product_claims")).toMatchObject({
+      passed: false,
+      detail: 'Not in the approved claims: u/slideforge_team: "+1 Slideforge"',
+    });
+    expect(report.score).toBeLessThan(1);
+  });
+
+  it("flags comparisons with competitors for legal approval", () => {
+    const report = evaluate(
+      { author: brand, text: `Slideforge 2.0 is out\n\n${disclosure}` },
+      [
+        {
+          author: brand,
+          text: `It exports faster than Canva.\n\n${disclosure}`,
+        },
+      ]
+    );
+
+    expect(report.blocked).toBe(false);
+    expect(findCheck(report, "competitor_mentions")).toMatchObject({
+      passed: false,
+      detail:
+        'Needs legal approval for comparisons: u/slideforge_team: "It exports faster than Canva."',
+    });
+  });
+
+  it("passes competitor mentions that don't compare", () => {
+    const report = evaluate({
+      author: brand,
+      text: `Import your Gamma outline as text.\n\n${disclosure}`,
+    });
+
+    expect(findCheck(report, "competitor_mentions")).toMatchObject({
+      passed: true,
+      detail: "Names Gamma without comparing",
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_DISCLOSURE_TEMPLATE,
+  buildDisclosure,
+  hasDisclosure,
+  applyDisclosure,
+  isDisclosed,
+} from "../disclosure";
+import { Persona } from "../../types";
+
+function createPersona(username: string): Persona {
+  return {
+    id: `persona-${username}`,
+    campaign_id: "campaign-1",
+    username,
+    bio: `I'm ${username}`,
+    is_active: true,
+    is_operator: false,
+    owner_name: null,
+    employer_relationship: null,
+    consent_given_at: null,
+    disclosure_text: null,
+    profile_states_affiliation: false,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+describe("buildDisclosure", () => {
+  it("fills the company name into the default template", () => {
+    expect(buildDisclosure("Slideforge")).toBe(
+      "Disclosure: I work at Slideforge."
+    );
+  });
+
+  it("uses a custom template when provided", () => {
+    expect(
+      buildDisclosure("Slideforge", "(I'm on the {company_name} team)")
+    ).toBe("(I'm on the Slideforge team)");
+  });
+
+  it("falls back to the default template when the custom one is blank", () => {
+    expect(buildDisclosure("Slideforge", "   ")).toBe(
+      DEFAULT_DISCLOSURE_TEMPLATE.replace("{company_name}", "Slideforge")
+    );
+  });
+});
+
+describe("hasDisclosure", () => {
+  const disclosure = "Disclosure: I work at Slideforge.";
+
+  it("finds the disclosure regardless of case and spacing", () => {
+    expect(
+      hasDisclosure(
+        "Great question!\n\ndisclosure:  I work at slideforge.",
+        disclosure
+      )
+    ).toBe(true);
+  });
+
+  it("returns false when the disclosure is missing", () => {
+    expect(hasDisclosure("Slideforge is pretty good tbh", disclosure)).toBe(
+      false
+    );
+  });
+});
+
+describe("applyDisclosure", () => {
+  const disclosure = "Disclosure: I work at Slideforge.";
+
+  it("appends the disclosure for affiliated personas", () => {
+    const result = applyDisclosure(
+      createPersona("riley_ops"),
+      "Happy to help!",
+      disclosure
+    );
+
+    expect(result).toBe("Happy to help!\n\nDisclosure: I work at Slideforge.");
+  });
+
+  it("does not duplicate an existing disclosure", () => {
+    const text = "Happy to help!\n\nDisclosure: I work at Slideforge.";
+
+    expect(applyDisclosure(createPersona("riley_ops"), text, disclosure)).toBe(
+      text
+    );
+  });
+
+  it("uses the persona's own disclosure when it has one", () => {
+    const persona = {
+      ...createPersona("riley_ops"),
+      disclosure_text: "I'm a founder of Slideforge.",
+    };
+
+    expect(applyDisclosure(persona, "Happy to help!", disclosure)).toBe(
+      "Happy to help!\n\nI'm a founder of Slideforge."
+    );
+    expect(isDisclosed(persona, `Try it! ${disclosure}`, disclosure)).toBe(
+      false
+    );
+  });
+});
+
+describe("isDisclosed", () => {
+  const disclosure = "Disclosure: I work at Slideforge.";
+
+  it("rejects affiliated text without the disclosure", () => {
+    expect(isDisclosed(createPersona("riley_ops"), "Try it!", disclosure)).toBe(
+      false
+    );
+  });
+
+  it("accepts affiliated text with the disclosure", () => {
+    expect(
+      isDisclosed(
+        createPersona("riley_ops"),
+        `Try it! ${disclosure}`,
+        disclosure
+      )
+    ).toBe(true);
+  });
+});
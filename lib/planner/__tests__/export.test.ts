@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildWeekExport,
+  toCsv,
+  toICalendar,
+  WeekExportSource,
+} from "../export";
+import { PlannedComment, PlannedPost } from "../../types";
+
+const NOW = "2025-12-01T00:00:00.000Z";
+
+function createPost(overrides: Partial<PlannedPost> = {}): PlannedPost {
+  return {
+    id: "post-1",
+    campaign_id: "campaign-1",
+    weekly_plan_id: "plan-1",
+    subreddit_name: "powerpoint",
+    author_persona_id: "persona-1",
+    post_type: "post",
+    title: "Decks, fast",
+    body: 'Line one\nSay "hi", please',
+    target_keyword_codes: [],
+    topic_key: "topic",
+    scheduled_at: "2025-12-08T15:00:00.000Z",
+    quality_score: 0.8,
+    compliance_score: 1,
+    compliance_report: [],
+    dedupe_hash: "hash",
+    flair: null,
+    rule_report: [],
+    review_status: "approved",
+    reviewed_by: "Sam",
+    reviewed_at: NOW,
+    review_note: null,
+    legal_approved_by: null,
+    legal_approved_at: null,
+    outcome: null,
+    outcome_note: null,
+    outcome_recorded_by: null,
+    outcome_recorded_at: null,
+    notes: null,
+    created_at: NOW,
+    updated_at: NOW,
+    ...overrides,
+  };
+}
+
+function createComment(
+  overrides: Partial<PlannedComment> = {}
+): PlannedComment {
+  return {
+    id: "comment-1",
+    campaign_id: "campaign-1",
+    planned_post_id: "post-1",
+    author_persona_id: "persona-2",
+    reply_to_comment_id: null,
+    comment_text: "Nice",
+    anticipated_question: null,
+    scheduled_at: "2025-12-08T16:00:00.000Z",
+    quality_score: 0.7,
+    review_status: "in_review",
+    reviewed_by: null,
+    reviewed_at: null,
+    review_note: null,
+    created_at: NOW,
+    updated_at: NOW,
+    ...overrides,
+  };
+}
+
+function createSource(): WeekExportSource {
+  return {
+    campaign: {
+      id: "campaign-1",
+      name: "Launch",
+      company_name: "Slideforge",
+      company_info: {},
+      posts_per_week: 3,
+      start_date: "2025-12-01",
+      timezone: "America/New_York",
+      llm_settings: {},
+      posting_schedule: {},
+      volume_caps: {},
+      created_at: NOW,
+      updated_at: NOW,
+    },
+    plan: {
+      id: "plan-1",
+      campaign_id: "campaign-1",
+      week_start_date: "2025-12-08",
+      status: "in_review",
+      plan_json: {},
+      created_at: NOW,
+      updated_at: NOW,
+    },
+    posts: [createPost()],
+    comments: [
+      createComment({
+        id: "comment-2",
+        reply_to_comment_id: "comment-1",
+        scheduled_at: "2025-12-08T17:00:00.000Z",
+        review_status: "rejected",
+      }),
+      createComment(),
+    ],
+    personas: [
+      { id: "persona-1", username: "slideforge_team" },
+      { id: "persona-2", username: "deck_fan" },
+    ],
+  };
+}
+
+describe("buildWeekExport", () => {
+  it("nests replies under their post in schedule order with local times", () => {
+    const week = buildWeekExport(createSource(), new Date(NOW));
+
+    expect(week.campaign.timezone).toBe("America/New_York");
+    expect(week.posts).toHaveLength(1);
+    expect(week.posts[0]).toMatchObject({
+      author: "slideforge_team",
+      scheduled_at_local: "2025-12-08T10:00:00-05:00",
+      review_status: "approved",
+    });
+    expect(week.posts[0].comments.map((c) => c.id)).toEqual([
+      "comment-1",
+      "comment-2",
+    ]);
+    expect(week.posts[0].comments[0].author).toBe("deck_fan");
+  });
+});
+
+describe("toCsv", () => {
+  it("writes a row per post and reply, quoting text that needs it", () => {
+    const csv = toCsv(buildWeekExport(createSource(), new Date(NOW)));
+    const lines = csv.split("\r\n");
+
+    expect(lines[0]).toBe(
+      "type,id,post_id,reply_to_comment_id,subreddit,author,title,text,scheduled_at,scheduled_at_local,timezone,review_status,reviewed_by,reviewed_at,quality_score,compliance_score"
+    );
+    expect(csv).toContain('"Line one\nSay ""hi"", please"');
+    expect(csv.match(/^comment,/gm)).toHaveLength(2);
+  });
+
+  it("keeps spreadsheets from evaluating text that looks like a formula", () => {
+    const source = createSource();
+    source.posts[0] = createPost({
+      title: '=HYPERLINK("http://example.com")',
+      body: "@channel +1 -2",
+    });
+
+    const csv = toCsv(buildWeekExport(source, new Date(NOW)));
+
+    expect(csv).toContain(`"'=HYPERLINK(""http://example.com"")"`);
+    expect(csv).toContain(",'@channel +1 -2,");
+    expect(
+      toCsv(
+        buildWeekExport(
+          { ...source, posts: [createPost({ title: "\t=1+1" })] },
+          new Date(NOW)
+        )
+      )
+    ).toContain(",'\t=1+1,");
+    expect(csv).toContain(",0.8,1\r\n");
+  });
+});
+
+describe("toICalendar", () => {
+  it("publishes an event per scheduled item and leaves out rejected ones", () => {
+    const ics = toICalendar(buildWeekExport(createSource(), new Date(NOW)));
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ics).toContain("UID:post-1@reddit-content-planner");
+    expect(ics).toContain("DTSTART:20251208T150000Z");
+    expect(ics).toContain("STATUS:CONFIRMED");
+    expect(ics).toContain("STATUS:TENTATIVE");
+    expect(ics).not.toContain("comment-2@");
+    expect(ics).toContain('Say "hi"\\, please');
+  });
+
+  it("folds long lines", () => {
+    const source = createSource();
+    source.posts = [createPost({ body: "word ".repeat(40) })];
+
+    const ics = toICalendar(buildWeekExport(source, new Date(NOW)));
+
+    for (const line of ics.split("\r\n")) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+  });
+});
@@ -12,15 +12,93 @@ vi.mock("../../supabase", () => ({
   },
 }));
 
-vi.mock("../../openai", () => ({
-  openai: {
-    responses: {
-      create: vi.fn(),
-    },
-  },
-}));
+import {
+  getNextWeekStart,
+  getCurrentWeekStart,
+  generateWeeklyCalendar,
+  generateContentForPlan,
+  createProgressObserver,
+  createMetricsObserver,
+  regeneratePlannedPost,
+  editPlannedPost,
+  editPlannedComment,
+} from "../index";
+import { createMemoryRepository } from "../../repository";
+import { Campaign, Persona, Subreddit, Keyword } from "../../types";
+
+const NOW = "2025-12-01T00:00:00.000Z";
+
+function createCampaign(): Campaign {
+  return {
+    id: "campaign-1",
+    name: "Launch",
+    company_name: "Slideforge",
+    company_info: { website: "slideforge.app", description: "AI slide decks" },
+    posts_per_week: 3,
+    start_date: "2025-12-01",
+    timezone: "America/New_York",
+    llm_settings: { provider: "stub" },
+    posting_schedule: {},
+    volume_caps: {},
+    created_at: NOW,
+    updated_at: NOW,
+  };
+}
 
-import { getNextWeekStart, getCurrentWeekStart } from "../index";
+function createPersona(): Persona {
+  return {
+    id: "persona-brand",
+    campaign_id: "campaign-1",
+    username: "slideforge_team",
+    bio: "Official Slideforge account",
+    is_active: true,
+    is_operator: true,
+    owner_name: "Slideforge marketing team",
+    employer_relationship: "employee",
+    consent_given_at: NOW,
+    disclosure_text: "Disclosure: I work at Slideforge.",
+    profile_states_affiliation: true,
+    created_at: NOW,
+    updated_at: NOW,
+  };
+}
+
+function createSubreddit(name: string): Subreddit {
+  return {
+    id: `sub-${name}`,
+    campaign_id: "campaign-1",
+    name,
+    is_active: true,
+    rules: {},
+    created_at: NOW,
+    updated_at: NOW,
+  };
+}
+
+function createKeyword(code: string, text: string): Keyword {
+  return {
+    id: `kw-${code}`,
+    campaign_id: "campaign-1",
+    keyword_code: code,
+    keyword_text: text,
+    intent: "informational",
+    is_active: true,
+    created_at: NOW,
+    updated_at: NOW,
+  };
+}
+
+function createSeededRepository() {
+  return createMemoryRepository({
+    campaigns: [createCampaign()],
+    personas: [createPersona()],
+    subreddits: [createSubreddit("powerpoint"), createSubreddit("startups")],
+    keywords: [
+      createKeyword("K1", "ai presentation maker"),
+      createKeyword("K2", "pitch deck generator"),
+    ],
+  });
+}
 
 describe("getNextWeekStart", () => {
   it("returns next Monday from a Wednesday", () => {
@@ -143,4 +221,511 @@ describe("getCurrentWeekStart", () => {
     expect(result.getUTCMonth()).toBe(11); // December
     expect(result.getUTCDate()).toBe(1);
   });
+
+  it("uses the date in the given timezone", () => {
+    // Monday 02:00 UTC is still Sunday evening in New York
+    const instant = new Date("2025-12-15T02:00:00Z");
+
+    expect(getCurrentWeekStart(instant).toISOString()).toBe(
+      "2025-12-15T00:00:00.000Z"
+    );
+    expect(getCurrentWeekStart(instant, "America/New_York").toISOString()).toBe(
+      "2025-12-08T00:00:00.000Z"
+    );
+    expect(getNextWeekStart(instant, "America/New_York").toISOString()).toBe(
+      "2025-12-15T00:00:00.000Z"
+    );
+  });
+});
+
+describe("generateWeeklyCalendar", () => {
+  it("plans and saves a week of posts with suggested replies", async () => {
+    const repository = createSeededRepository();
+
+    const result = await generateWeeklyCalendar(
+      "campaign-1",
+      new Date("2025-12-08T00:00:00Z"),
+      { repository }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.postsGenerated).toBe(3);
+    expect(repository.tables.posts).toHaveLength(3);
+    expect(result.commentsGenerated).toBeGreaterThan(0);
+    expect(repository.tables.comments).toHaveLength(result.commentsGenerated);
+
+    const plan = repository.tables.weeklyPlans[0];
+    expect(plan.id).toBe(result.weeklyPlanId);
+    expect(plan.status).toBe("in_review");
+    expect(plan.plan_json.posts_count).toBe(3);
+
+    for (const post of repository.tables.posts) {
+      expect(post.weekly_plan_id).toBe(plan.id);
+      expect(post.review_status).toBe("in_review");
+      expect(post.body).toContain("Disclosure: I work at Slideforge.");
+    }
+  });
+
+  it("schedules posts in the campaign's daytime, across a DST change", async () => {
+    const repository = createSeededRepository();
+    repository.tables.campaigns[0].posts_per_week = 7;
+
+    // Clocks in New York go back an hour on Sunday, November 1, 2026
+    const { weeklyPlanId } = await generateWeeklyCalendar(
+      "campaign-1",
+      new Date("2026-10-26T00:00:00Z"),
+      { repository }
+    );
+
+    const posts = await repository.posts.listByPlan(weeklyPlanId);
+    const localTimes = posts.map((p) =>
+      new Intl.DateTimeFormat("en-US", {
+        timeZone: "America/New_York",
+        weekday: "short",
+        hour: "numeric",
+        hourCycle: "h23",
+      }).formatToParts(new Date(p.scheduled_at!))
+    );
+    const weekdays = localTimes.map(
+      (parts) => parts.find((p) => p.type === "weekday")!.value
+    );
+    const hours = localTimes.map((parts) =>
+      Number(parts.find((p) => p.type === "hour")!.value)
+    );
+
+    expect(weekdays).toEqual(["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]);
+    hours.forEach((hour) => {
+      expect(hour).toBeGreaterThanOrEqual(9);
+      expect(hour).toBeLessThan(20);
+    });
+  });
+
+  it("reports posts it can't fit into a blacked-out week", async () => {
+    const repository = createSeededRepository();
+    repository.tables.campaigns[0].posting_schedule = {
+      days: [1, 2, 3, 4, 5],
+      blackouts: [
+        { start_date: "2025-12-08", end_date: "2025-12-12", reason: "Freeze" },
+      ],
+    };
+
+    const result = await generateWeeklyCalendar(
+      "campaign-1",
+      new Date("2025-12-08T00:00:00Z"),
+      { repository }
+    );
+
+    expect(result.postsGenerated).toBe(0);
+    expect(result.errors).toHaveLength(3);
+    expect(result.errors[0]).toBe(
+      "No posting window for post 1: every allowed day (Mon, Tue, Wed, Thu, Fri) is blacked out: Freeze"
+    );
+    expect(repository.tables.weeklyPlans[0].status).toBe("failed");
+  });
+
+  it("blocks posts that would take an account over its volume cap", async () => {
+    const repository = createSeededRepository();
+    repository.tables.campaigns[0].volume_caps = {
+      account: { "7d": { total: 4 } },
+    };
+
+    const result = await generateWeeklyCalendar(
+      "campaign-1",
+      new Date("2025-12-08T00:00:00Z"),
+      { repository }
+    );
+
+    // The first post and its three replies use up the cap
+    expect(result.postsGenerated).toBe(1);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toMatch(
+      /blocked by compliance: u\/slideforge_team would have \d+ items in 7 days \(cap 4\)/
+    );
+  });
+
+  it("assigns nothing to an account without consent", async () => {
+    const repository = createSeededRepository();
+    repository.tables.personas[0].consent_given_at = null;
+
+    const result = await generateWeeklyCalendar(
+      "campaign-1",
+      new Date("2025-12-08T00:00:00Z"),
+      { repository }
+    );
+
+    expect(result.postsGenerated).toBe(0);
+    expect(result.errors[0]).toContain(
+      "unverified: u/slideforge_team (consent)"
+    );
+  });
+
+  it("remembers the topics it used", async () => {
+    const repository = createSeededRepository();
+
+    await generateWeeklyCalendar(
+      "campaign-1",
+      new Date("2025-12-08T00:00:00Z"),
+      { repository }
+    );
+
+    const timesUsed = repository.tables.topicMemory.reduce(
+      (sum, t) => sum + t.times_used,
+      0
+    );
+    expect(timesUsed).toBe(3);
+  });
+
+  it("fails when the campaign has no active subreddits", async () => {
+    const repository = createSeededRepository();
+    repository.tables.subreddits.forEach((s) => (s.is_active = false));
+
+    await expect(
+      generateWeeklyCalendar("campaign-1", new Date("2025-12-08T00:00:00Z"), {
+        repository,
+      })
+    ).rejects.toThrow("No active subreddits found for campaign");
+    expect(repository.tables.weeklyPlans).toHaveLength(0);
+  });
+});
+
+describe("generateContentForPlan", () => {
+  it("fills an existing plan and reports progress", async () => {
+    const repository = createSeededRepository();
+    const plan = await repository.weeklyPlans.create({
+      campaign_id: "campaign-1",
+      week_start_date: "2025-12-08",
+      status: "generating",
+      plan_json: {},
+    });
+    const messages: string[] = [];
+
+    const result = await generateContentForPlan(plan.id, {
+      repository,
+      observers: [
+        createProgressObserver((event) => messages.push(event.message)),
+      ],
+    });
+
+    expect(result.postsGenerated).toBe(3);
+    expect(
+      repository.tables.posts.every((p) => p.weekly_plan_id === plan.id)
+    ).toBe(true);
+    expect(repository.tables.weeklyPlans[0].status).toBe("in_review");
+    expect(messages.filter((m) => m.startsWith("✅"))).toHaveLength(3);
+  });
+
+  it("throws when the plan does not exist", async () => {
+    await expect(
+      generateContentForPlan("missing", {
+        repository: createSeededRepository(),
+      })
+    ).rejects.toThrow("Weekly plan not found");
+  });
+});
+
+describe("generation pipeline", () => {
+  it("only generates content for plans that are still generating", async () => {
+    const repository = createSeededRepository();
+    const plan = await repository.weeklyPlans.create({
+      campaign_id: "campaign-1",
+      week_start_date: "2025-12-08",
+      status: "in_review",
+      plan_json: {},
+    });
+
+    await expect(
+      generateContentForPlan(plan.id, { repository })
+    ).rejects.toThrow("Weekly plan is not in generating status");
+    expect(repository.tables.posts).toHaveLength(0);
+  });
+
+  it("runs every stage once per post", async () => {
+    const { observer, metrics } = createMetricsObserver();
+
+    await generateWeeklyCalendar(
+      "campaign-1",
+      new Date("2025-12-08T00:00:00Z"),
+      { repository: createSeededRepository(), observers: [observer] }
+    );
+
+    expect(metrics.select_subreddits?.runs).toBe(1);
+    for (const stage of [
+      "assign_author",
+      "topic",
+      "post",
+      "thread",
+      "score",
+      "persist",
+    ] as const) {
+      expect(metrics[stage]?.runs).toBe(3);
+      expect(metrics[stage]?.skipped).toBe(0);
+    }
+  });
+
+  it("reports skipped posts to observers and in errors", async () => {
+    const repository = createSeededRepository();
+    repository.posts.createWithComments = async () => {
+      throw new Error("insert failed");
+    };
+    const skipped: string[] = [];
+
+    const result = await generateWeeklyCalendar(
+      "campaign-1",
+      new Date("2025-12-08T00:00:00Z"),
+      {
+        repository,
+        observers: [
+          {
+            onPostSkipped: (stage) => {
+              skipped.push(stage);
+            },
+          },
+        ],
+      }
+    );
+
+    expect(result.postsGenerated).toBe(0);
+    expect(skipped).toEqual(["persist", "persist", "persist"]);
+    expect(result.errors).toHaveLength(3);
+    for (const error of result.errors) {
+      expect(error).toMatch(/^Failed to save post for \w+: insert failed$/);
+    }
+    expect(repository.tables.comments).toHaveLength(0);
+    expect(repository.tables.weeklyPlans[0].status).toBe("failed");
+    expect(repository.tables.weeklyPlans[0].plan_json.errors).toEqual(
+      result.errors
+    );
+  });
+
+  it("marks the plan partially failed when only some posts are skipped", async () => {
+    const repository = createSeededRepository();
+    const createWithComments = repository.posts.createWithComments;
+    let calls = 0;
+    repository.posts.createWithComments = async (post, comments) => {
+      if (++calls === 2) throw new Error("insert failed");
+      return createWithComments(post, comments);
+    };
+
+    const result = await generateWeeklyCalendar(
+      "campaign-1",
+      new Date("2025-12-08T00:00:00Z"),
+      { repository }
+    );
+
+    expect(result.postsGenerated).toBe(2);
+    expect(result.status).toBe("partially_failed");
+    expect(repository.tables.weeklyPlans[0].status).toBe("partially_failed");
+  });
+
+  it("marks the plan failed when the run stops on an error", async () => {
+    const repository = createSeededRepository();
+
+    await expect(
+      generateWeeklyCalendar("campaign-1", new Date("2025-12-08T00:00:00Z"), {
+        repository,
+        observers: [
+          {
+            onSubredditsSelected: () => {
+              throw new Error("checkpoint failed");
+            },
+          },
+        ],
+      })
+    ).rejects.toThrow("checkpoint failed");
+
+    const plan = repository.tables.weeklyPlans[0];
+    expect(plan.status).toBe("failed");
+    expect(plan.plan_json.error).toBe("checkpoint failed");
+  });
+});
+
+async function generateReadyWeek() {
+  const repository = createSeededRepository();
+  const { weeklyPlanId } = await generateWeeklyCalendar(
+    "campaign-1",
+    new Date("2025-12-08T00:00:00Z"),
+    { repository }
+  );
+  await repository.weeklyPlans.update(weeklyPlanId, { status: "ready" });
+  const [post] = await repository.posts.listByPlan(weeklyPlanId);
+  return { repository, weeklyPlanId, post };
+}
+
+describe("regeneratePlannedPost", () => {
+  it("rewrites one post in its slot and keeps the old version", async () => {
+    const { repository, weeklyPlanId, post } = await generateReadyWeek();
+    await repository.posts.updateReview(post.id, {
+      review_status: "approved",
+      reviewed_by: "Sam",
+      reviewed_at: NOW,
+      review_note: null,
+    });
+
+    const result = await regeneratePlannedPost(
+      {
+        campaignId: "campaign-1",
+        weeklyPlanId,
+        postId: post.id,
+        mode: "content",
+        actor: "Sam",
+      },
+      { repository }
+    );
+
+    expect(result.post.id).toBe(post.id);
+    expect(result.post.subreddit_name).toBe(post.subreddit_name);
+    expect(result.post.author_persona_id).toBe(post.author_persona_id);
+    expect(result.post.scheduled_at).toBe(post.scheduled_at);
+    expect(result.post.topic_key).toBe(post.topic_key);
+    expect(result.post.review_status).toBe("in_review");
+    expect(result.post.reviewed_by).toBeNull();
+    expect(result.revision).toMatchObject({
+      planned_post_id: post.id,
+      title: post.title,
+      body: post.body,
+      change: "regenerate_content",
+      created_by: "Sam",
+    });
+    expect(result.planStatus).toBe("in_review");
+    expect(repository.tables.posts).toHaveLength(3);
+    expect(await repository.postRevisions.listByPost(post.id)).toHaveLength(1);
+  });
+
+  it("records the new topic when regenerating the topic", async () => {
+    const { repository, weeklyPlanId, post } = await generateReadyWeek();
+    const topicsBefore = repository.tables.topicMemory.reduce(
+      (sum, t) => sum + t.times_used,
+      0
+    );
+
+    const result = await regeneratePlannedPost(
+      {
+        campaignId: "campaign-1",
+        weeklyPlanId,
+        postId: post.id,
+        mode: "topic",
+        actor: "Sam",
+      },
+      { repository }
+    );
+
+    expect(result.revision.change).toBe("regenerate_topic");
+    expect(
+      repository.tables.topicMemory.reduce((sum, t) => sum + t.times_used, 0)
+    ).toBe(topicsBefore + 1);
+  });
+
+  it("rejects posts from another plan", async () => {
+    const { repository, post } = await generateReadyWeek();
+
+    await expect(
+      regeneratePlannedPost(
+        {
+          campaignId: "campaign-1",
+          weeklyPlanId: "other-plan",
+          postId: post.id,
+          mode: "content",
+          actor: "Sam",
+        },
+        { repository }
+      )
+    ).rejects.toThrow("Planned post not found");
+    expect(repository.tables.postRevisions).toHaveLength(0);
+  });
+});
+
+describe("editPlannedPost", () => {
+  it("saves the edit, rescores the post and keeps the old version", async () => {
+    const { repository, weeklyPlanId, post } = await generateReadyWeek();
+
+    const result = await editPlannedPost(
+      {
+        campaignId: "campaign-1",
+        weeklyPlanId,
+        postId: post.id,
+        title: "A clearer title",
+        body: `${post.body}\n\nEdited for clarity.`,
+        actor: "Sam",
+      },
+      { repository }
+    );
+
+    expect(result.post.title).toBe("A clearer title");
+    expect(result.post.review_status).toBe("in_review");
+    expect(result.post.compliance_report.length).toBeGreaterThan(0);
+    expect(result.revision).toMatchObject({
+      planned_post_id: post.id,
+      title: post.title,
+      change: "edit",
+      created_by: "Sam",
+    });
+    expect(result.planStatus).toBe("in_review");
+  });
+
+  it("refuses an edit that drops the affiliation disclosure", async () => {
+    const { repository, weeklyPlanId, post } = await generateReadyWeek();
+
+    await expect(
+      editPlannedPost(
+        {
+          campaignId: "campaign-1",
+          weeklyPlanId,
+          postId: post.id,
+          title: post.title,
+          body: "Our tool is the best, try it.",
+          actor: "Sam",
+        },
+        { repository }
+      )
+    ).rejects.toThrow("The post must keep its affiliation disclosure");
+    expect(repository.tables.postRevisions).toHaveLength(0);
+  });
+});
+
+describe("editPlannedComment", () => {
+  it("saves the reply, keeps the old text and updates the post's scores", async () => {
+    const { repository, weeklyPlanId, post } = await generateReadyWeek();
+    const [comment] = await repository.comments.listByPosts([post.id]);
+
+    const result = await editPlannedComment(
+      {
+        campaignId: "campaign-1",
+        weeklyPlanId,
+        commentId: comment.id,
+        text: `${comment.comment_text} Happy to share more details.`,
+        actor: "Sam",
+      },
+      { repository }
+    );
+
+    expect(result.comment.comment_text).toContain("Happy to share");
+    expect(result.comment.review_status).toBe("in_review");
+    expect(result.revision).toMatchObject({
+      planned_comment_id: comment.id,
+      comment_text: comment.comment_text,
+      created_by: "Sam",
+    });
+    expect(result.post.quality_score).toBe(result.comment.quality_score);
+    expect(
+      await repository.commentRevisions.listByComment(comment.id)
+    ).toHaveLength(1);
+  });
+
+  it("rejects replies from another campaign", async () => {
+    const { repository, weeklyPlanId, post } = await generateReadyWeek();
+    const [comment] = await repository.comments.listByPosts([post.id]);
+
+    await expect(
+      editPlannedComment(
+        {
+          campaignId: "campaign-2",
+          weeklyPlanId,
+          commentId: comment.id,
+          text: "Changed",
+          actor: "Sam",
+        },
+        { repository }
+      )
+    ).rejects.toThrow("Planned comment not found");
+  });
 });
@@ -0,0 +1,273 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../../supabase", () => ({
+  supabase: {},
+}));
+
+import {
+  ensureGenerationJob,
+  cancelGenerationJob,
+  resumeGenerationJob,
+  subscribeToJob,
+  JobEvent,
+} from "../jobs";
+import { createMemoryRepository } from "../../repository";
+import {
+  Campaign,
+  GenerationJob,
+  Persona,
+  Subreddit,
+  WeeklyPlan,
+} from "../../types";
+
+const NOW = "2025-12-01T00:00:00.000Z";
+
+const campaign: Campaign = {
+  id: "campaign-1",
+  name: "Launch",
+  company_name: "Slideforge",
+  company_info: { website: "slideforge.app", description: "AI slide decks" },
+  posts_per_week: 3,
+  start_date: "2025-12-01",
+  timezone: "America/New_York",
+  llm_settings: { provider: "stub" },
+  posting_schedule: {},
+  volume_caps: {},
+  created_at: NOW,
+  updated_at: NOW,
+};
+
+const persona: Persona = {
+  id: "persona-brand",
+  campaign_id: "campaign-1",
+  username: "slideforge_team",
+  bio: "Official Slideforge account",
+  is_active: true,
+  is_operator: true,
+  owner_name: "Slideforge marketing team",
+  employer_relationship: "employee",
+  consent_given_at: NOW,
+  disclosure_text: "Disclosure: I work at Slideforge.",
+  profile_states_affiliation: true,
+  created_at: NOW,
+  updated_at: NOW,
+};
+
+function createSubreddit(name: string): Subreddit {
+  return {
+    id: `sub-${name}`,
+    campaign_id: "campaign-1",
+    name,
+    is_active: true,
+    rules: {},
+    created_at: NOW,
+    updated_at: NOW,
+  };
+}
+
+function createPlan(): WeeklyPlan {
+  return {
+    id: "plan-1",
+    campaign_id: "campaign-1",
+    week_start_date: "2025-12-08",
+    status: "generating",
+    plan_json: {},
+    created_at: NOW,
+    updated_at: NOW,
+  };
+}
+
+function createJob(overrides: Partial<GenerationJob> = {}): GenerationJob {
+  return {
+    id: "job-1",
+    campaign_id: "campaign-1",
+    weekly_plan_id: "plan-1",
+    status: "running",
+    subreddit_ids: [],
+    completed_posts: 0,
+    last_step: null,
+    last_post_index: null,
+    posts_generated: 0,
+    comments_generated: 0,
+    errors: [],
+    error: null,
+    cancel_requested: false,
+    created_at: NOW,
+    updated_at: NOW,
+    ...overrides,
+  };
+}
+
+function createJobRepository(jobs: GenerationJob[] = []) {
+  return createMemoryRepository({
+    campaigns: [campaign],
+    personas: [persona],
+    subreddits: [createSubreddit("powerpoint"), createSubreddit("startups")],
+    weeklyPlans: [createPlan()],
+    jobs,
+  });
+}
+
+function waitForJob(jobId: string): Promise<JobEvent> {
+  return new Promise((resolve) => {
+    const unsubscribe = subscribeToJob(jobId, (event) => {
+      if (event.type !== "progress") {
+        unsubscribe?.();
+        resolve(event);
+      }
+    });
+  });
+}
+
+describe("ensureGenerationJob", () => {
+  it("fills the plan in the background and checkpoints each post", async () => {
+    const repository = createJobRepository();
+
+    const job = await ensureGenerationJob("plan-1", repository);
+    const event = await waitForJob(job.id);
+
+    expect(event.type).toBe("complete");
+    const saved = await repository.jobs.get(job.id);
+    expect(saved?.status).toBe("completed");
+    expect(saved?.subreddit_ids).toHaveLength(3);
+    expect(saved?.completed_posts).toBe(3);
+    expect(saved?.posts_generated).toBe(3);
+    expect(saved?.last_step).toBe("persist");
+    expect(repository.tables.weeklyPlans[0].status).toBe("in_review");
+  });
+
+  it("resumes an interrupted job after its last completed post", async () => {
+    const repository = createJobRepository([
+      createJob({
+        subreddit_ids: ["sub-powerpoint", "sub-startups", "sub-powerpoint"],
+        completed_posts: 1,
+        posts_generated: 1,
+        comments_generated: 2,
+      }),
+    ]);
+
+    const job = await ensureGenerationJob("plan-1", repository);
+    const event = await waitForJob(job.id);
+
+    expect(job.id).toBe("job-1");
+    expect(event.type === "complete" && event.result.postsGenerated).toBe(3);
+    expect(repository.tables.posts.map((p) => p.subreddit_name)).toEqual([
+      "startups",
+      "powerpoint",
+    ]);
+  });
+
+  it("marks the job and its plan failed when the run stops on an error", async () => {
+    const repository = createJobRepository();
+    repository.campaigns.get = async () => {
+      throw new Error("connection lost");
+    };
+
+    const job = await ensureGenerationJob("plan-1", repository);
+    const event = await waitForJob(job.id);
+
+    expect(event).toEqual({ type: "error", error: "connection lost" });
+    expect(repository.tables.jobs[0].status).toBe("failed");
+    expect(repository.tables.jobs[0].error).toBe("connection lost");
+    expect(repository.tables.jobs[0].errors).toEqual([]);
+    expect(repository.tables.weeklyPlans[0].status).toBe("failed");
+    expect(repository.tables.weeklyPlans[0].plan_json.error).toBe(
+      "connection lost"
+    );
+    await expect(ensureGenerationJob("plan-1", repository)).rejects.toThrow(
+      "Weekly plan is not in generating status"
+    );
+  });
+});
+
+describe("cancelGenerationJob", () => {
+  it("stops a running job before its next post", async () => {
+    const repository = createJobRepository();
+    const createWithComments = repository.posts.createWithComments;
+    repository.posts.createWithComments = async (post, comments) => {
+      const saved = await createWithComments(post, comments);
+      await cancelGenerationJob(repository.tables.jobs[0].id, repository);
+      return saved;
+    };
+
+    const job = await ensureGenerationJob("plan-1", repository);
+    const event = await waitForJob(job.id);
+
+    expect(event.type === "complete" && event.result.cancelled).toBe(true);
+    expect(repository.tables.posts).toHaveLength(1);
+    expect(repository.tables.jobs[0].status).toBe("cancelled");
+    expect(repository.tables.weeklyPlans[0].status).toBe("cancelled");
+  });
+
+  it("closes a failed job and marks its plan cancelled", async () => {
+    const repository = createJobRepository([
+      createJob({ status: "failed", posts_generated: 2 }),
+    ]);
+
+    const job = await cancelGenerationJob("job-1", repository);
+
+    expect(job.status).toBe("cancelled");
+    expect(repository.tables.weeklyPlans[0].status).toBe("cancelled");
+    expect(repository.tables.weeklyPlans[0].plan_json.posts_count).toBe(2);
+  });
+});
+
+describe("resumeGenerationJob", () => {
+  it("finishes in review when a failed run resumes and succeeds", async () => {
+    const repository = createJobRepository();
+    const getCampaign = repository.campaigns.get;
+    repository.campaigns.get = async () => {
+      throw new Error("connection lost");
+    };
+
+    const job = await ensureGenerationJob("plan-1", repository);
+    await waitForJob(job.id);
+    // Let the failed run finish closing before resuming it
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    repository.campaigns.get = getCampaign;
+
+    await resumeGenerationJob(job.id, repository);
+    const event = await waitForJob(job.id);
+
+    expect(event.type === "complete" && event.result.errors).toEqual([]);
+    expect(repository.tables.jobs[0].status).toBe("completed");
+    expect(repository.tables.jobs[0].error).toBeNull();
+    expect(repository.tables.weeklyPlans[0].status).toBe("in_review");
+    expect(repository.tables.weeklyPlans[0].plan_json.error).toBeUndefined();
+  });
+
+  it("closes an interrupted job that was asked to stop instead of rerunning it", async () => {
+    const repository = createJobRepository([
+      createJob({ cancel_requested: true, posts_generated: 1 }),
+    ]);
+
+    const job = await resumeGenerationJob("job-1", repository);
+
+    expect(job.status).toBe("cancelled");
+    expect(subscribeToJob("job-1", () => {})).toBeNull();
+    expect(repository.tables.posts).toHaveLength(0);
+    expect(repository.tables.weeklyPlans[0].status).toBe("cancelled");
+    expect(repository.tables.weeklyPlans[0].plan_json.posts_count).toBe(1);
+  });
+});
+
+describe("subscribeToJob", () => {
+  it("replays how a finished job ended without keeping the listener", async () => {
+    const repository = createJobRepository();
+    const job = await ensureGenerationJob("plan-1", repository);
+
+    const replayed: JobEvent[] = [];
+    const late = await new Promise<(() => void) | null>((resolve) => {
+      const unsubscribe = subscribeToJob(job.id, (event) => {
+        if (event.type === "progress") return;
+        unsubscribe?.();
+        resolve(subscribeToJob(job.id, (e) => replayed.push(e)));
+      });
+    });
+
+    expect(late).toBeTypeOf("function");
+    expect(replayed.filter((e) => e.type !== "progress")).toEqual([
+      expect.objectContaining({ type: "complete" }),
+    ]);
+  });
+});
@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { selectPostAuthor, selectCommenters } from "../persona-selector";
+import {
+  selectPostAuthor,
+  selectCommenters,
+  isCoordinatedInteraction,
+  getMissingAccountDetails,
+} from "../persona-selector";
 import { Persona, Subreddit, PlannedPost, PlannedComment } from "../../types";
 
 function createPersona(
@@ -13,6 +18,11 @@ function createPersona(
     bio: options.bio || `I'm ${username}, a regular user`,
     is_active: options.isActive ?? true,
     is_operator: options.isOperator ?? false,
+    owner_name: "Slideforge marketing team",
+    employer_relationship: "employee",
+    consent_given_at: new Date().toISOString(),
+    disclosure_text: "Disclosure: I work at Slideforge.",
+    profile_states_affiliation: true,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
   };
@@ -24,6 +34,7 @@ function createSubreddit(name: string): Subreddit {
     campaign_id: "campaign-1",
     name,
     is_active: true,
+    rules: {},
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
   };
@@ -43,8 +54,21 @@ function createPost(authorId: string): PlannedPost {
     topic_key: "test-topic",
     scheduled_at: new Date().toISOString(),
     quality_score: 0.7,
-    risk_score: 0.2,
+    compliance_score: 1,
+    compliance_report: [],
     dedupe_hash: "hash",
+    flair: null,
+    rule_report: [],
+    review_status: "in_review",
+    reviewed_by: null,
+    reviewed_at: null,
+    review_note: null,
+    legal_approved_by: null,
+    legal_approved_at: null,
+    outcome: null,
+    outcome_note: null,
+    outcome_recorded_by: null,
+    outcome_recorded_at: null,
     notes: null,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
@@ -59,8 +83,13 @@ function createComment(authorId: string, postId: string): PlannedComment {
     author_persona_id: authorId,
     reply_to_comment_id: null,
     comment_text: "Test comment",
+    anticipated_question: null,
     scheduled_at: new Date().toISOString(),
     quality_score: 0.7,
+    review_status: "in_review",
+    reviewed_by: null,
+    reviewed_at: null,
+    review_note: null,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
   };
@@ -185,6 +214,57 @@ describe("selectPostAuthor", () => {
       expect(result?.persona.username).toBe("active_user");
     });
   });
+
+  describe("account verification", () => {
+    it("never assigns a post to an account missing its details", () => {
+      const personas = [
+        {
+          ...createPersona("riley_ops", { isOperator: true }),
+          consent_given_at: null,
+        },
+        { ...createPersona("jordan_consults"), disclosure_text: " " },
+        createPersona("emily_econ"),
+      ];
+      const subreddit = createSubreddit("powerpoint");
+
+      for (let i = 0; i < 10; i++) {
+        const result = selectPostAuthor(personas, subreddit, [], []);
+        expect(result?.persona.username).toBe("emily_econ");
+      }
+    });
+
+    it("returns null when no account is verified", () => {
+      const personas = [
+        { ...createPersona("riley_ops"), profile_states_affiliation: false },
+      ];
+
+      expect(
+        selectPostAuthor(personas, createSubreddit("powerpoint"), [], [])
+      ).toBeNull();
+    });
+  });
+});
+
+describe("getMissingAccountDetails", () => {
+  it("lists every missing detail", () => {
+    const persona = {
+      ...createPersona("riley_ops"),
+      owner_name: null,
+      employer_relationship: null,
+      consent_given_at: null,
+      disclosure_text: null,
+      profile_states_affiliation: false,
+    };
+
+    expect(getMissingAccountDetails(persona)).toEqual([
+      "owner",
+      "employer relationship",
+      "consent",
+      "disclosure text",
+      "affiliation on profile",
+    ]);
+    expect(getMissingAccountDetails(createPersona("emily_econ"))).toEqual([]);
+  });
 });
 
 describe("selectCommenters", () => {
@@ -247,8 +327,8 @@ describe("selectCommenters", () => {
     });
   });
 
-  describe("natural comment counts", () => {
-    it("returns 2-4 commenters for natural conversation", () => {
+  describe("same-campaign coordination", () => {
+    it("never selects another persona from the author's campaign", () => {
       const personas = [
         createPersona("riley_ops"),
         createPersona("jordan_consults"),
@@ -257,7 +337,6 @@ describe("selectCommenters", () => {
         createPersona("priya_pm"),
       ];
 
-      // Run multiple times to check the range
       for (let i = 0; i < 10; i++) {
         const result = selectCommenters(
           personas,
@@ -267,11 +346,44 @@ describe("selectCommenters", () => {
           5
         );
 
-        // Should have reasonable number of commenters
-        expect(result.length).toBeGreaterThanOrEqual(2);
-        expect(result.length).toBeLessThanOrEqual(5);
+        expect(result.every((r) => r.persona.id === "persona-riley_ops")).toBe(
+          true
+        );
       }
     });
+
+    it("selects the post author to reply in its own thread", () => {
+      const personas = [
+        createPersona("riley_ops"),
+        createPersona("jordan_consults"),
+      ];
+
+      const result = selectCommenters(personas, "persona-riley_ops", [], [], 3);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].persona.username).toBe("riley_ops");
+      expect(result[0].reason).toBe("author_reply");
+    });
+
+    it("allows personas from a different campaign", () => {
+      const outsider = {
+        ...createPersona("outside_user"),
+        campaign_id: "campaign-2",
+      };
+      const personas = [createPersona("riley_ops"), outsider];
+
+      const result = selectCommenters(personas, "persona-riley_ops", [], [], 3);
+
+      expect(result.some((r) => r.persona.id === outsider.id)).toBe(true);
+    });
+
+    it("selects nobody when the post author is unknown", () => {
+      const personas = [createPersona("jordan_consults")];
+
+      const result = selectCommenters(personas, "persona-missing", [], [], 3);
+
+      expect(result).toHaveLength(0);
+    });
   });
 
   describe("edge cases", () => {
@@ -296,3 +408,31 @@ describe("selectCommenters", () => {
     });
   });
 });
+
+describe("isCoordinatedInteraction", () => {
+  it("flags another persona from the same campaign", () => {
+    expect(
+      isCoordinatedInteraction(
+        createPersona("riley_ops"),
+        createPersona("jordan_consults")
+      )
+    ).toBe(true);
+  });
+
+  it("allows the post author in its own thread", () => {
+    const riley = createPersona("riley_ops");
+
+    expect(isCoordinatedInteraction(riley, riley)).toBe(false);
+  });
+
+  it("allows personas from a different campaign", () => {
+    const outsider = {
+      ...createPersona("outside_user"),
+      campaign_id: "campaign-2",
+    };
+
+    expect(isCoordinatedInteraction(createPersona("riley_ops"), outsider)).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,453 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../../supabase", () => ({
+  supabase: {},
+}));
+
+import {
+  approveLegal,
+  assertCanResubmit,
+  canTransition,
+  isPlanApproved,
+  recordOutcome,
+  reviewErrorStatus,
+  reviewPlanItem,
+  ReviewConflictError,
+  ReviewNotFoundError,
+} from "../review";
+import { createMemoryRepository } from "../../repository";
+import {
+  PlannedComment,
+  PlannedPost,
+  ReviewStatus,
+  WeeklyPlan,
+  WeeklyPlanStatus,
+} from "../../types";
+
+function createItem(status: ReviewStatus, reviewedBy: string | null = "Sam") {
+  return { review_status: status, reviewed_by: reviewedBy };
+}
+
+const NOW = "2025-12-01T00:00:00.000Z";
+const REVIEW_FIELDS = {
+  review_status: "in_review" as ReviewStatus,
+  reviewed_by: null,
+  reviewed_at: null,
+  review_note: null,
+  created_at: NOW,
+  updated_at: NOW,
+};
+
+function createPlanRepository(
+  status: WeeklyPlanStatus = "in_review",
+  planJson: WeeklyPlan["plan_json"] = {}
+) {
+  const plan: WeeklyPlan = {
+    id: "plan-1",
+    campaign_id: "campaign-1",
+    week_start_date: "2025-12-08",
+    status,
+    plan_json: planJson,
+    created_at: NOW,
+    updated_at: NOW,
+  };
+  const post: PlannedPost = {
+    ...REVIEW_FIELDS,
+    id: "post-1",
+    campaign_id: "campaign-1",
+    weekly_plan_id: "plan-1",
+    subreddit_name: "powerpoint",
+    author_persona_id: "persona-1",
+    post_type: "post",
+    title: "Title",
+    body: "Body",
+    target_keyword_codes: [],
+    topic_key: "topic",
+    scheduled_at: "2025-12-08T10:00:00.000Z",
+    quality_score: 1,
+    compliance_score: 1,
+    compliance_report: [],
+    dedupe_hash: "hash",
+    flair: null,
+    rule_report: [],
+    legal_approved_by: null,
+    legal_approved_at: null,
+    outcome: null,
+    outcome_note: null,
+    outcome_recorded_by: null,
+    outcome_recorded_at: null,
+    notes: null,
+  };
+  const comment: PlannedComment = {
+    ...REVIEW_FIELDS,
+    id: "comment-1",
+    campaign_id: "campaign-1",
+    planned_post_id: "post-1",
+    author_persona_id: "persona-1",
+    reply_to_comment_id: null,
+    comment_text: "Reply",
+    anticipated_question: null,
+    scheduled_at: "2025-12-08T11:00:00.000Z",
+    quality_score: 1,
+  };
+
+  return createMemoryRepository({
+    weeklyPlans: [plan],
+    posts: [post],
+    comments: [comment],
+  });
+}
+
+function approve(itemType: "post" | "comment", itemId: string) {
+  return {
+    itemType,
+    itemId,
+    status: "approved" as const,
+    reviewer: "Sam",
+    note: null,
+  };
+}
+
+describe("canTransition", () => {
+  it("allows approving or rejecting items in review", () => {
+    expect(canTransition("in_review", "approved")).toBe(true);
+    expect(canTransition("in_review", "rejected")).toBe(true);
+  });
+
+  it("does not allow approving rejected items directly", () => {
+    expect(canTransition("rejected", "approved")).toBe(false);
+  });
+
+  it("sends rejected items back to review", () => {
+    expect(canTransition("rejected", "in_review")).toBe(true);
+    expect(() => assertCanResubmit("rejected")).not.toThrow();
+    expect(() => assertCanResubmit("in_review")).not.toThrow();
+  });
+
+  it("returns approved items to review but not straight to rejected", () => {
+    expect(canTransition("approved", "in_review")).toBe(true);
+    expect(canTransition("approved", "rejected")).toBe(false);
+  });
+});
+
+describe("isPlanApproved", () => {
+  it("is true when every post and comment is approved", () => {
+    expect(
+      isPlanApproved(
+        [createItem("approved"), createItem("approved")],
+        [createItem("approved")]
+      )
+    ).toBe(true);
+  });
+
+  it("is false while any comment is still in review", () => {
+    expect(
+      isPlanApproved([createItem("approved")], [createItem("in_review")])
+    ).toBe(false);
+  });
+
+  it("is false when an item was rejected", () => {
+    expect(isPlanApproved([createItem("rejected")], [])).toBe(false);
+  });
+
+  it("is false when an approval has no named reviewer", () => {
+    expect(isPlanApproved([createItem("approved", "  ")], [])).toBe(false);
+  });
+
+  it("is false for a plan without posts", () => {
+    expect(isPlanApproved([], [])).toBe(false);
+  });
+});
+
+describe("reviewPlanItem", () => {
+  it("records the reviewer and keeps the plan in review until all items are approved", async () => {
+    const repository = createPlanRepository();
+
+    const result = await reviewPlanItem(
+      "campaign-1",
+      "plan-1",
+      approve("post", "post-1"),
+      repository
+    );
+
+    expect(result.item.review_status).toBe("approved");
+    expect(result.item.reviewed_by).toBe("Sam");
+    expect(result.previous.review_status).toBe("in_review");
+    expect(result.planStatus).toBe("in_review");
+  });
+
+  it("marks the plan ready once the last item is approved", async () => {
+    const repository = createPlanRepository();
+
+    await reviewPlanItem(
+      "campaign-1",
+      "plan-1",
+      approve("post", "post-1"),
+      repository
+    );
+    const result = await reviewPlanItem(
+      "campaign-1",
+      "plan-1",
+      approve("comment", "comment-1"),
+      repository
+    );
+
+    expect(result.planStatus).toBe("ready");
+    expect(repository.tables.weeklyPlans[0].status).toBe("ready");
+  });
+
+  it("rejects plans from another campaign", async () => {
+    const review = reviewPlanItem(
+      "campaign-2",
+      "plan-1",
+      approve("post", "post-1"),
+      createPlanRepository()
+    );
+
+    await expect(review).rejects.toThrow("Weekly plan not found");
+    await expect(review).rejects.toBeInstanceOf(ReviewNotFoundError);
+  });
+
+  it("does not allow approving an item twice", async () => {
+    const repository = createPlanRepository();
+    await reviewPlanItem(
+      "campaign-1",
+      "plan-1",
+      approve("post", "post-1"),
+      repository
+    );
+
+    const review = reviewPlanItem(
+      "campaign-1",
+      "plan-1",
+      approve("post", "post-1"),
+      repository
+    );
+
+    await expect(review).rejects.toThrow(
+      "Cannot change a post from approved to approved"
+    );
+    await expect(review).rejects.toBeInstanceOf(ReviewConflictError);
+  });
+
+  it("keeps a partially failed plan's status until every item is approved", async () => {
+    const repository = createPlanRepository("partially_failed", {
+      errors: ["Failed to save post for startups: insert failed"],
+    });
+
+    const first = await reviewPlanItem(
+      "campaign-1",
+      "plan-1",
+      approve("post", "post-1"),
+      repository
+    );
+    const last = await reviewPlanItem(
+      "campaign-1",
+      "plan-1",
+      approve("comment", "comment-1"),
+      repository
+    );
+
+    expect(first.planStatus).toBe("partially_failed");
+    expect(last.planStatus).toBe("ready");
+  });
+
+  it("does not allow reviewing a plan whose generation failed", async () => {
+    await expect(
+      reviewPlanItem(
+        "campaign-1",
+        "plan-1",
+        approve("post", "post-1"),
+        createPlanRepository("failed")
+      )
+    ).rejects.toThrow("Cannot review a plan whose generation failed");
+  });
+});
+
+describe("reviewErrorStatus", () => {
+  it("maps missing items to 404, invalid changes to 409 and failed writes to 500", async () => {
+    const repository = createPlanRepository();
+    repository.posts.updateReview = async () => {
+      throw new Error("connection lost");
+    };
+
+    const failedWrite = await reviewPlanItem(
+      "campaign-1",
+      "plan-1",
+      approve("post", "post-1"),
+      repository
+    ).catch((err) => err);
+
+    expect(reviewErrorStatus(new ReviewNotFoundError("missing"))).toBe(404);
+    expect(reviewErrorStatus(new ReviewConflictError("not allowed"))).toBe(409);
+    expect(failedWrite.message).toBe("Failed to update post: connection lost");
+    expect(reviewErrorStatus(failedWrite)).toBe(500);
+  });
+});
+
+describe("approveLegal", () => {
+  function createComparativeRepository() {
+    const repository = createPlanRepository();
+    repository.tables.posts[0].compliance_report = [
+      {
+        check: "competitor_mentions",
+        passed: false,
+        blocking: false,
+        detail:
+          'Needs legal approval for comparisons: u/brand: "Faster than Canva"',
+      },
+    ];
+    return repository;
+  }
+
+  it("holds back approval of a comparative thread until legal signs off", async () => {
+    const repository = createComparativeRepository();
+
+    await expect(
+      reviewPlanItem(
+        "campaign-1",
+        "plan-1",
+        approve("comment", "comment-1"),
+        repository
+      )
+    ).rejects.toThrow(
+      "needs legal approval before the comment can be approved"
+    );
+
+    const legal = await approveLegal(
+      "campaign-1",
+      "plan-1",
+      { postId: "post-1", approver: "Dana (Legal)" },
+      repository
+    );
+    const result = await reviewPlanItem(
+      "campaign-1",
+      "plan-1",
+      approve("post", "post-1"),
+      repository
+    );
+
+    expect(legal.item.legal_approved_by).toBe("Dana (Legal)");
+    expect(legal.previous.legal_approved_by).toBeNull();
+    expect(result.item.review_status).toBe("approved");
+  });
+
+  it("refuses posts without comparisons", async () => {
+    await expect(
+      approveLegal(
+        "campaign-1",
+        "plan-1",
+        { postId: "post-1", approver: "Dana (Legal)" },
+        createPlanRepository()
+      )
+    ).rejects.toThrow("no comparisons that need legal approval");
+  });
+
+  it("clears the legal approval when a reply is revised", async () => {
+    const repository = createComparativeRepository();
+    await approveLegal(
+      "campaign-1",
+      "plan-1",
+      { postId: "post-1", approver: "Dana (Legal)" },
+      repository
+    );
+
+    const { post } = await repository.comments.revise(
+      "comment-1",
+      {
+        comment_text: "Faster than Canva, per our benchmark",
+        quality_score: 1,
+      },
+      { created_by: "Sam" },
+      {
+        quality_score: 1,
+        compliance_score: 0.9,
+        compliance_report: repository.tables.posts[0].compliance_report,
+        rule_report: [],
+      }
+    );
+
+    expect(post.legal_approved_by).toBeNull();
+    expect(post.legal_approved_at).toBeNull();
+  });
+});
+
+describe("recordOutcome", () => {
+  function createApprovedRepository() {
+    const repository = createPlanRepository();
+    repository.tables.posts[0].review_status = "approved";
+    repository.tables.subreddits.push({
+      id: "sub-1",
+      campaign_id: "campaign-1",
+      name: "powerpoint",
+      is_active: true,
+      rules: {},
+      created_at: NOW,
+      updated_at: NOW,
+    });
+    return repository;
+  }
+
+  it("records a live post without pausing its community", async () => {
+    const repository = createApprovedRepository();
+
+    const result = await recordOutcome(
+      "campaign-1",
+      "plan-1",
+      { postId: "post-1", outcome: "live", note: null, recorder: "Sam" },
+      repository
+    );
+
+    expect(result.item.outcome).toBe("live");
+    expect(result.item.outcome_recorded_by).toBe("Sam");
+    expect(result.previous.outcome).toBeNull();
+    expect(result.pausedSubreddit).toBeNull();
+    expect(repository.tables.subreddits[0].is_active).toBe(true);
+  });
+
+  it.each(["removed_by_mods", "removed_by_admins", "warned"] as const)(
+    "pauses the community when the post is %s",
+    async (outcome) => {
+      const repository = createApprovedRepository();
+
+      const result = await recordOutcome(
+        "campaign-1",
+        "plan-1",
+        { postId: "post-1", outcome, note: "Rule 3", recorder: "Sam" },
+        repository
+      );
+
+      expect(result.item.outcome_note).toBe("Rule 3");
+      expect(result.pausedSubreddit?.name).toBe("powerpoint");
+      expect(result.pausedSubreddit?.is_active).toBe(false);
+      expect(repository.tables.subreddits[0].is_active).toBe(false);
+      expect(await repository.subreddits.listActive("campaign-1")).toEqual([]);
+    }
+  );
+
+  it("reports no pause when the community is already inactive", async () => {
+    const repository = createApprovedRepository();
+    repository.tables.subreddits[0].is_active = false;
+
+    const result = await recordOutcome(
+      "campaign-1",
+      "plan-1",
+      { postId: "post-1", outcome: "warned", note: null, recorder: "Sam" },
+      repository
+    );
+
+    expect(result.item.outcome).toBe("warned");
+    expect(result.pausedSubreddit).toBeNull();
+  });
+
+  it("refuses posts that aren't approved", async () => {
+    await expect(
+      recordOutcome(
+        "campaign-1",
+        "plan-1",
+        { postId: "post-1", outcome: "live", note: null, recorder: "Sam" },
+        createPlanRepository()
+      )
+    ).rejects.toThrow("Only approved posts can have an outcome recorded");
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeClosedWeek,
+  findBlackout,
+  fitToPostingWindow,
+  getOpenDays,
+  schedulePost,
+} from "../scheduler";
+import { postingScheduleSchema } from "../../validations";
+import { PostingSchedule } from "../../types";
+
+// Monday, December 8, 2025
+const WEEK = new Date("2025-12-08T00:00:00Z");
+
+const dates = (days: Date[]) => days.map((d) => d.toISOString().split("T")[0]);
+
+describe("getOpenDays", () => {
+  it("keeps allowed weekdays that aren't blacked out", () => {
+    const schedule: PostingSchedule = {
+      days: [1, 2, 3, 4, 5],
+      blackouts: [
+        { start_date: "2025-12-10", end_date: "2025-12-11", reason: "Launch" },
+      ],
+    };
+
+    expect(dates(getOpenDays(WEEK, schedule))).toEqual([
+      "2025-12-08",
+      "2025-12-09",
+      "2025-12-12",
+    ]);
+    expect(
+      findBlackout(new Date("2025-12-11T00:00:00Z"), schedule.blackouts)
+    ).toMatchObject({ reason: "Launch" });
+  });
+
+  it("opens every day by default", () => {
+    expect(getOpenDays(WEEK, {})).toHaveLength(7);
+  });
+});
+
+describe("schedulePost", () => {
+  it("spreads posts over open days inside the posting hours", () => {
+    const schedule: PostingSchedule = {
+      days: [2, 4],
+      start_hour: 13,
+      end_hour: 15,
+    };
+
+    const earliest = schedulePost(
+      WEEK,
+      0,
+      2,
+      schedule,
+      "America/New_York",
+      () => 0
+    );
+    const latest = schedulePost(
+      WEEK,
+      1,
+      2,
+      schedule,
+      "America/New_York",
+      () => 0.9999
+    );
+
+    // 13:00 and 14:59 in New York (UTC-5)
+    expect(earliest?.toISOString()).toBe("2025-12-09T18:00:00.000Z");
+    expect(latest?.toISOString()).toBe("2025-12-11T19:59:00.000Z");
+  });
+
+  it("returns null when the whole week is blacked out", () => {
+    const schedule: PostingSchedule = {
+      days: [1, 2, 3, 4, 5],
+      blackouts: [
+        { start_date: "2025-12-06", end_date: "2025-12-12", reason: "Holiday" },
+      ],
+    };
+
+    expect(schedulePost(WEEK, 0, 3, schedule, "UTC")).toBeNull();
+    expect(describeClosedWeek(WEEK, schedule)).toBe(
+      "every allowed day (Mon, Tue, Wed, Thu, Fri) is blacked out: Holiday"
+    );
+  });
+});
+
+describe("fitToPostingWindow", () => {
+  const schedule: PostingSchedule = {
+    days: [1, 2, 3, 4, 5],
+    start_hour: 9,
+    end_hour: 17,
+    blackouts: [
+      { start_date: "2025-12-15", end_date: "2025-12-15", reason: "Offsite" },
+    ],
+  };
+  const fit = (iso: string) =>
+    fitToPostingWindow(
+      new Date(iso),
+      schedule,
+      "America/New_York"
+    ).toISOString();
+
+  it("keeps times inside the window", () => {
+    // Tuesday 12:30 in New York
+    expect(fit("2025-12-09T17:30:00.000Z")).toBe("2025-12-09T17:30:00.000Z");
+  });
+
+  it("moves early times to the window's start the same day", () => {
+    // Tuesday 07:00 in New York
+    expect(fit("2025-12-09T12:00:00.000Z")).toBe("2025-12-09T14:00:00.000Z");
+  });
+
+  it("moves late times past weekends and blackouts to the next open day", () => {
+    // Friday 17:20 in New York; Monday is blacked out
+    expect(fit("2025-12-12T22:20:00.000Z")).toBe("2025-12-16T14:00:00.000Z");
+  });
+});
+
+describe("postingScheduleSchema", () => {
+  it("rejects an empty window and blackouts that end before they start", () => {
+    expect(
+      postingScheduleSchema.safeParse({ start_hour: 18, end_hour: 9 }).success
+    ).toBe(false);
+    expect(
+      postingScheduleSchema.safeParse({
+        blackouts: [
+          { start_date: "2025-12-10", end_date: "2025-12-09", reason: "" },
+        ],
+      }).success
+    ).toBe(false);
+  });
+});
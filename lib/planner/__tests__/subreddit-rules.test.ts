@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import {
+  allowsVendorParticipation,
+  isPromotional,
+  checkSubredditRules,
+  countPromotionalPosts,
+} from "../subreddit-rules";
+import { Subreddit, SubredditRules, PlannedPost } from "../../types";
+
+function createSubreddit(name: string, rules: SubredditRules = {}): Subreddit {
+  return {
+    id: `sub-${name}`,
+    campaign_id: "campaign-1",
+    name,
+    is_active: true,
+    rules,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+function createPost(subredditName: string, body: string): PlannedPost {
+  return {
+    id: `post-${Math.random()}`,
+    campaign_id: "campaign-1",
+    weekly_plan_id: "plan-1",
+    subreddit_name: subredditName,
+    author_persona_id: "persona-1",
+    post_type: "post",
+    title: "Test Post",
+    body,
+    target_keyword_codes: [],
+    topic_key: "test-topic",
+    scheduled_at: new Date().toISOString(),
+    quality_score: 0.7,
+    compliance_score: 1,
+    compliance_report: [],
+    dedupe_hash: "hash",
+    flair: null,
+    rule_report: [],
+    review_status: "in_review",
+    reviewed_by: null,
+    reviewed_at: null,
+    review_note: null,
+    legal_approved_by: null,
+    legal_approved_at: null,
+    outcome: null,
+    outcome_note: null,
+    outcome_recorded_by: null,
+    outcome_recorded_at: null,
+    notes: null,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+const disclosure = "Disclosure: I work at Slideforge.";
+const post = {
+  title: "Best AI presentation maker?",
+  body: "Looking for something that makes editable slides.",
+  topic: "AI slide tools",
+  flair: null,
+};
+
+describe("allowsVendorParticipation", () => {
+  it("allows communities without a recorded rule", () => {
+    expect(allowsVendorParticipation(createSubreddit("powerpoint"))).toBe(true);
+  });
+
+  it("rejects communities that forbid vendor posts", () => {
+    expect(
+      allowsVendorParticipation(
+        createSubreddit("powerpoint", { allows_disclosed_vendor_posts: false })
+      )
+    ).toBe(false);
+  });
+});
+
+describe("isPromotional", () => {
+  it("ignores product names inside the disclosure", () => {
+    expect(
+      isPromotional(`Any tips?\n\n${disclosure}`, ["Slideforge"], disclosure)
+    ).toBe(false);
+  });
+
+  it("flags product mentions outside the disclosure", () => {
+    expect(
+      isPromotional(
+        `Slideforge does this well.\n\n${disclosure}`,
+        ["Slideforge"],
+        disclosure
+      )
+    ).toBe(true);
+  });
+});
+
+describe("checkSubredditRules", () => {
+  it("only reports the vendor rule when nothing else is recorded", () => {
+    const report = checkSubredditRules(createSubreddit("powerpoint"), post, {
+      promotional: 0,
+      total: 1,
+    });
+
+    expect(report).toHaveLength(1);
+    expect(report[0].rule).toBe("vendor_participation");
+    expect(report[0].passed).toBe(true);
+  });
+
+  it("fails the self-promotion ratio when over the limit", () => {
+    const subreddit = createSubreddit("powerpoint", {
+      max_self_promotion_ratio: 0.1,
+    });
+
+    const report = checkSubredditRules(subreddit, post, {
+      promotional: 1,
+      total: 2,
+    });
+    const ratio = report.find((r) => r.rule === "self_promotion_ratio");
+
+    expect(ratio?.passed).toBe(false);
+    expect(ratio?.detail).toContain("limit 10%");
+  });
+
+  it("passes required flair when the post has it", () => {
+    const subreddit = createSubreddit("powerpoint", {
+      required_flair: "Question",
+    });
+
+    const report = checkSubredditRules(
+      subreddit,
+      { ...post, flair: "question" },
+      { promotional: 0, total: 1 }
+    );
+
+    expect(report.find((r) => r.rule === "required_flair")?.passed).toBe(true);
+  });
+
+  it("fails required flair when the post is missing it", () => {
+    const subreddit = createSubreddit("powerpoint", {
+      required_flair: "Question",
+    });
+
+    const report = checkSubredditRules(subreddit, post, {
+      promotional: 0,
+      total: 1,
+    });
+
+    expect(report.find((r) => r.rule === "required_flair")?.passed).toBe(false);
+  });
+
+  it("fails banned topics mentioned in the post", () => {
+    const subreddit = createSubreddit("powerpoint", {
+      banned_topics: ["AI slide", "giveaway"],
+    });
+
+    const report = checkSubredditRules(subreddit, post, {
+      promotional: 0,
+      total: 1,
+    });
+    const banned = report.find((r) => r.rule === "banned_topics");
+
+    expect(banned?.passed).toBe(false);
+    expect(banned?.detail).toContain("AI slide");
+  });
+});
+
+describe("countPromotionalPosts", () => {
+  it("counts promotional and total posts per subreddit", () => {
+    const counts = countPromotionalPosts(
+      [
+        createPost("powerpoint", "Slideforge is neat"),
+        createPost("powerpoint", `Any tips? ${disclosure}`),
+        createPost("consulting", "What do you use?"),
+      ],
+      ["Slideforge"],
+      disclosure
+    );
+
+    expect(counts.get("powerpoint")).toEqual({ promotional: 1, total: 2 });
+    expect(counts.get("consulting")).toEqual({ promotional: 0, total: 1 });
+  });
+});
@@ -8,6 +8,7 @@ function createSubreddit(name: string, isActive = true): Subreddit {
     campaign_id: "campaign-1",
     name,
     is_active: isActive,
+    rules: {},
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
   };
@@ -27,8 +28,21 @@ function createPost(subredditName: string): PlannedPost {
     topic_key: "test-topic",
     scheduled_at: new Date().toISOString(),
     quality_score: 0.7,
-    risk_score: 0.2,
+    compliance_score: 1,
+    compliance_report: [],
     dedupe_hash: "hash",
+    flair: null,
+    rule_report: [],
+    review_status: "in_review",
+    reviewed_by: null,
+    reviewed_at: null,
+    review_note: null,
+    legal_approved_by: null,
+    legal_approved_at: null,
+    outcome: null,
+    outcome_note: null,
+    outcome_recorded_by: null,
+    outcome_recorded_at: null,
     notes: null,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
@@ -85,7 +99,7 @@ describe("selectSubredditsForWeek", () => {
 
       // With 6 posts and 3 subreddits, each should have ~2 posts
       // No subreddit should have more than 3 (would be unbalanced)
-      for (const [name, count] of postCounts) {
+      for (const count of postCounts.values()) {
         expect(count).toBeLessThanOrEqual(3);
         expect(count).toBeGreaterThanOrEqual(1);
       }
@@ -126,6 +140,35 @@ describe("selectSubredditsForWeek", () => {
     });
   });
 
+  describe("community rules", () => {
+    it("skips subreddits that forbid vendor participation", () => {
+      const subreddits = [
+        {
+          ...createSubreddit("powerpoint"),
+          rules: { allows_disclosed_vendor_posts: false },
+        },
+        createSubreddit("consulting"),
+      ];
+
+      const result = selectSubredditsForWeek(subreddits, 4, []);
+
+      expect(result.every((r) => r.subreddit.name === "consulting")).toBe(true);
+    });
+
+    it("throws error when every active subreddit forbids vendors", () => {
+      const subreddits = [
+        {
+          ...createSubreddit("powerpoint"),
+          rules: { allows_disclosed_vendor_posts: false },
+        },
+      ];
+
+      expect(() => selectSubredditsForWeek(subreddits, 3, [])).toThrow(
+        "No active subreddits allow vendor participation"
+      );
+    });
+  });
+
   describe("edge cases", () => {
     it("throws error when no active subreddits available", () => {
       const subreddits = [
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  getTimeZoneOffset,
+  getZonedDate,
+  isValidTimeZone,
+  startOfZonedDay,
+  toZonedIso,
+  zonedTimeToUtc,
+} from "../timezone";
+
+describe("getTimeZoneOffset", () => {
+  it("follows daylight saving time", () => {
+    expect(
+      getTimeZoneOffset(new Date("2025-12-08T15:00:00Z"), "America/New_York")
+    ).toBe(-300);
+    expect(
+      getTimeZoneOffset(new Date("2025-07-01T15:00:00Z"), "America/New_York")
+    ).toBe(-240);
+    expect(
+      getTimeZoneOffset(new Date("2025-12-08T15:00:00Z"), "Asia/Kolkata")
+    ).toBe(330);
+  });
+});
+
+describe("zonedTimeToUtc", () => {
+  it("converts 9am local to UTC on either side of a DST change", () => {
+    const nineAm = (day: number) =>
+      zonedTimeToUtc(
+        { year: 2026, month: 3, day, hour: 9, minute: 0 },
+        "America/New_York"
+      );
+
+    // Clocks in New York go forward on Sunday, March 8, 2026
+    expect(nineAm(7).toISOString()).toBe("2026-03-07T14:00:00.000Z");
+    expect(nineAm(8).toISOString()).toBe("2026-03-08T13:00:00.000Z");
+  });
+
+  it("picks the first of two repeated times when clocks go back", () => {
+    expect(
+      zonedTimeToUtc(
+        { year: 2026, month: 11, day: 1, hour: 1, minute: 30 },
+        "America/New_York"
+      ).toISOString()
+    ).toBe("2026-11-01T05:30:00.000Z");
+  });
+});
+
+describe("getZonedDate", () => {
+  it("returns the local calendar date at UTC midnight", () => {
+    const instant = new Date("2025-12-15T02:00:00Z");
+
+    expect(getZonedDate(instant, "America/New_York").toISOString()).toBe(
+      "2025-12-14T00:00:00.000Z"
+    );
+    expect(getZonedDate(instant, "Asia/Tokyo").toISOString()).toBe(
+      "2025-12-15T00:00:00.000Z"
+    );
+  });
+});
+
+describe("startOfZonedDay", () => {
+  it("returns the instant the local day starts", () => {
+    const monday = new Date("2025-12-08T00:00:00Z");
+
+    expect(startOfZonedDay(monday, "America/New_York").toISOString()).toBe(
+      "2025-12-08T05:00:00.000Z"
+    );
+    expect(startOfZonedDay(monday, "UTC").toISOString()).toBe(
+      "2025-12-08T00:00:00.000Z"
+    );
+  });
+});
+
+describe("toZonedIso", () => {
+  it("shows the wall-clock time with the zone's offset", () => {
+    const date = new Date("2025-12-08T15:00:00Z");
+    expect(toZonedIso(date, "America/New_York")).toBe(
+      "2025-12-08T10:00:00-05:00"
+    );
+    expect(toZonedIso(date, "Asia/Kolkata")).toBe("2025-12-08T20:30:00+05:30");
+    expect(toZonedIso(date, "UTC")).toBe("2025-12-08T15:00:00Z");
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA names only", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { checkVolumeCaps, toVolumeItems, VolumeItem } from "../volume-caps";
+import { PlannedComment, PlannedPost } from "../../types";
+
+function createItem(
+  day: number,
+  overrides: Partial<VolumeItem> = {}
+): VolumeItem {
+  return {
+    postId: `post-${day}`,
+    subreddit: "powerpoint",
+    authorId: "persona-1",
+    scheduledAt: new Date(Date.UTC(2025, 11, day, 15)),
+    promotional: false,
+    ...overrides,
+  };
+}
+
+const usernames = new Map([
+  ["persona-1", "slideforge_team"],
+  ["persona-2", "riley_designs"],
+]);
+
+describe("checkVolumeCaps", () => {
+  it("blocks a community that would go over its 7-day cap", () => {
+    const existing = [createItem(1), createItem(3), createItem(5)];
+
+    expect(
+      checkVolumeCaps(
+        { community: { "7d": { total: 3 } } },
+        existing,
+        [createItem(6, { postId: "" })],
+        usernames
+      )
+    ).toEqual(["r/powerpoint would have 4 items in 7 days (cap 3)"]);
+  });
+
+  it("counts windows that start before or after the new item", () => {
+    const existing = [createItem(1), createItem(10), createItem(12)];
+    const caps = { community: { "7d": { total: 2 } } };
+
+    // Dec 8 shares a 7-day window with Dec 10 and 12, but not with Dec 1
+    expect(checkVolumeCaps(caps, existing, [createItem(8)], usernames)).toEqual(
+      ["r/powerpoint would have 3 items in 7 days (cap 2)"]
+    );
+    // Dec 5 can only share a window with Dec 1 or Dec 10, never both
+    expect(checkVolumeCaps(caps, existing, [createItem(5)], usernames)).toEqual(
+      []
+    );
+  });
+
+  it("caps promotional items separately from the total", () => {
+    const existing = [
+      createItem(1, { promotional: true }),
+      createItem(2, { promotional: false }),
+    ];
+
+    expect(
+      checkVolumeCaps(
+        { account: { "30d": { total: 10, promotional: 1 } } },
+        existing,
+        [createItem(20, { promotional: true })],
+        usernames
+      )
+    ).toEqual([
+      "u/slideforge_team would have 2 promotional items in 30 days (cap 1)",
+    ]);
+  });
+
+  it("only counts an account's own items and ignores items outside the window", () => {
+    const existing = [
+      createItem(1, { authorId: "persona-2" }),
+      createItem(2, { authorId: "persona-2" }),
+    ];
+    const caps = { account: { "7d": { total: 1 } } };
+
+    expect(checkVolumeCaps(caps, existing, [createItem(3)], usernames)).toEqual(
+      []
+    );
+    expect(
+      checkVolumeCaps(
+        caps,
+        existing,
+        [createItem(20, { authorId: "persona-2" })],
+        usernames
+      )
+    ).toEqual([]);
+  });
+
+  it("allows anything when no caps are set", () => {
+    const existing = Array.from({ length: 30 }, (_, i) => createItem(i + 1));
+
+    expect(checkVolumeCaps({}, existing, [createItem(15)], usernames)).toEqual(
+      []
+    );
+  });
+});
+
+describe("toVolumeItems", () => {
+  it("counts replies against their post's community", () => {
+    const post = {
+      id: "post-1",
+      subreddit_name: "powerpoint",
+      author_persona_id: "persona-1",
+      title: "Slideforge 2.0",
+      body: "Out now",
+      scheduled_at: "2025-12-08T15:00:00.000Z",
+    } as PlannedPost;
+    const comment = {
+      planned_post_id: "post-1",
+      author_persona_id: "persona-2",
+      comment_text: "Nice",
+      scheduled_at: "2025-12-08T15:30:00.000Z",
+    } as PlannedComment;
+
+    expect(
+      toVolumeItems([post], [comment], [], ["Slideforge"], "Disclosure")
+    ).toEqual([
+      {
+        postId: "post-1",
+        subreddit: "powerpoint",
+        authorId: "persona-1",
+        scheduledAt: new Date("2025-12-08T15:00:00.000Z"),
+        promotional: true,
+      },
+      {
+        postId: "post-1",
+        subreddit: "powerpoint",
+        authorId: "persona-2",
+        scheduledAt: new Date("2025-12-08T15:30:00.000Z"),
+        promotional: false,
+      },
+    ]);
+  });
+});
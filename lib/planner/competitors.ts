@@ -0,0 +1,62 @@
+import { ComplianceCheckResult } from "../types";
+
+export interface CompetitorMention {
+  competitor: string;
+  sentence: string;
+  /** Compares the competitor with the product or with other tools */
+  comparative: boolean;
+}
+
+const COMPARISON_PATTERN =
+  /\b(vs|versus|than|unlike|compared?|comparison|alternatives?|instead|switch(ed|ing)?|beats?|better|worse|cheaper|pricier|faster|slower|easier|harder)\b/i;
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whether the sentence names any of these, as whole words in any case
+ */
+export function namesAny(sentence: string, names: string[]): boolean {
+  return names.some((name) =>
+    new RegExp(`\\b${escapeRegExp(name)}\\b`, "i").test(sentence)
+  );
+}
+
+/**
+ * Find sentences that name one of the campaign's competitors. A mention is
+ * comparative when the same sentence also names the product or uses
+ * comparison wording ("vs", "better", "cheaper than").
+ */
+export function findCompetitorMentions(
+  text: string,
+  competitors: string[],
+  productNames: string[]
+): CompetitorMention[] {
+  const names = competitors.map((c) => c.trim()).filter((c) => c.length > 0);
+  const products = productNames
+    .map((n) => n.trim())
+    .filter((n) => n.length > 0);
+
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .flatMap((sentence) =>
+      names
+        .filter((name) => namesAny(sentence, [name]))
+        .map((competitor) => ({
+          competitor,
+          sentence,
+          comparative:
+            COMPARISON_PATTERN.test(sentence) || namesAny(sentence, products),
+        }))
+    );
+}
+
+/**
+ * Whether a post's thread compares the product with competitors, which
+ * needs legal approval before the post or its replies can be approved
+ */
+export function needsLegalApproval(report: ComplianceCheckResult[]): boolean {
+  return report.some((c) => c.check === "competitor_mentions" && !c.passed);
+}
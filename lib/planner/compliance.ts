@@ -0,0 +1,200 @@
+import { Persona, RuleCheckResult, ComplianceCheckResult } from "../types";
+import { getPersonaDisclosure, hasDisclosure, isDisclosed } from "./disclosure";
+import { findCompetitorMentions } from "./competitors";
+import { isCoordinatedInteraction } from "./persona-selector";
+import { isPromotional } from "./subreddit-rules";
+import { findUnapprovedClaims, isContentClean } from "./thread-planner";
+
+interface ComplianceText {
+  author: Persona;
+  text: string;
+}
+
+interface ComplianceInput {
+  post: ComplianceText;
+  comments: ComplianceText[];
+  productNames: string[];
+  disclosure: string;
+  approvedClaims: string[];
+  competitors: string[];
+  ruleReport: RuleCheckResult[];
+  /** Volume caps the post and its replies would exceed */
+  volumeViolations: string[];
+}
+
+export interface ComplianceReport {
+  score: number;
+  blocked: boolean;
+  checks: ComplianceCheckResult[];
+}
+
+/**
+ * Evaluate a planned post and its replies against platform policy.
+ *
+ * Blocking checks (disclosure, undisclosed product mentions, one operator
+ * posing as several users, self-promotion ratio, volume caps) must all pass
+ * before the post can be saved. Comparisons with competitors are saved but
+ * need legal approval during review (see `needsLegalApproval`). The score
+ * is the share of checks passed, so non-blocking warnings still lower it.
+ */
+export function evaluateCompliance(input: ComplianceInput): ComplianceReport {
+  const {
+    post,
+    comments,
+    productNames,
+    disclosure,
+    approvedClaims,
+    competitors,
+    ruleReport,
+    volumeViolations,
+  } = input;
+  const texts = [post, ...comments];
+  const checks: ComplianceCheckResult[] = [];
+
+  const undisclosed = texts.filter(
+    (t) => !isDisclosed(t.author, t.text, disclosure)
+  );
+  checks.push({
+    check: "disclosure",
+    passed: undisclosed.length === 0,
+    blocking: true,
+    detail:
+      undisclosed.length === 0
+        ? "Affiliation disclosed by every affiliated author"
+        : `Missing disclosure from ${formatAuthors(undisclosed)}`,
+  });
+
+  const hiddenMentions = texts.filter((t) => {
+    const authorDisclosure = getPersonaDisclosure(t.author, disclosure);
+    return (
+      isPromotional(t.text, productNames, authorDisclosure) &&
+      !hasDisclosure(t.text, authorDisclosure)
+    );
+  });
+  checks.push({
+    check: "product_mentions",
+    passed: hiddenMentions.length === 0,
+    blocking: true,
+    detail:
+      hiddenMentions.length === 0
+        ? "Every product mention is disclosed"
+        : `Undisclosed product mention by ${formatAuthors(hiddenMentions)}`,
+  });
+
+  const unapprovedClaims = texts.flatMap((t) =>
+    findUnapprovedClaims(
+      t.text,
+      productNames,
+      getPersonaDisclosure(t.author, disclosure),
+      approvedClaims
+    ).map((sentence) => `u/${t.author.username}: "${sentence}"`)
+  );
+  checks.push({
+    check: "product_claims",
+    passed: unapprovedClaims.length === 0,
+    blocking: false,
+    detail:
+      unapprovedClaims.length === 0
+        ? "Every statement about the product is an approved claim"
+        : `Not in the approved claims: ${unapprovedClaims.join("; ")}`,
+  });
+
+  const mentions = texts.flatMap((t) =>
+    findCompetitorMentions(t.text, competitors, productNames).map(
+      (mention) => ({ ...mention, author: t.author })
+    )
+  );
+  const comparisons = mentions.filter((m) => m.comparative);
+  checks.push({
+    check: "competitor_mentions",
+    passed: comparisons.length === 0,
+    blocking: false,
+    detail:
+      comparisons.length > 0
+        ? `Needs legal approval for comparisons: ${comparisons
+            .map((m) => `u/${m.author.username}: "${m.sentence}"`)
+            .join("; ")}`
+        : mentions.length > 0
+          ? `Names ${Array.from(new Set(mentions.map((m) => m.competitor))).join(", ")} without comparing`
+          : "No competitors named",
+  });
+
+  const sockpuppets = comments.filter((c) =>
+    isCoordinatedInteraction(post.author, c.author)
+  );
+  checks.push({
+    check: "single_operator",
+    passed: sockpuppets.length === 0,
+    blocking: true,
+    detail:
+      sockpuppets.length === 0
+        ? "One campaign account in the thread"
+        : `Same operator as u/${post.author.username}: ${formatAuthors(sockpuppets)}`,
+  });
+
+  const ratio = ruleReport.find((r) => r.rule === "self_promotion_ratio");
+  checks.push({
+    check: "self_promotion_ratio",
+    passed: ratio?.passed ?? true,
+    blocking: true,
+    detail: ratio?.detail ?? "No self-promotion limit recorded",
+  });
+
+  checks.push({
+    check: "volume_caps",
+    passed: volumeViolations.length === 0,
+    blocking: true,
+    detail:
+      volumeViolations.length === 0
+        ? "Within the community and account volume caps"
+        : volumeViolations.join("; "),
+  });
+
+  const linked = texts.filter((t) => !isContentClean(t.text));
+  checks.push({
+    check: "links",
+    passed: linked.length === 0,
+    blocking: false,
+    detail:
+      linked.length === 0
+        ? "No links or domains"
+        : `Links or domains from ${formatAuthors(linked)}`,
+  });
+
+  const failedRules = ruleReport.filter(
+    (r) => r.rule !== "self_promotion_ratio" && !r.passed
+  );
+  checks.push({
+    check: "community_rules",
+    passed: failedRules.length === 0,
+    blocking: false,
+    detail:
+      failedRules.length === 0
+        ? "No other community rules failed"
+        : failedRules.map((r) => r.detail).join("; "),
+  });
+
+  const passedCount = checks.filter((c) => c.passed).length;
+
+  return {
+    score: passedCount / checks.length,
+    blocked: checks.some((c) => c.blocking && !c.passed),
+    checks,
+  };
+}
+
+/**
+ * Summarise the failed blocking checks of a report for error messages
+ */
+export function describeBlockers(report: ComplianceReport): string {
+  return report.checks
+    .filter((c) => c.blocking && !c.passed)
+    .map((c) => c.detail)
+    .join("; ");
+}
+
+function formatAuthors(texts: ComplianceText[]): string {
+  return Array.from(new Set(texts.map((t) => `u/${t.author.username}`))).join(
+    ", "
+  );
+}
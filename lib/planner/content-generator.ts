@@ -1,5 +1,6 @@
-import { openai } from "../openai";
+import { LLMProvider } from "../llm";
 import { Persona, Subreddit, Keyword, CompanyInfo } from "../types";
+import { applyDisclosure } from "./disclosure";
 
 interface GeneratedPost {
   title: string;
@@ -11,15 +12,18 @@ interface GeneratedComment {
 }
 
 /**
- * Generates a Reddit post in the persona's voice that feels natural
+ * Generates a Reddit post in the persona's voice that feels natural.
+ * Posts from personas affiliated with the company always end with the disclosure.
  */
 export async function generatePostContent(
+  llm: LLMProvider,
   persona: Persona,
   subreddit: Subreddit,
   topic: string,
   angle: string,
   _keywords: Keyword[],
-  _companyInfo: CompanyInfo
+  _companyInfo: CompanyInfo,
+  disclosure: string
 ): Promise<GeneratedPost> {
   const prompt = `You are ${persona.username}, posting on Reddit in r/${subreddit.name}.
 
@@ -40,10 +44,11 @@ CRITICAL STYLE RULES (follow exactly):
 6. NO product names in the post. You're asking for recommendations.
 7. NO URLs or links ever.
 8. NO dashes. Reword instead.
+9. NO comparisons with other tools or brands.
 
 GOOD EXAMPLES:
 - "Best AI Presentation Maker?" / "Just like it says in the title, what is the best AI Presentation Maker? Looking for something that makes slides I can edit. Any help appreciated."
-- "Slideforge vs Canva for slides?" / "I love Canva but trying to automate more of my slides. Heard about Slideforge but unsure if it's any good."
+- "Tired of fixing slide layouts by hand" / "Every deck I make needs an hour of nudging boxes around. Is there a tool that just handles it?"
 
 BAD EXAMPLES (too long, too formal):
 - "I run ops at a small startup so presentation design is my weird superpower..." (nobody talks like this)
@@ -56,27 +61,20 @@ Respond in JSON:
 }`;
 
   try {
-    const response = await openai.responses.create({
-      model: "gpt-5-mini",
-      input: [
-        {
-          role: "system",
-          content: `You are ${persona.username}, a real Reddit user. Write authentically in your voice. Always respond with valid JSON only, no markdown.`,
-        },
-        { role: "user", content: prompt },
-      ],
-      reasoning: { effort: "low" },
-      text: { verbosity: "low" },
+    const content = await llm.complete({
+      task: "post",
+      system: `You are ${persona.username}, a real Reddit user. Write authentically in your voice. Always respond with valid JSON only, no markdown.`,
+      prompt,
+      defaultReasoningEffort: "low",
+      verbosity: "low",
     });
 
-    const content = response.output_text || "{}";
-
     try {
       const fixed = fixNewlinesInJsonStrings(content);
       const parsed = JSON.parse(fixed);
       return {
         title: parsed.title || topic,
-        body: parsed.body || angle,
+        body: applyDisclosure(persona, parsed.body || angle, disclosure),
       };
     } catch (parseError) {
       console.error("JSON Parse Error (Post):", parseError);
@@ -87,69 +85,60 @@ Respond in JSON:
     console.error("Error generating post:", error);
     return {
       title: topic,
-      body: angle,
+      body: applyDisclosure(persona, angle, disclosure),
     };
   }
 }
 
 /**
- * Length styles for comment variety
+ * Length styles for reply variety
  */
-type CommentLength = "ultra_short" | "short" | "medium";
+type CommentLength = "short" | "medium";
 
 const LENGTH_GUIDANCE: Record<CommentLength, string> = {
-  ultra_short: `LENGTH: Ultra short (1-5 words). Just "+1 ProductName" or "Same!!" or "This ^" or "lol yea"`,
-  short: `LENGTH: Short (5-10 words). One quick sentence or fragment.`,
-  medium: `LENGTH: Medium (10-18 words). One full sentence, maybe two short ones.`,
+  short: `LENGTH: Short (8-15 words). One direct sentence that answers the question.`,
+  medium: `LENGTH: Medium (15-30 words). Answer in one or two sentences, mention a limitation if there is one.`,
 };
 
 const LENGTH_EXAMPLES: Record<CommentLength, string[]> = {
-  ultra_short: ["+1 Slideforge", "Same!!", "This ^", "lol yea", "^ seconded"],
   short: [
-    "Sweet I'll check it out!!",
-    "Yea it's pretty solid tbh",
-    "I use it for decks lol",
+    "Yep, you can export to pptx and keep editing in PowerPoint.",
+    "Not yet, there's no offline mode right now.",
   ],
   medium: [
-    "Yea Claude's slide output always looks really funky lol",
-    "I hate picking fonts lol. Slideforge's defaults save my sanity.",
+    "There's a free tier with a monthly deck limit, paid plans lift that. Happy to answer anything else.",
+    "It handles text heavy decks fine, but charts still need some manual cleanup tbh.",
   ],
 };
 
 /**
- * Generates a comment in the persona's voice
+ * Generates a suggested reply from the disclosed brand account to a question
+ * a real user is likely to ask under the post.
+ * Replies from personas affiliated with the company always end with the disclosure.
  *
- * @param intent - Optional intent from the orchestrator describing what angle/purpose this comment should have
- * @param commentIndex - Position in the thread (0, 1, 2...) to vary comment lengths
+ * @param question - The anticipated user question this reply answers
+ * @param disclosure - Affiliation disclosure built from the campaign's template
+ * @param intent - Optional intent from the orchestrator describing what the reply should cover
+ * @param commentIndex - Position in the reply list (0, 1, 2...) to vary reply lengths
  */
 export async function generateCommentContent(
+  llm: LLMProvider,
   persona: Persona,
   postTitle: string,
   postBody: string,
-  parentComment: string | null,
-  isAuthorReply: boolean,
+  question: string,
   companyInfo: CompanyInfo,
+  disclosure: string,
   intent?: string,
   commentIndex: number = 0
 ): Promise<GeneratedComment> {
   const companyName = companyInfo.website?.replace(/\..*/, "") || "the tool";
 
-  const context = parentComment
-    ? `You are replying to this comment: "${parentComment}"`
-    : `You are leaving a top-level comment on the post`;
-
-  const productMention = isAuthorReply
-    ? "You should NOT mention any product - just thank them or ask a follow-up question"
-    : `You can naturally mention "${companyName}" by name only if it fits your experience, but don't be pushy. A brief mention is fine. NEVER include a URL or link to the product.`;
-
   const intentGuidance = intent ? `\nYOUR GOAL: ${intent}` : "";
 
-  // Vary comment lengths for natural thread appearance
-  // Pattern: first comment medium, second ultra-short or short, third varies
   const lengthPatterns: CommentLength[][] = [
-    ["medium", "ultra_short", "short"],
-    ["short", "ultra_short", "medium"],
-    ["medium", "short", "ultra_short"],
+    ["medium", "short"],
+    ["short", "medium"],
   ];
   const patternIndex = Math.floor(Math.random() * lengthPatterns.length);
   const pattern = lengthPatterns[patternIndex];
@@ -158,54 +147,53 @@ export async function generateCommentContent(
   const lengthRule = LENGTH_GUIDANCE[targetLength];
   const examples = LENGTH_EXAMPLES[targetLength];
 
-  const prompt = `You are ${persona.username}, commenting on Reddit.
+  const prompt = `You are ${persona.username}, the official Reddit account for ${companyName}. You openly work there.
 ${intentGuidance}
 
 POST: "${postTitle}"
-${context}
+${postBody}
+
+A Reddit user is likely to ask: "${question}"
 
 CRITICAL RULES:
 1. ${lengthRule}
-2. Use casual language: "lol", "!!", "yea", "tbh", "sorta" etc.
-3. Fragments OK. Skip grammar rules sometimes.
-4. ${productMention}
-5. NO corporate words: "workflow", "leverage", "hierarchy", "functionality"
+2. Answer the question honestly and plainly. Friendly, not salesy.
+3. Only state facts about ${companyName} you could back up. If you're not sure, say so.
+4. Never pretend to be an independent user or a happy customer.
+5. NO hype words: "game changer", "revolutionary", "must have".
 6. NO URLs ever.
 7. NO dashes.
 
 GOOD EXAMPLES for this length:
 ${examples.map((e) => `- "${e}"`).join("\n")}
 
-BAD (too long/formal):
-- "I used Slideforge for a classroom pitch and a small grant deck, it gives really clean layouts" (way too long)
-- "Thanks, really helpful. Which template did you use?" (too polite/formal)
+BAD:
+- "Slideforge is honestly the best tool out there, you won't regret it!!" (hype, not an answer)
+- "As a longtime user I can say it works great" (pretends to be a customer)
 
 Respond in JSON:
 {
-  "text": "your comment here"
+  "text": "your reply here"
 }`;
 
   try {
-    const response = await openai.responses.create({
-      model: "gpt-5-mini",
-      input: [
-        {
-          role: "system",
-          content: `You are ${persona.username}, a real Reddit user. Write short, authentic comments. Always respond with valid JSON only, no markdown.`,
-        },
-        { role: "user", content: prompt },
-      ],
-      reasoning: { effort: "low" },
-      text: { verbosity: "low" },
+    const content = await llm.complete({
+      task: "comment",
+      system: `You are ${persona.username}, a disclosed company account on Reddit. Write short, honest replies. Always respond with valid JSON only, no markdown.`,
+      prompt,
+      defaultReasoningEffort: "low",
+      verbosity: "low",
     });
 
-    const content = response.output_text || "{}";
-
     try {
       const fixed = fixNewlinesInJsonStrings(content);
       const parsed = JSON.parse(fixed);
       return {
-        text: parsed.text || "Thanks for sharing!",
+        text: applyDisclosure(
+          persona,
+          parsed.text || "Good question, happy to help if you have more.",
+          disclosure
+        ),
       };
     } catch (parseError) {
       console.error("JSON Parse Error (Comment):", parseError);
@@ -215,7 +203,11 @@ Respond in JSON:
   } catch (error) {
     console.error("Error generating comment:", error);
     return {
-      text: "Thanks for sharing!",
+      text: applyDisclosure(
+        persona,
+        "Good question, happy to help if you have more.",
+        disclosure
+      ),
     };
   }
 }
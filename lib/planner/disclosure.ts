@@ -0,0 +1,63 @@
+import { Persona } from "../types";
+
+export const DEFAULT_DISCLOSURE_TEMPLATE =
+  "Disclosure: I work at {company_name}.";
+
+/**
+ * Build the affiliation disclosure for a campaign from its template.
+ * The `{company_name}` placeholder is replaced with the campaign's company.
+ */
+export function buildDisclosure(
+  companyName: string,
+  template: string = DEFAULT_DISCLOSURE_TEMPLATE
+): string {
+  const source = template.trim() || DEFAULT_DISCLOSURE_TEMPLATE;
+  return source.replace(/\{company_name\}/g, companyName.trim());
+}
+
+/**
+ * Check whether text already contains the disclosure.
+ * Case and whitespace differences are ignored.
+ */
+export function hasDisclosure(text: string, disclosure: string): boolean {
+  const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, " ").trim();
+  return normalize(text).includes(normalize(disclosure));
+}
+
+/**
+ * The disclosure a persona uses: its own recorded text, or the campaign's
+ * when it has none
+ */
+export function getPersonaDisclosure(
+  persona: Persona,
+  campaignDisclosure: string
+): string {
+  return persona.disclosure_text?.trim() || campaignDisclosure;
+}
+
+/**
+ * Append the persona's disclosure to its text. Every persona is run for the
+ * company, so only text that is already disclosed is returned as is.
+ */
+export function applyDisclosure(
+  persona: Persona,
+  text: string,
+  campaignDisclosure: string
+): string {
+  const disclosure = getPersonaDisclosure(persona, campaignDisclosure);
+  if (hasDisclosure(text, disclosure)) {
+    return text;
+  }
+  return `${text.trim()}\n\n${disclosure}`;
+}
+
+/**
+ * Returns true if the text carries its author's disclosure
+ */
+export function isDisclosed(
+  persona: Persona,
+  text: string,
+  campaignDisclosure: string
+): boolean {
+  return hasDisclosure(text, getPersonaDisclosure(persona, campaignDisclosure));
+}
@@ -0,0 +1,324 @@
+import {
+  Campaign,
+  Persona,
+  PlannedComment,
+  PlannedPost,
+  ReviewStatus,
+  WeeklyPlan,
+} from "../types";
+import { toZonedIso } from "./timezone";
+
+export type ExportFormat = "csv" | "json" | "ics";
+
+/** How long a scheduled item blocks out in calendar apps */
+const EVENT_MINUTES = 15;
+
+export interface WeekExportSource {
+  campaign: Campaign;
+  plan: WeeklyPlan;
+  posts: PlannedPost[];
+  comments: PlannedComment[];
+  /** Every author in the week, including since-deactivated ones */
+  personas: Pick<Persona, "id" | "username">[];
+}
+
+interface ExportedItem {
+  id: string;
+  author: string;
+  /** UTC, as stored */
+  scheduled_at: string | null;
+  /** The same moment in the campaign's timezone, with its offset */
+  scheduled_at_local: string | null;
+  review_status: ReviewStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  quality_score: number;
+}
+
+export interface ExportedComment extends ExportedItem {
+  reply_to_comment_id: string | null;
+  text: string;
+}
+
+export interface ExportedPost extends ExportedItem {
+  subreddit: string;
+  post_type: PlannedPost["post_type"];
+  title: string;
+  body: string;
+  flair: string | null;
+  compliance_score: number;
+  comments: ExportedComment[];
+}
+
+/** The structured JSON export of a week */
+export interface WeekExport {
+  campaign: { id: string; name: string; timezone: string };
+  week: { id: string; week_start_date: string; status: WeeklyPlan["status"] };
+  exported_at: string;
+  posts: ExportedPost[];
+}
+
+/**
+ * Build the structured export of a week: each post with its replies,
+ * in schedule order, with times in both UTC and the campaign's timezone
+ */
+export function buildWeekExport(
+  { campaign, plan, posts, comments, personas }: WeekExportSource,
+  now: Date = new Date()
+): WeekExport {
+  const usernames = new Map(personas.map((p) => [p.id, p.username]));
+  const localTime = (scheduledAt: string | null) =>
+    scheduledAt ? toZonedIso(new Date(scheduledAt), campaign.timezone) : null;
+  const byScheduledAt = <T extends { scheduled_at: string | null }>(
+    a: T,
+    b: T
+  ) => (a.scheduled_at ?? "").localeCompare(b.scheduled_at ?? "");
+
+  const exportItem = (item: PlannedPost | PlannedComment): ExportedItem => ({
+    id: item.id,
+    author: usernames.get(item.author_persona_id) ?? item.author_persona_id,
+    scheduled_at: item.scheduled_at,
+    scheduled_at_local: localTime(item.scheduled_at),
+    review_status: item.review_status,
+    reviewed_by: item.reviewed_by,
+    reviewed_at: item.reviewed_at,
+    quality_score: item.quality_score,
+  });
+
+  return {
+    campaign: {
+      id: campaign.id,
+      name: campaign.name,
+      timezone: campaign.timezone,
+    },
+    week: {
+      id: plan.id,
+      week_start_date: plan.week_start_date,
+      status: plan.status,
+    },
+    exported_at: now.toISOString(),
+    posts: [...posts].sort(byScheduledAt).map((post) => ({
+      ...exportItem(post),
+      subreddit: post.subreddit_name,
+      post_type: post.post_type,
+      title: post.title,
+      body: post.body,
+      flair: post.flair,
+      compliance_score: post.compliance_score,
+      comments: comments
+        .filter((c) => c.planned_post_id === post.id)
+        .sort(byScheduledAt)
+        .map((comment) => ({
+          ...exportItem(comment),
+          reply_to_comment_id: comment.reply_to_comment_id,
+          text: comment.comment_text,
+        })),
+    })),
+  };
+}
+
+const CSV_COLUMNS = [
+  "type",
+  "id",
+  "post_id",
+  "reply_to_comment_id",
+  "subreddit",
+  "author",
+  "title",
+  "text",
+  "scheduled_at",
+  "scheduled_at_local",
+  "timezone",
+  "review_status",
+  "reviewed_by",
+  "reviewed_at",
+  "quality_score",
+  "compliance_score",
+] as const;
+
+/**
+ * Quote a cell when needed. Text starting with a formula character (or a
+ * tab or carriage return) gets a leading ' so spreadsheets show it instead
+ * of evaluating it.
+ */
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per post followed by a row per reply (RFC 4180)
+ */
+export function toCsv(week: WeekExport): string {
+  const timezone = week.campaign.timezone;
+  const rows: Record<(typeof CSV_COLUMNS)[number], string | number | null>[] =
+    [];
+
+  for (const post of week.posts) {
+    rows.push({
+      type: "post",
+      id: post.id,
+      post_id: post.id,
+      reply_to_comment_id: null,
+      subreddit: post.subreddit,
+      author: post.author,
+      title: post.title,
+      text: post.body,
+      scheduled_at: post.scheduled_at,
+      scheduled_at_local: post.scheduled_at_local,
+      timezone,
+      review_status: post.review_status,
+      reviewed_by: post.reviewed_by,
+      reviewed_at: post.reviewed_at,
+      quality_score: post.quality_score,
+      compliance_score: post.compliance_score,
+    });
+    for (const comment of post.comments) {
+      rows.push({
+        type: "comment",
+        id: comment.id,
+        post_id: post.id,
+        reply_to_comment_id: comment.reply_to_comment_id,
+        subreddit: post.subreddit,
+        author: comment.author,
+        title: null,
+        text: comment.text,
+        scheduled_at: comment.scheduled_at,
+        scheduled_at_local: comment.scheduled_at_local,
+        timezone,
+        review_status: comment.review_status,
+        reviewed_by: comment.reviewed_by,
+        reviewed_at: comment.reviewed_at,
+        quality_score: comment.quality_score,
+        compliance_score: null,
+      });
+    }
+  }
+
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) => CSV_COLUMNS.map((c) => csvCell(row[c])).join(",")),
+  ]
+    .map((line) => `${line}\r\n`)
+    .join("");
+}
+
+function icsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function icsDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/** Fold content lines longer than 75 octets (RFC 5545 §3.1) */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const folded: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = folded.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      folded.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  folded.push(current);
+  return folded.join("\r\n ");
+}
+
+/**
+ * An iCalendar feed with an event per scheduled post and reply. Rejected
+ * items are left out; anything not yet approved is marked tentative.
+ */
+export function toICalendar(week: WeekExport): string {
+  const stamp = icsDate(new Date(week.exported_at));
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//reddit-content-planner//Weekly plan//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${icsText(`${week.campaign.name} - week of ${week.week.week_start_date}`)}`,
+    `X-WR-TIMEZONE:${week.campaign.timezone}`,
+  ];
+
+  const addEvent = (
+    item: ExportedItem,
+    summary: string,
+    description: string
+  ) => {
+    if (!item.scheduled_at || item.review_status === "rejected") return;
+    const start = new Date(item.scheduled_at);
+    const end = new Date(start.getTime() + EVENT_MINUTES * 60 * 1000);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${item.id}@reddit-content-planner`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDate(start)}`,
+      `DTEND:${icsDate(end)}`,
+      `SUMMARY:${icsText(summary)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      `STATUS:${item.review_status === "approved" ? "CONFIRMED" : "TENTATIVE"}`,
+      "END:VEVENT"
+    );
+  };
+
+  for (const post of week.posts) {
+    addEvent(
+      post,
+      `r/${post.subreddit}: ${post.title}`,
+      `Post by u/${post.author}\n\n${post.body}`
+    );
+    for (const comment of post.comments) {
+      addEvent(
+        comment,
+        `Reply in r/${post.subreddit} by u/${comment.author}`,
+        `On "${post.title}"\n\n${comment.text}`
+      );
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map((line) => `${foldLine(line)}\r\n`).join("");
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  ics: "text/calendar; charset=utf-8",
+};
+
+/**
+ * Render a week in one of the export formats
+ */
+export function renderWeekExport(
+  week: WeekExport,
+  format: ExportFormat
+): string {
+  switch (format) {
+    case "csv":
+      return toCsv(week);
+    case "ics":
+      return toICalendar(week);
+    case "json":
+      return JSON.stringify(week, null, 2);
+  }
+}
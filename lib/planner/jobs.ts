@@ -0,0 +1,325 @@
+import { GenerationJob, PlanJson } from "../types";
+import { Repository, repository as defaultRepository } from "../repository";
+import {
+  runGenerationPipeline,
+  GenerationResult,
+  PipelineObserver,
+  ProgressEvent,
+} from "./pipeline";
+import { createLoggingObserver } from "./observers";
+
+/**
+ * A running job that hasn't checkpointed for this long is treated as
+ * interrupted (e.g. the server restarted) and can be resumed
+ */
+export const JOB_STALE_AFTER_MS = 5 * 60 * 1000;
+
+export type JobEvent =
+  | { type: "progress"; progress: ProgressEvent }
+  | { type: "complete"; result: GenerationResult }
+  | { type: "error"; error: string };
+
+interface LiveJob {
+  events: JobEvent[];
+  listeners: Set<(event: JobEvent) => void>;
+}
+
+/**
+ * Jobs running in this server process. Kept on globalThis so every route
+ * module sees the same jobs, including across dev-server reloads.
+ */
+const liveJobs: Map<string, LiveJob> = ((
+  globalThis as { __generationJobs?: Map<string, LiveJob> }
+).__generationJobs ??= new Map());
+
+/**
+ * Returns true if the job says it's running but nothing is driving it
+ */
+export function isJobInterrupted(
+  job: GenerationJob,
+  now: Date = new Date()
+): boolean {
+  return (
+    job.status === "running" &&
+    !liveJobs.has(job.id) &&
+    now.getTime() - new Date(job.updated_at).getTime() > JOB_STALE_AFTER_MS
+  );
+}
+
+/**
+ * Record the job's progress after every step so it can be resumed
+ */
+function createCheckpointObserver(
+  repository: Repository,
+  job: GenerationJob
+): PipelineObserver {
+  let postsGenerated = job.posts_generated;
+  let commentsGenerated = job.comments_generated;
+  const errors = [...job.errors];
+
+  return {
+    async onSubredditsSelected(subreddits) {
+      await repository.jobs.update(job.id, {
+        subreddit_ids: subreddits.map((s) => s.id),
+      });
+    },
+    async onStageComplete({ stage, postIndex }) {
+      await repository.jobs.update(job.id, {
+        last_step: stage,
+        last_post_index: postIndex ?? null,
+      });
+    },
+    async onPostComplete(postIndex, commentsSaved) {
+      postsGenerated++;
+      commentsGenerated += commentsSaved;
+      await repository.jobs.update(job.id, {
+        completed_posts: postIndex,
+        posts_generated: postsGenerated,
+        comments_generated: commentsGenerated,
+      });
+    },
+    async onPostSkipped(_stage, postIndex, reason) {
+      errors.push(reason);
+      await repository.jobs.update(job.id, {
+        completed_posts: postIndex,
+        errors,
+      });
+    },
+  };
+}
+
+/**
+ * The plan_json for a plan whose job stopped early
+ */
+function summarizeJob(job: GenerationJob): PlanJson {
+  return {
+    generated_at: new Date().toISOString(),
+    posts_count: job.posts_generated,
+    comments_count: job.comments_generated,
+    errors: job.errors,
+  };
+}
+
+/**
+ * Mark a job that isn't running anywhere cancelled, and its plan cancelled
+ * with whatever was saved
+ */
+async function closeCancelledJob(
+  repository: Repository,
+  job: GenerationJob
+): Promise<GenerationJob> {
+  await repository.weeklyPlans.update(job.weekly_plan_id, {
+    status: "cancelled",
+    plan_json: summarizeJob(job),
+  });
+  return repository.jobs.update(job.id, {
+    status: "cancelled",
+    cancel_requested: true,
+  });
+}
+
+/**
+ * Run a job in the background of this server process, continuing from its
+ * last checkpoint. Progress is buffered for anyone who subscribes.
+ */
+function launchJob(repository: Repository, job: GenerationJob): LiveJob {
+  const live: LiveJob = { events: [], listeners: new Set() };
+  liveJobs.set(job.id, live);
+
+  const broadcast = (event: JobEvent) => {
+    live.events.push(event);
+    live.listeners.forEach((listener) => listener(event));
+  };
+
+  const resuming = job.subreddit_ids.length > 0;
+  const run = async () => {
+    const plan = await repository.weeklyPlans.get(job.weekly_plan_id);
+    if (!plan) throw new Error("Weekly plan not found");
+
+    return runGenerationPipeline(
+      repository,
+      {
+        campaignId: job.campaign_id,
+        weekStartDate: new Date(plan.week_start_date + "T00:00:00Z"),
+        openPlan: async () => plan,
+        resume: resuming
+          ? {
+              subredditIds: job.subreddit_ids,
+              completedPosts: job.completed_posts,
+              postsGenerated: job.posts_generated,
+              commentsGenerated: job.comments_generated,
+              errors: job.errors,
+            }
+          : undefined,
+        isCancelled: async () =>
+          (await repository.jobs.get(job.id))?.cancel_requested ?? false,
+      },
+      [
+        { onProgress: (progress) => broadcast({ type: "progress", progress }) },
+        createCheckpointObserver(repository, job),
+        createLoggingObserver(`job ${job.id}`),
+      ]
+    );
+  };
+
+  run()
+    .then(async (result) => {
+      await repository.jobs.update(job.id, {
+        status: result.cancelled ? "cancelled" : "completed",
+      });
+      broadcast({ type: "complete", result });
+    })
+    .catch(async (err) => {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      try {
+        const current = (await repository.jobs.get(job.id)) || job;
+        await repository.jobs.update(job.id, {
+          status: "failed",
+          error: message,
+        });
+        await repository.weeklyPlans.update(job.weekly_plan_id, {
+          status: "failed",
+          plan_json: {
+            ...summarizeJob(current),
+            error: message,
+          },
+        });
+      } catch (updateErr) {
+        console.error("Failed to record job failure:", updateErr);
+      }
+      broadcast({ type: "error", error: message });
+    })
+    .finally(() => {
+      liveJobs.delete(job.id);
+    });
+
+  return live;
+}
+
+/**
+ * Get the job filling a weekly plan, starting one if needed. A job already
+ * running in this process is returned as is; an interrupted one is resumed
+ * from its last checkpoint. A failed job moves its plan to "failed", where
+ * it waits for the user to resume, retry or delete it.
+ */
+export async function ensureGenerationJob(
+  weeklyPlanId: string,
+  repository: Repository = defaultRepository
+): Promise<GenerationJob> {
+  const plan = await repository.weeklyPlans.get(weeklyPlanId);
+  if (!plan) {
+    throw new Error("Weekly plan not found");
+  }
+
+  const latest = await repository.jobs.getLatestForPlan(weeklyPlanId);
+  if (latest && liveJobs.has(latest.id)) {
+    return latest;
+  }
+  if (latest && isJobInterrupted(latest)) {
+    return resumeGenerationJob(latest.id, repository);
+  }
+  if (latest?.status === "running") {
+    throw new Error("Generation is already running on another server");
+  }
+  if (plan.status !== "generating") {
+    throw new Error("Weekly plan is not in generating status");
+  }
+
+  const job = await repository.jobs.create({
+    campaign_id: plan.campaign_id,
+    weekly_plan_id: plan.id,
+  });
+  launchJob(repository, job);
+  return job;
+}
+
+/**
+ * Continue a failed, cancelled or interrupted job after its last
+ * completed post. An interrupted job that was asked to stop is closed as
+ * cancelled instead.
+ *
+ * @param changes - Repository for reopening the job and its plan, e.g. one
+ *   that audits the person resuming it; the run itself uses `repository`
+ */
+export async function resumeGenerationJob(
+  jobId: string,
+  repository: Repository = defaultRepository,
+  changes: Repository = repository
+): Promise<GenerationJob> {
+  const job = await repository.jobs.get(jobId);
+  if (!job) {
+    throw new Error("Generation job not found");
+  }
+  if (liveJobs.has(job.id)) {
+    return job;
+  }
+  if (job.status === "completed") {
+    throw new Error("Generation job already completed");
+  }
+  if (job.status === "running" && !isJobInterrupted(job)) {
+    throw new Error("Generation is already running on another server");
+  }
+  if (job.status === "running" && job.cancel_requested) {
+    // It was cancelled before it was interrupted; finish the cancel instead
+    return closeCancelledJob(changes, job);
+  }
+
+  await changes.weeklyPlans.update(job.weekly_plan_id, {
+    status: "generating",
+  });
+  const resumed = await changes.jobs.update(job.id, {
+    status: "running",
+    error: null,
+    cancel_requested: false,
+  });
+  launchJob(repository, resumed);
+  return resumed;
+}
+
+/**
+ * Stop a job. A running job stops before its next post; a job that isn't
+ * running anywhere is closed straight away and its plan marked cancelled
+ * with whatever was saved.
+ */
+export async function cancelGenerationJob(
+  jobId: string,
+  repository: Repository = defaultRepository
+): Promise<GenerationJob> {
+  const job = await repository.jobs.get(jobId);
+  if (!job) {
+    throw new Error("Generation job not found");
+  }
+  if (job.status === "completed" || job.status === "cancelled") {
+    throw new Error(`Generation job already ${job.status}`);
+  }
+
+  if (liveJobs.has(job.id)) {
+    return repository.jobs.update(job.id, { cancel_requested: true });
+  }
+  if (job.status === "running" && !isJobInterrupted(job)) {
+    return repository.jobs.update(job.id, { cancel_requested: true });
+  }
+
+  return closeCancelledJob(repository, job);
+}
+
+/**
+ * Follow a job running in this process. Events so far are replayed first;
+ * if the job has already ended, the listener gets its final event during
+ * replay and isn't kept. Returns an unsubscribe function, or null if the
+ * job isn't running here.
+ */
+export function subscribeToJob(
+  jobId: string,
+  listener: (event: JobEvent) => void
+): (() => void) | null {
+  const live = liveJobs.get(jobId);
+  if (!live) return null;
+
+  live.events.forEach(listener);
+  if (live.events.some((event) => event.type !== "progress")) {
+    return () => {};
+  }
+  live.listeners.add(listener);
+  return () => live.listeners.delete(listener);
+}
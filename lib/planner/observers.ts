@@ -0,0 +1,68 @@
+import {
+  GenerationResult,
+  PipelineObserver,
+  PipelineStage,
+  ProgressEvent,
+} from "./pipeline";
+
+/**
+ * Forward progress events to a callback, e.g. an SSE stream
+ */
+export function createProgressObserver(
+  onProgress: (event: ProgressEvent) => void
+): PipelineObserver {
+  return { onProgress };
+}
+
+/**
+ * Log skipped posts and a summary of each run to the server console
+ */
+export function createLoggingObserver(
+  label: string,
+  logger: Pick<Console, "info" | "warn"> = console
+): PipelineObserver {
+  return {
+    onPostSkipped(stage, postIndex, reason) {
+      logger.warn(
+        `[${label}] post ${postIndex} skipped at ${stage}: ${reason}`
+      );
+    },
+    onComplete(result: GenerationResult) {
+      logger.info(
+        `[${label}] plan ${result.weeklyPlanId}: ${result.postsGenerated} posts, ${result.commentsGenerated} comments, ${result.errors.length} errors`
+      );
+    },
+  };
+}
+
+export interface StageMetrics {
+  runs: number;
+  totalMs: number;
+  skipped: number;
+}
+
+/**
+ * Collect per-stage run counts, time spent and skips
+ */
+export function createMetricsObserver(): {
+  observer: PipelineObserver;
+  metrics: Partial<Record<PipelineStage, StageMetrics>>;
+} {
+  const metrics: Partial<Record<PipelineStage, StageMetrics>> = {};
+  const forStage = (stage: PipelineStage) =>
+    (metrics[stage] ??= { runs: 0, totalMs: 0, skipped: 0 });
+
+  return {
+    metrics,
+    observer: {
+      onStageComplete({ stage, durationMs }) {
+        const entry = forStage(stage);
+        entry.runs++;
+        entry.totalMs += durationMs;
+      },
+      onPostSkipped(stage) {
+        forStage(stage).skipped++;
+      },
+    },
+  };
+}
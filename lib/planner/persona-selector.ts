@@ -13,11 +13,36 @@ interface PersonaUsage {
 const DEFAULT_MAX_POSTS_PER_WEEK = 2;
 const DEFAULT_MAX_COMMENTS_PER_WEEK = 10;
 
+/**
+ * What a persona is missing before content may be assigned to it: who runs
+ * the account, how they're connected to the company, their consent, the
+ * disclosure they use, and a public profile that states the affiliation.
+ */
+export function getMissingAccountDetails(persona: Persona): string[] {
+  const missing: string[] = [];
+  if (!persona.owner_name?.trim()) missing.push("owner");
+  if (!persona.employer_relationship) missing.push("employer relationship");
+  if (!persona.consent_given_at) missing.push("consent");
+  if (!persona.disclosure_text?.trim()) missing.push("disclosure text");
+  if (!persona.profile_states_affiliation) {
+    missing.push("affiliation on profile");
+  }
+  return missing;
+}
+
+/**
+ * Returns true if the persona has every account detail recorded
+ */
+export function isVerifiedAccount(persona: Persona): boolean {
+  return getMissingAccountDetails(persona).length === 0;
+}
+
 /**
  * Selects a persona to author a post.
  *
- * If an "operator" persona is designated, they make ALL posts (the "seeker" pattern).
- * Otherwise, falls back to distributing posts across personas.
+ * Only active, verified accounts are considered. If an "operator" persona is
+ * designated, they make ALL posts (the "seeker" pattern). Otherwise, falls
+ * back to distributing posts across personas.
  */
 export function selectPostAuthor(
   personas: Persona[],
@@ -25,7 +50,9 @@ export function selectPostAuthor(
   existingPosts: PlannedPost[],
   existingComments: PlannedComment[]
 ): PersonaSelection | null {
-  const activePersonas = personas.filter((p) => p.is_active);
+  const activePersonas = personas.filter(
+    (p) => p.is_active && isVerifiedAccount(p)
+  );
 
   if (activePersonas.length === 0) {
     return null;
@@ -82,11 +109,29 @@ export function selectPostAuthor(
   };
 }
 
+/**
+ * Returns true if the commenter is another persona from the post author's campaign.
+ *
+ * Campaign personas are run by the same operator, so one of them commenting on
+ * another's post is a coordinated same-operator conversation.
+ */
+export function isCoordinatedInteraction(
+  postAuthor: Persona,
+  commenter: Persona
+): boolean {
+  return (
+    commenter.id !== postAuthor.id &&
+    commenter.campaign_id === postAuthor.campaign_id
+  );
+}
+
 /**
  * Selects personas to comment on a post, respecting constraints:
+ * - Hard rule: no persona may comment on a post written by another persona
+ *   from the same campaign (no voting is planned at all)
  * - Variety across personas (max 10 comments per persona by default)
  * - Author of post shouldn't be first commenter
- * - Not all personas should comment on every post (2-4 is natural)
+ * - The post author replies in its own thread while under its comment limit
  */
 export function selectCommenters(
   personas: Persona[],
@@ -95,6 +140,13 @@ export function selectCommenters(
   existingComments: PlannedComment[],
   targetCommentCount: number = 3
 ): PersonaSelection[] {
+  const postAuthor = personas.find((p) => p.id === postAuthorId);
+
+  // Without the author we can't tell which personas share its campaign
+  if (!postAuthor) {
+    return [];
+  }
+
   const activePersonas = personas.filter((p) => p.is_active);
   const usage = calculatePersonaUsage(
     activePersonas,
@@ -102,9 +154,11 @@ export function selectCommenters(
     existingComments
   );
 
-  const nonAuthors = activePersonas.filter((p) => p.id !== postAuthorId);
+  const eligibleNonAuthors = activePersonas.filter(
+    (p) => p.id !== postAuthorId && !isCoordinatedInteraction(postAuthor, p)
+  );
 
-  const scoredPersonas = nonAuthors
+  const scoredPersonas = eligibleNonAuthors
     .map((persona) => {
       const personaUsage = usage.get(persona.id) || {
         postsThisWeek: 0,
@@ -141,19 +195,16 @@ export function selectCommenters(
       reason: s.reason,
     }));
 
-  if (Math.random() > 0.5) {
-    const postAuthor = activePersonas.find((p) => p.id === postAuthorId);
-    if (postAuthor) {
-      const authorUsage = usage.get(postAuthorId) || {
-        postsThisWeek: 0,
-        commentsThisWeek: 0,
-      };
-      if (authorUsage.commentsThisWeek < DEFAULT_MAX_COMMENTS_PER_WEEK) {
-        selections.push({
-          persona: postAuthor,
-          reason: "author_reply",
-        });
-      }
+  if (postAuthor.is_active) {
+    const authorUsage = usage.get(postAuthorId) || {
+      postsThisWeek: 0,
+      commentsThisWeek: 0,
+    };
+    if (authorUsage.commentsThisWeek < DEFAULT_MAX_COMMENTS_PER_WEEK) {
+      selections.push({
+        persona: postAuthor,
+        reason: "author_reply",
+      });
     }
   }
 
@@ -227,7 +278,7 @@ function calculateRelevanceScore(
     marketing: ["sales", "customer", "growth"],
   };
 
-  for (const [role, keywords] of Object.entries(roleKeywords)) {
+  for (const keywords of Object.values(roleKeywords)) {
     const hasRole = keywords.some((k) => bioLower.includes(k));
     const matchesSubreddit = subredditThemes[subredditLower]?.some((theme) =>
       keywords.some((k) => k.includes(theme) || theme.includes(k))
@@ -0,0 +1,1205 @@
+import {
+  Campaign,
+  CompanyInfo,
+  Keyword,
+  Persona,
+  PlannedComment,
+  PlannedPost,
+  PostRevision,
+  CommentRevision,
+  RuleCheckResult,
+  Subreddit,
+  WeeklyPlan,
+  WeeklyPlanStatus,
+} from "../types";
+import { PostContentUpdate, Repository } from "../repository";
+import { getLLMProvider, LLMProvider } from "../llm";
+import { selectSubredditsForWeek } from "./subreddit-selector";
+import {
+  getMissingAccountDetails,
+  selectPostAuthor,
+  selectCommenters,
+} from "./persona-selector";
+import { generateTopic } from "./topic-generator";
+import { generatePostContent, generateDedupeHash } from "./content-generator";
+import {
+  buildDisclosure,
+  getPersonaDisclosure,
+  isDisclosed,
+} from "./disclosure";
+import {
+  checkSubredditRules,
+  countPromotionalPosts,
+  isPromotional,
+  PromotionCounts,
+  recordPromotion,
+} from "./subreddit-rules";
+import { planCommentThread, calculateThreadQuality } from "./thread-planner";
+import {
+  evaluateCompliance,
+  describeBlockers,
+  ComplianceReport,
+} from "./compliance";
+import { addDays, startOfZonedDay } from "./timezone";
+import { describeClosedWeek, schedulePost } from "./scheduler";
+import { assertCanResubmit } from "./review";
+import {
+  checkVolumeCaps,
+  LONGEST_CAP_WINDOW_DAYS,
+  toVolumeItems,
+  VolumeItem,
+} from "./volume-caps";
+
+export type PipelineStage =
+  | "select_subreddits"
+  | "assign_author"
+  | "topic"
+  | "post"
+  | "thread"
+  | "score"
+  | "persist";
+
+export interface GenerationResult {
+  weeklyPlanId: string;
+  postsGenerated: number;
+  commentsGenerated: number;
+  errors: string[];
+  /** True when the run was stopped before every post was attempted */
+  cancelled: boolean;
+  status: WeeklyPlanStatus;
+}
+
+export interface ProgressEvent {
+  step:
+    | "plan_created"
+    | "generating_topic"
+    | "generating_post"
+    | "generating_comments"
+    | "post_complete";
+  stage?: PipelineStage;
+  postIndex?: number;
+  subredditName?: string;
+  message: string;
+}
+
+export interface StageTiming {
+  stage: PipelineStage;
+  postIndex?: number;
+  durationMs: number;
+}
+
+type Awaitable = void | Promise<void>;
+
+/**
+ * Watches a pipeline run. Every hook is optional and awaited in turn;
+ * observers must not throw.
+ */
+export interface PipelineObserver {
+  /** Human-readable progress, as streamed to the calendar UI */
+  onProgress?(event: ProgressEvent): Awaitable;
+  /** Subreddits were chosen for each post of the week */
+  onSubredditsSelected?(subreddits: Subreddit[]): Awaitable;
+  /** A stage finished for one post (or for the whole plan) */
+  onStageComplete?(timing: StageTiming): Awaitable;
+  /** A post and its replies were saved */
+  onPostComplete?(postIndex: number, commentsSaved: number): Awaitable;
+  /** A post was dropped; the reason is also added to the result's errors */
+  onPostSkipped?(
+    stage: PipelineStage,
+    postIndex: number,
+    reason: string
+  ): Awaitable;
+  onComplete?(result: GenerationResult): Awaitable;
+}
+
+interface PipelineContext {
+  repository: Repository;
+  llm: LLMProvider;
+  plan: WeeklyPlan;
+  campaign: Campaign;
+  /** The week's Monday in the campaign's timezone, at UTC midnight */
+  weekStartDate: Date;
+  personas: Persona[];
+  keywords: Keyword[];
+  existingPosts: PlannedPost[];
+  existingComments: PlannedComment[];
+  companyInfo: CompanyInfo;
+  disclosure: string;
+  productNames: string[];
+  usedKeywordCodes: Set<string>;
+  promotionCounts: Map<string, PromotionCounts>;
+  /** Saved posts and replies that can share a cap window with this week */
+  volumeItems: VolumeItem[];
+  totalPosts: number;
+}
+
+/** What the stages have worked out so far for one post */
+interface PostDraft {
+  subreddit: Subreddit;
+  postDate: Date;
+  author?: Persona;
+  topic?: Awaited<ReturnType<typeof generateTopic>>;
+  content?: Awaited<ReturnType<typeof generatePostContent>>;
+  thread?: Awaited<ReturnType<typeof planCommentThread>>;
+  threadQuality?: number;
+  flair?: string | null;
+  ruleReport?: RuleCheckResult[];
+  compliance?: ComplianceReport;
+  isPromotional?: boolean;
+  volumeItems?: VolumeItem[];
+}
+
+interface Skip {
+  /** Added to the result's errors */
+  error: string;
+  /** Shown to the user */
+  message: string;
+}
+
+interface StageOutput {
+  skip?: Skip;
+  messages?: string[];
+}
+
+type PostStage = (
+  context: PipelineContext,
+  draft: PostDraft
+) => Promise<StageOutput>;
+
+const PROGRESS_STEPS: Record<PipelineStage, ProgressEvent["step"]> = {
+  select_subreddits: "plan_created",
+  assign_author: "generating_topic",
+  topic: "generating_topic",
+  post: "generating_post",
+  thread: "generating_comments",
+  score: "generating_comments",
+  persist: "generating_post",
+};
+
+const assignAuthor: PostStage = async (context, draft) => {
+  const selection = selectPostAuthor(
+    context.personas,
+    draft.subreddit,
+    context.existingPosts,
+    context.existingComments
+  );
+
+  if (!selection) {
+    const unverified = context.personas
+      .filter((p) => p.is_active)
+      .map((p) => ({ persona: p, missing: getMissingAccountDetails(p) }))
+      .filter((u) => u.missing.length > 0);
+    const reason =
+      unverified.length > 0
+        ? `; unverified: ${unverified
+            .map((u) => `u/${u.persona.username} (${u.missing.join(", ")})`)
+            .join("; ")}`
+        : "";
+    return {
+      skip: {
+        error: `No available author for subreddit ${draft.subreddit.name}${reason}`,
+        message: `⚠️ No available author for r/${draft.subreddit.name}, skipping...`,
+      },
+    };
+  }
+
+  draft.author = selection.persona;
+  return {
+    messages: [
+      `🎭 Selected persona: u/${selection.persona.username} (${selection.reason})`,
+    ],
+  };
+};
+
+const chooseTopic: PostStage = async (context, draft) => {
+  const topic = await generateTopic(
+    context.llm,
+    context.repository.topicMemory,
+    draft.subreddit,
+    context.keywords,
+    context.companyInfo,
+    context.campaign.id,
+    context.usedKeywordCodes
+  );
+
+  topic.matchedKeywords.forEach((k) =>
+    context.usedKeywordCodes.add(k.keyword_code)
+  );
+  draft.topic = topic;
+
+  const keywordDisplay =
+    topic.matchedKeywords.length > 0
+      ? topic.matchedKeywords.map((k) => k.keyword_code).join(", ")
+      : "organic";
+  return { messages: [`💡 Topic: "${topic.topic}" [${keywordDisplay}]`] };
+};
+
+const writePost: PostStage = async (context, draft) => {
+  const author = draft.author!;
+  const topic = draft.topic!;
+  const content = await generatePostContent(
+    context.llm,
+    author,
+    draft.subreddit,
+    topic.topic,
+    topic.angle,
+    topic.matchedKeywords,
+    context.companyInfo,
+    context.disclosure
+  );
+
+  const wordCount = content.body.split(/\s+/).length;
+  const generated = `📄 Generated post: "${content.title.slice(0, 50)}${content.title.length > 50 ? "..." : ""}" (${wordCount} words)`;
+
+  if (!isDisclosed(author, content.body, context.disclosure)) {
+    return {
+      messages: [generated],
+      skip: {
+        error: `Post for ${draft.subreddit.name} is missing the affiliation disclosure`,
+        message: `❌ Post is missing the affiliation disclosure, skipping...`,
+      },
+    };
+  }
+
+  draft.content = content;
+  return { messages: [generated] };
+};
+
+const planThread: PostStage = async (context, draft) => {
+  const author = draft.author!;
+  const content = draft.content!;
+  const brandAccount = selectCommenters(
+    context.personas,
+    author.id,
+    context.existingPosts,
+    context.existingComments
+  ).find((s) => s.reason === "author_reply")?.persona;
+
+  draft.thread = brandAccount
+    ? await planCommentThread(
+        context.llm,
+        content.title,
+        content.body,
+        author,
+        brandAccount,
+        draft.postDate,
+        context.companyInfo,
+        context.disclosure,
+        {
+          schedule: context.campaign.posting_schedule,
+          timeZone: context.campaign.timezone,
+        }
+      )
+    : { comments: [] };
+  draft.threadQuality = calculateThreadQuality(draft.thread.comments);
+
+  return {
+    messages: [
+      brandAccount
+        ? `🏷️ Replying as u/${brandAccount.username}`
+        : `⚠️ u/${author.username} is at its comment limit, no replies planned`,
+      `📊 Quality: ${Math.round(draft.threadQuality * 100)}%`,
+    ],
+  };
+};
+
+const scorePost: PostStage = async (context, draft) => {
+  const { subreddit } = draft;
+  const content = draft.content!;
+  const flair = subreddit.rules?.required_flair || null;
+  const postIsPromotional = isPromotional(
+    `${content.title} ${content.body}`,
+    context.productNames,
+    getPersonaDisclosure(draft.author!, context.disclosure)
+  );
+  const counts = context.promotionCounts.get(subreddit.name) || {
+    promotional: 0,
+    total: 0,
+  };
+  const ruleReport = checkSubredditRules(
+    subreddit,
+    {
+      title: content.title,
+      body: content.body,
+      topic: draft.topic!.topic,
+      flair,
+    },
+    {
+      promotional: counts.promotional + (postIsPromotional ? 1 : 0),
+      total: counts.total + 1,
+    }
+  );
+  const volumeItems: VolumeItem[] = [
+    {
+      postId: "",
+      subreddit: subreddit.name,
+      authorId: draft.author!.id,
+      scheduledAt: draft.postDate,
+      promotional: postIsPromotional,
+    },
+    ...draft.thread!.comments.map((c) => ({
+      postId: "",
+      subreddit: subreddit.name,
+      authorId: c.authorPersona.id,
+      scheduledAt: c.scheduledAt,
+      promotional: isPromotional(
+        c.text,
+        context.productNames,
+        getPersonaDisclosure(c.authorPersona, context.disclosure)
+      ),
+    })),
+  ];
+  const volumeViolations = checkVolumeCaps(
+    context.campaign.volume_caps || {},
+    context.volumeItems,
+    volumeItems,
+    new Map(context.personas.map((p) => [p.id, p.username]))
+  );
+  const failedRules = ruleReport.filter((r) => !r.passed);
+  const rulesMessage =
+    failedRules.length === 0
+      ? `📏 Passed all ${ruleReport.length} community rules`
+      : `⚠️ Failed community rules: ${failedRules.map((r) => r.detail).join("; ")}`;
+
+  const compliance = evaluateCompliance({
+    post: {
+      author: draft.author!,
+      text: `${content.title}\n\n${content.body}`,
+    },
+    comments: draft.thread!.comments.map((c) => ({
+      author: c.authorPersona,
+      text: c.text,
+    })),
+    productNames: context.productNames,
+    disclosure: context.disclosure,
+    approvedClaims: context.companyInfo.approved_claims || [],
+    competitors: context.companyInfo.competitors || [],
+    ruleReport,
+    volumeViolations,
+  });
+
+  if (compliance.blocked) {
+    const blockers = describeBlockers(compliance);
+    return {
+      messages: [rulesMessage],
+      skip: {
+        error: `Post for ${subreddit.name} blocked by compliance: ${blockers}`,
+        message: `🚫 Blocked by compliance: ${blockers}, skipping...`,
+      },
+    };
+  }
+
+  draft.flair = flair;
+  draft.ruleReport = ruleReport;
+  draft.compliance = compliance;
+  draft.isPromotional = postIsPromotional;
+  draft.volumeItems = volumeItems;
+  return {
+    messages: [
+      rulesMessage,
+      `🛡️ Compliance: ${Math.round(compliance.score * 100)}% of policy checks passed`,
+    ],
+  };
+};
+
+/**
+ * Save the post and its replies in one transaction. Returns the number of
+ * replies saved, or a skip when nothing could be saved.
+ */
+async function persistPost(
+  context: PipelineContext,
+  draft: PostDraft
+): Promise<StageOutput & { commentsSaved: number }> {
+  const { repository, campaign } = context;
+  const { subreddit } = draft;
+  const topic = draft.topic!;
+  const content = draft.content!;
+  const thread = draft.thread!;
+  const compliance = draft.compliance!;
+
+  let saved;
+  try {
+    saved = await repository.posts.createWithComments(
+      {
+        campaign_id: campaign.id,
+        weekly_plan_id: context.plan.id,
+        subreddit_name: subreddit.name,
+        author_persona_id: draft.author!.id,
+        post_type: "post",
+        title: content.title,
+        body: content.body,
+        target_keyword_codes: topic.matchedKeywords.map((k) => k.keyword_code),
+        topic_key: topic.topicKey,
+        scheduled_at: draft.postDate.toISOString(),
+        quality_score: draft.threadQuality!,
+        compliance_score: compliance.score,
+        compliance_report: compliance.checks,
+        dedupe_hash: generateDedupeHash(
+          subreddit.name,
+          topic.topicKey,
+          content.title
+        ),
+        flair: draft.flair ?? null,
+        rule_report: draft.ruleReport!,
+        review_status: "in_review",
+      },
+      thread.comments.map((comment) => ({
+        author_persona_id: comment.authorPersona.id,
+        reply_to_index: comment.replyToIndex,
+        comment_text: comment.text,
+        anticipated_question: comment.anticipatedQuestion ?? null,
+        scheduled_at: comment.scheduledAt.toISOString(),
+        quality_score: draft.threadQuality!,
+        review_status: "in_review",
+      }))
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return {
+      commentsSaved: 0,
+      skip: {
+        error: `Failed to save post for ${subreddit.name}: ${message}`,
+        message: `❌ Failed to save post and replies, nothing was saved: ${message}`,
+      },
+    };
+  }
+
+  recordPromotion(
+    context.promotionCounts,
+    subreddit.name,
+    draft.isPromotional!
+  );
+  context.volumeItems.push(
+    ...draft.volumeItems!.map((item) => ({ ...item, postId: saved.post.id }))
+  );
+  await repository.topicMemory.recordUsage(
+    campaign.id,
+    topic.topicKey,
+    subreddit.name
+  );
+
+  return {
+    commentsSaved: saved.comments.length,
+    messages: [
+      `💾 Saved post, scheduled for ${draft.postDate.toLocaleDateString()}`,
+      `💾 Saved ${saved.comments.length} suggested replies`,
+    ],
+  };
+}
+
+/** Stages run in order for every post; persist runs last, separately */
+const POST_STAGES: {
+  stage: PipelineStage;
+  run: PostStage;
+  start?: (draft: PostDraft) => string;
+}[] = [
+  { stage: "assign_author", run: assignAuthor },
+  {
+    stage: "topic",
+    run: chooseTopic,
+    start: (d) => `🧠 Generating topic for r/${d.subreddit.name}...`,
+  },
+  {
+    stage: "post",
+    run: writePost,
+    start: (d) => `✍️ Writing post as u/${d.author!.username}...`,
+  },
+  {
+    stage: "thread",
+    run: planThread,
+    start: () => `💬 Planning suggested replies...`,
+  },
+  { stage: "score", run: scorePost },
+];
+
+/**
+ * Load everything a run needs for the campaign's week. Throws if the
+ * campaign can't be planned, before any plan is opened.
+ */
+async function loadContext(
+  repository: Repository,
+  campaignId: string,
+  weekStartDate: Date
+): Promise<{
+  context: Omit<PipelineContext, "plan">;
+  subreddits: Subreddit[];
+}> {
+  const campaign = await repository.campaigns.get(campaignId);
+
+  if (!campaign) {
+    throw new Error(`Campaign not found: ${campaignId}`);
+  }
+
+  const personas = await repository.personas.listActive(campaignId);
+  const subreddits = await repository.subreddits.listActive(campaignId);
+  const keywords = await repository.keywords.listActive(campaignId);
+
+  if (!personas.length) {
+    throw new Error("No active personas found for campaign");
+  }
+
+  if (!subreddits.length) {
+    throw new Error("No active subreddits found for campaign");
+  }
+
+  const weekStart = startOfZonedDay(weekStartDate, campaign.timezone);
+  const weekEnd = startOfZonedDay(addDays(weekStartDate, 7), campaign.timezone);
+  const nearbyPosts = await repository.posts.listScheduledBetween(
+    campaignId,
+    startOfZonedDay(
+      addDays(weekStartDate, -LONGEST_CAP_WINDOW_DAYS),
+      campaign.timezone
+    ),
+    startOfZonedDay(
+      addDays(weekStartDate, 7 + LONGEST_CAP_WINDOW_DAYS),
+      campaign.timezone
+    )
+  );
+  const nearbyComments = await repository.comments.listByPosts(
+    nearbyPosts.map((p) => p.id)
+  );
+  const existingPosts = nearbyPosts.filter((p) => {
+    const scheduledAt = new Date(p.scheduled_at!).getTime();
+    return (
+      scheduledAt >= weekStart.getTime() && scheduledAt < weekEnd.getTime()
+    );
+  });
+  const weekPostIds = new Set(existingPosts.map((p) => p.id));
+  const existingComments = nearbyComments.filter((c) =>
+    weekPostIds.has(c.planned_post_id)
+  );
+
+  const companyInfo: CompanyInfo = campaign.company_info || {};
+  const disclosure = buildDisclosure(
+    campaign.company_name,
+    companyInfo.disclosure_template
+  );
+  const productNames = [
+    campaign.company_name,
+    companyInfo.website?.replace(/\..*/, "") || "",
+  ];
+
+  return {
+    subreddits,
+    context: {
+      repository,
+      llm: getLLMProvider(campaign.llm_settings || {}),
+      campaign,
+      weekStartDate,
+      personas,
+      keywords,
+      existingPosts,
+      existingComments,
+      companyInfo,
+      disclosure,
+      productNames,
+      usedKeywordCodes: new Set<string>(),
+      promotionCounts: countPromotionalPosts(
+        existingPosts,
+        productNames,
+        disclosure
+      ),
+      volumeItems: toVolumeItems(
+        nearbyPosts,
+        nearbyComments,
+        personas,
+        productNames,
+        disclosure
+      ),
+      totalPosts: 0,
+    },
+  };
+}
+
+export interface PipelineRun {
+  campaignId: string;
+  weekStartDate: Date;
+  /** Returns the plan to fill once the campaign is known to be plannable */
+  openPlan: () => Promise<WeeklyPlan>;
+  /** Continue an earlier run instead of starting over */
+  resume?: PipelineCheckpoint;
+  /** Checked before each post; the run stops early when it returns true */
+  isCancelled?: () => Promise<boolean>;
+}
+
+/** Where a run got to, enough to pick it up again */
+export interface PipelineCheckpoint {
+  /** Subreddits chosen for each post, in order */
+  subredditIds: string[];
+  /** Number of posts already finished (saved or skipped) */
+  completedPosts: number;
+  postsGenerated: number;
+  commentsGenerated: number;
+  errors: string[];
+}
+
+/**
+ * The status a plan ends in once its run stops: cancelled if the user
+ * stopped it, failed if nothing was saved despite errors, partially_failed
+ * if some posts were skipped, otherwise in_review.
+ */
+export function getFinishedPlanStatus(
+  postsGenerated: number,
+  errors: string[],
+  cancelled: boolean
+): WeeklyPlanStatus {
+  if (cancelled) return "cancelled";
+  if (errors.length === 0) return "in_review";
+  return postsGenerated === 0 ? "failed" : "partially_failed";
+}
+
+/**
+ * Generate and save the posts and suggested replies for a weekly plan that
+ * is in the "generating" status, then move it to review.
+ *
+ * Each post goes through the stages in order: select subreddits (once per
+ * plan), assign author, topic, post, thread, score, persist. A stage can
+ * skip a post; the reason is collected in `errors` and the run continues
+ * with the next post. Observers are awaited, so they can record
+ * checkpoints before the run moves on.
+ */
+export async function runGenerationPipeline(
+  repository: Repository,
+  run: PipelineRun,
+  observers: PipelineObserver[] = []
+): Promise<GenerationResult> {
+  const notify = async (fn: (observer: PipelineObserver) => Awaitable) => {
+    for (const observer of observers) {
+      await fn(observer);
+    }
+  };
+  const progress = (event: ProgressEvent) =>
+    notify((o) => o.onProgress?.(event));
+  const timed = async <T>(
+    stage: PipelineStage,
+    postIndex: number | undefined,
+    task: () => Promise<T>
+  ): Promise<T> => {
+    const start = Date.now();
+    try {
+      return await task();
+    } finally {
+      const durationMs = Date.now() - start;
+      await notify((o) =>
+        o.onStageComplete?.({ stage, postIndex, durationMs })
+      );
+    }
+  };
+
+  const loaded = await loadContext(
+    repository,
+    run.campaignId,
+    run.weekStartDate
+  );
+  const plan = await run.openPlan();
+
+  if (plan.status !== "generating") {
+    throw new Error("Weekly plan is not in generating status");
+  }
+
+  const errors: string[] = [...(run.resume?.errors || [])];
+  let postsGenerated = run.resume?.postsGenerated || 0;
+  let commentsGenerated = run.resume?.commentsGenerated || 0;
+
+  try {
+    const context: PipelineContext = { ...loaded.context, plan };
+    let cancelled = false;
+
+    await progress({
+      step: "plan_created",
+      stage: "select_subreddits",
+      message: run.resume
+        ? `🔁 Resuming after post ${run.resume.completedPosts}...`
+        : "🚀 Starting content generation...",
+    });
+
+    // On resume, a subreddit deactivated since the first run maps to null
+    // and its post is skipped
+    const selectedSubreddits: (Subreddit | null)[] = await timed(
+      "select_subreddits",
+      undefined,
+      async () =>
+        run.resume
+          ? run.resume.subredditIds.map(
+              (id) => loaded.subreddits.find((s) => s.id === id) || null
+            )
+          : selectSubredditsForWeek(
+              loaded.subreddits,
+              context.campaign.posts_per_week,
+              context.existingPosts
+            ).map((s) => s.subreddit)
+    );
+    const plannedSubreddits = selectedSubreddits.filter(
+      (s): s is Subreddit => s !== null
+    );
+    context.totalPosts = selectedSubreddits.length;
+
+    if (!run.resume) {
+      await notify((o) => o.onSubredditsSelected?.(plannedSubreddits));
+    }
+    await progress({
+      step: "plan_created",
+      stage: "select_subreddits",
+      message: `📋 Planning ${selectedSubreddits.length} posts across ${new Set(plannedSubreddits.map((s) => s.name)).size} subreddits`,
+    });
+
+    for (
+      let i = run.resume?.completedPosts || 0;
+      i < selectedSubreddits.length;
+      i++
+    ) {
+      const postIndex = i + 1;
+
+      if (await run.isCancelled?.()) {
+        cancelled = true;
+        await progress({
+          step: "plan_created",
+          message: `⏹️ Cancelled after ${i} of ${context.totalPosts} posts`,
+        });
+        break;
+      }
+
+      const subreddit = selectedSubreddits[i];
+      if (!subreddit) {
+        const error = `Subreddit for post ${postIndex} is no longer active`;
+        errors.push(error);
+        await progress({
+          step: "generating_topic",
+          stage: "select_subreddits",
+          postIndex,
+          message: `⚠️ ${error}, skipping...`,
+        });
+        await notify((o) =>
+          o.onPostSkipped?.("select_subreddits", postIndex, error)
+        );
+        continue;
+      }
+
+      const postDate = schedulePost(
+        context.weekStartDate,
+        i,
+        context.totalPosts,
+        context.campaign.posting_schedule,
+        context.campaign.timezone
+      );
+      if (!postDate) {
+        const error = `No posting window for post ${postIndex}: ${describeClosedWeek(
+          context.weekStartDate,
+          context.campaign.posting_schedule
+        )}`;
+        errors.push(error);
+        await progress({
+          step: "generating_topic",
+          stage: "select_subreddits",
+          postIndex,
+          message: `⚠️ ${error}, skipping...`,
+        });
+        await notify((o) =>
+          o.onPostSkipped?.("select_subreddits", postIndex, error)
+        );
+        continue;
+      }
+
+      const draft: PostDraft = { subreddit, postDate };
+      const report = (stage: PipelineStage, message: string) =>
+        progress({
+          step: PROGRESS_STEPS[stage],
+          stage,
+          postIndex,
+          subredditName: subreddit.name,
+          message,
+        });
+      const skip = async (stage: PipelineStage, reason: Skip) => {
+        errors.push(reason.error);
+        await report(stage, reason.message);
+        await notify((o) => o.onPostSkipped?.(stage, postIndex, reason.error));
+      };
+
+      await report(
+        "assign_author",
+        `📝 [Post ${postIndex}/${context.totalPosts}] Starting r/${subreddit.name}...`
+      );
+
+      let currentStage: PipelineStage = "assign_author";
+
+      try {
+        let skipped = false;
+
+        for (const stage of POST_STAGES) {
+          currentStage = stage.stage;
+          if (stage.start) await report(stage.stage, stage.start(draft));
+          const output = await timed(stage.stage, postIndex, () =>
+            stage.run(context, draft)
+          );
+          for (const message of output.messages || []) {
+            await report(stage.stage, message);
+          }
+
+          if (output.skip) {
+            await skip(stage.stage, output.skip);
+            skipped = true;
+            break;
+          }
+        }
+
+        if (skipped) continue;
+
+        currentStage = "persist";
+        const saved = await timed("persist", postIndex, () =>
+          persistPost(context, draft)
+        );
+        for (const message of saved.messages || []) {
+          await report("persist", message);
+        }
+
+        if (saved.skip) {
+          await skip("persist", saved.skip);
+          continue;
+        }
+
+        postsGenerated++;
+        commentsGenerated += saved.commentsSaved;
+
+        await notify((o) => o.onPostComplete?.(postIndex, saved.commentsSaved));
+        await progress({
+          step: "post_complete",
+          stage: "persist",
+          postIndex,
+          subredditName: subreddit.name,
+          message: `✅ Completed post ${postIndex}/${context.totalPosts} for r/${subreddit.name}`,
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        await skip(currentStage, {
+          error: `Error generating post for ${subreddit.name}: ${message}`,
+          message: `❌ Failed at ${currentStage}: ${message}, skipping...`,
+        });
+      }
+    }
+
+    const status = getFinishedPlanStatus(postsGenerated, errors, cancelled);
+    await repository.weeklyPlans.update(plan.id, {
+      status,
+      plan_json: {
+        generated_at: new Date().toISOString(),
+        posts_count: postsGenerated,
+        comments_count: commentsGenerated,
+        errors,
+      },
+    });
+
+    const result = {
+      weeklyPlanId: plan.id,
+      postsGenerated,
+      commentsGenerated,
+      errors,
+      cancelled,
+      status,
+    };
+    await notify((o) => o.onComplete?.(result));
+    return result;
+  } catch (err) {
+    // Leave the plan failed rather than stuck generating
+    const message = err instanceof Error ? err.message : "Unknown error";
+    await repository.weeklyPlans.update(plan.id, {
+      status: "failed",
+      plan_json: {
+        generated_at: new Date().toISOString(),
+        posts_count: postsGenerated,
+        comments_count: commentsGenerated,
+        errors,
+        error: message,
+      },
+    });
+    throw err;
+  }
+}
+
+/** Identifies a post in a campaign's weekly plan */
+export interface PostRef {
+  campaignId: string;
+  weeklyPlanId: string;
+  postId: string;
+}
+
+export type PostRegenerationMode = "content" | "topic";
+
+export interface PostRegeneration extends PostRef {
+  /** "content" rewrites the title and body; "topic" picks a new topic first */
+  mode: PostRegenerationMode;
+  actor: string;
+}
+
+export interface PostEdit extends PostRef {
+  title: string;
+  body: string;
+  actor: string;
+}
+
+export interface CommentEdit extends Omit<PostRef, "postId"> {
+  commentId: string;
+  text: string;
+  actor: string;
+}
+
+/**
+ * Load a saved post and its replies as a draft that the post and score
+ * stages can run on again. The rest of the week is loaded without the post,
+ * so it isn't scored against its own previous version.
+ */
+async function loadSavedPost(repository: Repository, ref: PostRef) {
+  const previous = await repository.posts.get(ref.postId);
+
+  if (
+    !previous ||
+    previous.campaign_id !== ref.campaignId ||
+    previous.weekly_plan_id !== ref.weeklyPlanId
+  ) {
+    throw new Error("Planned post not found");
+  }
+
+  const plan = await repository.weeklyPlans.get(previous.weekly_plan_id);
+
+  if (!plan) {
+    throw new Error("Weekly plan not found");
+  }
+
+  if (plan.status === "generating") {
+    throw new Error("Cannot change a post while the plan is generating");
+  }
+
+  const loaded = await loadContext(
+    repository,
+    ref.campaignId,
+    new Date(plan.week_start_date + "T00:00:00Z")
+  );
+  const subreddit = loaded.subreddits.find(
+    (s) => s.name === previous.subreddit_name
+  );
+  if (!subreddit) {
+    throw new Error(`r/${previous.subreddit_name} is no longer active`);
+  }
+
+  const personas = new Map(loaded.context.personas.map((p) => [p.id, p]));
+  const author = personas.get(previous.author_persona_id);
+  if (!author) {
+    throw new Error("The post's author is no longer active");
+  }
+
+  const replies = await repository.comments.listByPosts([previous.id]);
+  const thread = replies.map((reply) => {
+    const replyAuthor = personas.get(reply.author_persona_id);
+    if (!replyAuthor) {
+      throw new Error("A suggested reply's author is no longer active");
+    }
+    const replyTo = replies.findIndex(
+      (r) => r.id === reply.reply_to_comment_id
+    );
+    return {
+      authorPersona: replyAuthor,
+      replyToIndex: replyTo === -1 ? null : replyTo,
+      text: reply.comment_text,
+      scheduledAt: new Date(reply.scheduled_at || Date.now()),
+      isAuthorReply: reply.author_persona_id === author.id,
+      anticipatedQuestion: reply.anticipated_question ?? undefined,
+    };
+  });
+
+  const existingPosts = loaded.context.existingPosts.filter(
+    (p) => p.id !== previous.id
+  );
+  const context: PipelineContext = {
+    ...loaded.context,
+    plan,
+    existingPosts,
+    usedKeywordCodes: new Set(
+      existingPosts.flatMap((p) => p.target_keyword_codes)
+    ),
+    promotionCounts: countPromotionalPosts(
+      existingPosts,
+      loaded.context.productNames,
+      loaded.context.disclosure
+    ),
+    volumeItems: loaded.context.volumeItems.filter(
+      (i) => i.postId !== previous.id
+    ),
+  };
+  const draft: PostDraft = {
+    subreddit,
+    postDate: new Date(previous.scheduled_at || plan.week_start_date),
+    author,
+    topic: {
+      topic: previous.topic_key.replace(/_/g, " "),
+      topicKey: previous.topic_key,
+      angle: `A fresh take on: ${previous.title}`,
+      matchedKeywords: context.keywords.filter((k) =>
+        previous.target_keyword_codes.includes(k.keyword_code)
+      ),
+    },
+    content: { title: previous.title, body: previous.body },
+    thread: { comments: thread },
+    threadQuality: previous.quality_score,
+  };
+
+  return { previous, replies, context, draft };
+}
+
+/** Run stages on a saved post's draft, throwing if any would skip it */
+async function runStages(
+  context: PipelineContext,
+  draft: PostDraft,
+  stages: PostStage[]
+): Promise<void> {
+  for (const stage of stages) {
+    const output = await stage(context, draft);
+    if (output.skip) {
+      throw new Error(output.skip.error);
+    }
+  }
+}
+
+/** The scored content of a draft, as saved on its post */
+function draftContent(draft: PostDraft): PostContentUpdate {
+  const topic = draft.topic!;
+  const content = draft.content!;
+  return {
+    title: content.title,
+    body: content.body,
+    topic_key: topic.topicKey,
+    target_keyword_codes: topic.matchedKeywords.map((k) => k.keyword_code),
+    quality_score: draft.threadQuality!,
+    compliance_score: draft.compliance!.score,
+    compliance_report: draft.compliance!.checks,
+    rule_report: draft.ruleReport!,
+    flair: draft.flair ?? null,
+    dedupe_hash: generateDedupeHash(
+      draft.subreddit.name,
+      topic.topicKey,
+      content.title
+    ),
+  };
+}
+
+/**
+ * Rewrite one post in place, keeping its subreddit, author, schedule and
+ * suggested replies. The new version goes through the same post and score
+ * stages as a generated post and throws if they would skip it. The old
+ * version is kept as a revision and the post goes back to review.
+ */
+export async function regeneratePost(
+  repository: Repository,
+  request: PostRegeneration
+): Promise<{
+  post: PlannedPost;
+  previous: PlannedPost;
+  revision: PostRevision;
+}> {
+  const { previous, context, draft } = await loadSavedPost(repository, request);
+  assertCanResubmit(previous.review_status);
+
+  if (request.mode === "topic") {
+    await runStages(context, draft, [chooseTopic, writePost, scorePost]);
+  } else {
+    await runStages(context, draft, [writePost, scorePost]);
+  }
+
+  const { post, revision } = await repository.posts.revise(
+    previous.id,
+    draftContent(draft),
+    {
+      change:
+        request.mode === "topic" ? "regenerate_topic" : "regenerate_content",
+      created_by: request.actor,
+    }
+  );
+
+  if (request.mode === "topic") {
+    await repository.topicMemory.recordUsage(
+      request.campaignId,
+      draft.topic!.topicKey,
+      draft.subreddit.name
+    );
+  }
+
+  return { post, previous, revision };
+}
+
+/**
+ * Save a reviewer's edit to a post's title and body. The edited post must
+ * still carry its disclosure and pass the compliance checks; its scores are
+ * recalculated, the old version is kept as a revision and the post goes
+ * back to review.
+ */
+export async function editPost(
+  repository: Repository,
+  request: PostEdit
+): Promise<{
+  post: PlannedPost;
+  previous: PlannedPost;
+  revision: PostRevision;
+}> {
+  const { previous, context, draft } = await loadSavedPost(repository, request);
+  assertCanResubmit(previous.review_status);
+
+  draft.content = { title: request.title, body: request.body };
+  if (!isDisclosed(draft.author!, request.body, context.disclosure)) {
+    throw new Error("The post must keep its affiliation disclosure");
+  }
+  await runStages(context, draft, [scorePost]);
+
+  const { post, revision } = await repository.posts.revise(
+    previous.id,
+    draftContent(draft),
+    { change: "edit", created_by: request.actor }
+  );
+
+  return { post, previous, revision };
+}
+
+/**
+ * Save a reviewer's edit to a suggested reply. The thread is scored again
+ * with the new text and must still pass the compliance checks. The old
+ * text is kept as a revision, the reply goes back to review and its post's
+ * scores are updated.
+ */
+export async function editComment(
+  repository: Repository,
+  request: CommentEdit
+): Promise<{
+  comment: PlannedComment;
+  previous: PlannedComment;
+  revision: CommentRevision;
+  post: PlannedPost;
+}> {
+  const saved = await repository.comments.get(request.commentId);
+
+  if (!saved || saved.campaign_id !== request.campaignId) {
+    throw new Error("Planned comment not found");
+  }
+  assertCanResubmit(saved.review_status);
+
+  const { replies, context, draft } = await loadSavedPost(repository, {
+    ...request,
+    postId: saved.planned_post_id,
+  });
+  const index = replies.findIndex((r) => r.id === saved.id);
+
+  const thread = draft.thread!.comments;
+  thread[index] = { ...thread[index], text: request.text };
+  draft.threadQuality = calculateThreadQuality(thread);
+  await runStages(context, draft, [scorePost]);
+
+  const { comment, revision, post } = await repository.comments.revise(
+    request.commentId,
+    { comment_text: request.text, quality_score: draft.threadQuality },
+    { created_by: request.actor },
+    {
+      quality_score: draft.threadQuality,
+      compliance_score: draft.compliance!.score,
+      compliance_report: draft.compliance!.checks,
+      rule_report: draft.ruleReport!,
+    }
+  );
+
+  return { comment, previous: saved, revision, post };
+}
@@ -0,0 +1,379 @@
+import { Repository, repository as defaultRepository } from "../repository";
+import {
+  PlannedPost,
+  PlannedComment,
+  PostOutcome,
+  ReviewStatus,
+  Subreddit,
+  WeeklyPlanStatus,
+} from "../types";
+import { needsLegalApproval } from "./competitors";
+
+export type ReviewItemType = "post" | "comment";
+
+/**
+ * The weekly plan or item doesn't exist in the campaign
+ */
+export class ReviewNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewNotFoundError";
+  }
+}
+
+/**
+ * The decision isn't allowed in the plan's or item's current state
+ */
+export class ReviewConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewConflictError";
+  }
+}
+
+/**
+ * The HTTP status for an error thrown by a review action: 404 or 409 for
+ * the errors above, 500 for anything else (e.g. a failed database write)
+ */
+export function reviewErrorStatus(err: unknown): number {
+  if (err instanceof ReviewNotFoundError) return 404;
+  if (err instanceof ReviewConflictError) return 409;
+  return 500;
+}
+
+export interface LegalDecision {
+  postId: string;
+  approver: string;
+}
+
+export interface OutcomeDecision {
+  postId: string;
+  outcome: PostOutcome;
+  note: string | null;
+  recorder: string;
+}
+
+export interface ReviewDecision {
+  itemType: ReviewItemType;
+  itemId: string;
+  status: Extract<ReviewStatus, "approved" | "rejected">;
+  reviewer: string;
+  note: string | null;
+}
+
+/**
+ * Allowed review status changes. Generated items start in review, where a
+ * reviewer approves or rejects them. Editing or regenerating an approved or
+ * rejected item sends it back to review (see assertCanResubmit).
+ */
+const REVIEW_TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  in_review: ["approved", "rejected"],
+  approved: ["in_review"],
+  rejected: ["in_review"],
+};
+
+/**
+ * Outcomes that take the post's community out of the campaign until someone
+ * reviews it
+ */
+const PAUSING_OUTCOMES: PostOutcome[] = [
+  "removed_by_mods",
+  "removed_by_admins",
+  "warned",
+];
+
+export function pausesCommunity(outcome: PostOutcome): boolean {
+  return PAUSING_OUTCOMES.includes(outcome);
+}
+
+export function canTransition(from: ReviewStatus, to: ReviewStatus): boolean {
+  return REVIEW_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check that an item whose content is changing can go back to review.
+ * Items already in review stay there.
+ */
+export function assertCanResubmit(status: ReviewStatus): void {
+  if (status !== "in_review" && !canTransition(status, "in_review")) {
+    throw new ReviewConflictError(
+      `Cannot send a ${status} item back to review`
+    );
+  }
+}
+
+/**
+ * A plan is ready only when it has posts and every post and comment has
+ * been approved by a named reviewer
+ */
+export function isPlanApproved(
+  posts: Pick<PlannedPost, "review_status" | "reviewed_by">[],
+  comments: Pick<PlannedComment, "review_status" | "reviewed_by">[]
+): boolean {
+  if (posts.length === 0) return false;
+
+  return [...posts, ...comments].every(
+    (item) => item.review_status === "approved" && !!item.reviewed_by?.trim()
+  );
+}
+
+/**
+ * Load a plan's posts and comments
+ */
+async function getPlanItems(repository: Repository, weeklyPlanId: string) {
+  const posts = await repository.posts.listByPlan(weeklyPlanId);
+  const comments = await repository.comments.listByPosts(
+    posts.map((p) => p.id)
+  );
+
+  return { posts, comments };
+}
+
+/**
+ * Load a weekly plan that belongs to the campaign and can be reviewed
+ */
+async function getReviewablePlan(
+  repository: Repository,
+  campaignId: string,
+  weeklyPlanId: string
+) {
+  const plan = await repository.weeklyPlans.get(weeklyPlanId);
+
+  if (!plan || plan.campaign_id !== campaignId) {
+    throw new ReviewNotFoundError("Weekly plan not found");
+  }
+
+  if (plan.status === "generating") {
+    throw new ReviewConflictError(
+      "Cannot review a plan that is still generating"
+    );
+  }
+  if (plan.status === "failed") {
+    throw new ReviewConflictError(
+      "Cannot review a plan whose generation failed"
+    );
+  }
+
+  return plan;
+}
+
+/**
+ * Whether a plan in this status has items ready for review
+ */
+function isReviewable(status: WeeklyPlanStatus): boolean {
+  return status !== "generating" && status !== "failed";
+}
+
+/**
+ * Set a reviewed plan to "ready" when every item is approved. Otherwise a
+ * ready plan goes back to "in_review", or "partially_failed" if its run
+ * skipped posts, and any other status is kept. Plans that are generating
+ * or failed are left alone.
+ */
+export async function syncPlanReviewStatus(
+  weeklyPlanId: string,
+  repository: Repository = defaultRepository
+): Promise<WeeklyPlanStatus> {
+  const plan = await repository.weeklyPlans.get(weeklyPlanId);
+
+  if (!plan || !isReviewable(plan.status)) {
+    return plan?.status ?? "generating";
+  }
+
+  const { posts, comments } = await getPlanItems(repository, weeklyPlanId);
+  const status: WeeklyPlanStatus = isPlanApproved(posts, comments)
+    ? "ready"
+    : plan.status !== "ready"
+      ? plan.status
+      : plan.plan_json.errors?.length
+        ? "partially_failed"
+        : "in_review";
+
+  if (status !== plan.status) {
+    await repository.weeklyPlans.update(weeklyPlanId, { status });
+  }
+
+  return status;
+}
+
+/**
+ * Record a named reviewer's decision on a post or comment in a weekly plan
+ * and update the plan's status to match.
+ */
+export async function reviewPlanItem(
+  campaignId: string,
+  weeklyPlanId: string,
+  decision: ReviewDecision,
+  repository: Repository = defaultRepository
+): Promise<{
+  item: PlannedPost | PlannedComment;
+  previous: PlannedPost | PlannedComment;
+  planStatus: WeeklyPlanStatus;
+}> {
+  await getReviewablePlan(repository, campaignId, weeklyPlanId);
+
+  const { posts, comments } = await getPlanItems(repository, weeklyPlanId);
+  const current = (decision.itemType === "post" ? posts : comments).find(
+    (i) => i.id === decision.itemId
+  );
+
+  if (!current) {
+    throw new ReviewNotFoundError(
+      `${decision.itemType} not found in this weekly plan`
+    );
+  }
+
+  if (!canTransition(current.review_status, decision.status)) {
+    throw new ReviewConflictError(
+      `Cannot change a ${decision.itemType} from ${current.review_status} to ${decision.status}`
+    );
+  }
+
+  const post = posts.find(
+    (p) =>
+      p.id ===
+      ("planned_post_id" in current ? current.planned_post_id : current.id)
+  );
+  if (
+    decision.status === "approved" &&
+    post &&
+    needsLegalApproval(post.compliance_report) &&
+    !post.legal_approved_by
+  ) {
+    throw new ReviewConflictError(
+      `This thread compares the product with competitors and needs legal approval before the ${decision.itemType} can be approved`
+    );
+  }
+
+  const review = {
+    review_status: decision.status,
+    reviewed_by: decision.reviewer,
+    reviewed_at: new Date().toISOString(),
+    review_note: decision.note,
+  };
+
+  let item: PlannedPost | PlannedComment;
+  try {
+    item =
+      decision.itemType === "post"
+        ? await repository.posts.updateReview(decision.itemId, review)
+        : await repository.comments.updateReview(decision.itemId, review);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new Error(`Failed to update ${decision.itemType}: ${message}`);
+  }
+
+  const planStatus = await syncPlanReviewStatus(weeklyPlanId, repository);
+
+  return { item, previous: current, planStatus };
+}
+
+/**
+ * Record legal sign-off on a post whose thread compares the product with
+ * competitors. The post and its replies can only be approved afterwards.
+ */
+export async function approveLegal(
+  campaignId: string,
+  weeklyPlanId: string,
+  decision: LegalDecision,
+  repository: Repository = defaultRepository
+): Promise<{ item: PlannedPost; previous: PlannedPost }> {
+  await getReviewablePlan(repository, campaignId, weeklyPlanId);
+
+  const posts = await repository.posts.listByPlan(weeklyPlanId);
+  const current = posts.find((p) => p.id === decision.postId);
+
+  if (!current) {
+    throw new ReviewNotFoundError("post not found in this weekly plan");
+  }
+
+  if (!needsLegalApproval(current.compliance_report)) {
+    throw new ReviewConflictError(
+      "This post makes no comparisons that need legal approval"
+    );
+  }
+
+  if (current.legal_approved_by) {
+    throw new ReviewConflictError(
+      `Already approved by legal (${current.legal_approved_by})`
+    );
+  }
+
+  let item: PlannedPost;
+  try {
+    item = await repository.posts.updateLegalApproval(decision.postId, {
+      legal_approved_by: decision.approver,
+      legal_approved_at: new Date().toISOString(),
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new Error(`Failed to update post: ${message}`);
+  }
+
+  return { item, previous: current };
+}
+
+/**
+ * Record what happened to an approved post after it was published by hand.
+ * A removal or warning also deactivates the post's community for the
+ * campaign, so no more content is planned there until someone turns it
+ * back on.
+ */
+export async function recordOutcome(
+  campaignId: string,
+  weeklyPlanId: string,
+  decision: OutcomeDecision,
+  repository: Repository = defaultRepository
+): Promise<{
+  item: PlannedPost;
+  previous: PlannedPost;
+  /** The post's community, when this outcome deactivated it */
+  pausedSubreddit: Subreddit | null;
+}> {
+  const plan = await repository.weeklyPlans.get(weeklyPlanId);
+  if (!plan || plan.campaign_id !== campaignId) {
+    throw new ReviewNotFoundError("Weekly plan not found");
+  }
+
+  const posts = await repository.posts.listByPlan(weeklyPlanId);
+  const current = posts.find((p) => p.id === decision.postId);
+
+  if (!current) {
+    throw new ReviewNotFoundError("post not found in this weekly plan");
+  }
+
+  if (current.review_status !== "approved") {
+    throw new ReviewConflictError(
+      "Only approved posts can have an outcome recorded"
+    );
+  }
+
+  const community = pausesCommunity(decision.outcome)
+    ? (await repository.subreddits.listActive(campaignId)).some(
+        (s) => s.name === current.subreddit_name
+      )
+    : false;
+
+  let saved: Awaited<ReturnType<Repository["posts"]["recordOutcome"]>>;
+  try {
+    saved = await repository.posts.recordOutcome(
+      decision.postId,
+      {
+        outcome: decision.outcome,
+        outcome_note: decision.note,
+        outcome_recorded_by: decision.recorder,
+        outcome_recorded_at: new Date().toISOString(),
+      },
+      community
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new Error(`Failed to update post: ${message}`);
+  }
+
+  return {
+    item: saved.post,
+    previous: current,
+    pausedSubreddit: saved.subreddit,
+  };
+}
@@ -0,0 +1,156 @@
+import { BlackoutPeriod, PostingSchedule, Weekday } from "../types";
+import { addDays, getZonedDate, zonedTimeToUtc } from "./timezone";
+
+export const DEFAULT_POSTING_SCHEDULE = {
+  days: [0, 1, 2, 3, 4, 5, 6] as Weekday[],
+  start_hour: 9,
+  end_hour: 20,
+};
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function toDateString(calendarDate: Date): string {
+  return calendarDate.toISOString().split("T")[0];
+}
+
+/**
+ * The blackout covering a calendar date (at UTC midnight), if any
+ */
+export function findBlackout(
+  calendarDate: Date,
+  blackouts: BlackoutPeriod[] = []
+): BlackoutPeriod | undefined {
+  const date = toDateString(calendarDate);
+  return blackouts.find((b) => b.start_date <= date && date <= b.end_date);
+}
+
+/**
+ * The days of the week starting on `weekStartDate` that posts may go out
+ * on: allowed weekdays that aren't blacked out
+ */
+export function getOpenDays(
+  weekStartDate: Date,
+  schedule: PostingSchedule
+): Date[] {
+  const days = schedule.days ?? DEFAULT_POSTING_SCHEDULE.days;
+  const open: Date[] = [];
+
+  for (let offset = 0; offset < 7; offset++) {
+    const date = addDays(weekStartDate, offset);
+    if (
+      days.includes(date.getUTCDay() as Weekday) &&
+      !findBlackout(date, schedule.blackouts)
+    ) {
+      open.push(date);
+    }
+  }
+  return open;
+}
+
+/**
+ * Why a week has no open days, for reporting posts that couldn't be
+ * scheduled
+ */
+export function describeClosedWeek(
+  weekStartDate: Date,
+  schedule: PostingSchedule
+): string {
+  const days = schedule.days ?? DEFAULT_POSTING_SCHEDULE.days;
+  const reasons = new Set<string>();
+
+  for (let offset = 0; offset < 7; offset++) {
+    const date = addDays(weekStartDate, offset);
+    const blackout = findBlackout(date, schedule.blackouts);
+    if (blackout && days.includes(date.getUTCDay() as Weekday)) {
+      reasons.add(blackout.reason || "blackout");
+    }
+  }
+
+  const allowed = days.map((d) => WEEKDAY_NAMES[d]).join(", ") || "none";
+  return reasons.size > 0
+    ? `every allowed day (${allowed}) is blacked out: ${[...reasons].join(", ")}`
+    : `no posting days are allowed`;
+}
+
+/**
+ * Schedule the i-th of `total` posts: spread evenly across the week's open
+ * days, at a random time inside the posting hours in the campaign's
+ * timezone. Returns null when the week has no open days.
+ */
+export function schedulePost(
+  weekStartDate: Date,
+  i: number,
+  total: number,
+  schedule: PostingSchedule,
+  timeZone: string,
+  random: () => number = Math.random
+): Date | null {
+  const openDays = getOpenDays(weekStartDate, schedule);
+  if (openDays.length === 0) return null;
+
+  const startHour = schedule.start_hour ?? DEFAULT_POSTING_SCHEDULE.start_hour;
+  const endHour = schedule.end_hour ?? DEFAULT_POSTING_SCHEDULE.end_hour;
+  const postDate = openDays[Math.floor((i / total) * openDays.length)];
+  const minuteOfWindow = Math.floor(random() * (endHour - startHour) * 60);
+
+  return zonedTimeToUtc(
+    {
+      year: postDate.getUTCFullYear(),
+      month: postDate.getUTCMonth() + 1,
+      day: postDate.getUTCDate(),
+      hour: startHour + Math.floor(minuteOfWindow / 60),
+      minute: minuteOfWindow % 60,
+    },
+    timeZone
+  );
+}
+
+/**
+ * The instant a calendar date (at UTC midnight) reaches the hour in the zone
+ */
+function atZonedHour(calendarDate: Date, hour: number, timeZone: string) {
+  return zonedTimeToUtc(
+    {
+      year: calendarDate.getUTCFullYear(),
+      month: calendarDate.getUTCMonth() + 1,
+      day: calendarDate.getUTCDate(),
+      hour,
+      minute: 0,
+    },
+    timeZone
+  );
+}
+
+/**
+ * Move a time that falls outside the posting hours, on a disallowed
+ * weekday or in a blackout to when posting next opens. Times inside the
+ * window are returned as is.
+ */
+export function fitToPostingWindow(
+  time: Date,
+  schedule: PostingSchedule,
+  timeZone: string
+): Date {
+  const days = schedule.days ?? DEFAULT_POSTING_SCHEDULE.days;
+  const startHour = schedule.start_hour ?? DEFAULT_POSTING_SCHEDULE.start_hour;
+  const endHour = schedule.end_hour ?? DEFAULT_POSTING_SCHEDULE.end_hour;
+  const today = getZonedDate(time, timeZone);
+
+  for (let offset = 0; offset <= 366; offset++) {
+    const date = addDays(today, offset);
+    if (
+      !days.includes(date.getUTCDay() as Weekday) ||
+      findBlackout(date, schedule.blackouts)
+    ) {
+      continue;
+    }
+
+    const opens = atZonedHour(date, startHour, timeZone);
+    if (time < atZonedHour(date, endHour, timeZone)) {
+      return time > opens ? time : opens;
+    }
+  }
+
+  // Nothing opens for a year; leave the time for review to catch
+  return time;
+}
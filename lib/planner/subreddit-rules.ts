@@ -0,0 +1,154 @@
+import { Subreddit, PlannedPost, RuleCheckResult } from "../types";
+
+interface PostForRuleCheck {
+  title: string;
+  body: string;
+  topic: string;
+  flair: string | null;
+}
+
+export interface PromotionCounts {
+  promotional: number;
+  total: number;
+}
+
+/**
+ * Returns false if the community's rules forbid disclosed vendor posts.
+ * Communities without a recorded rule are treated as allowing them.
+ */
+export function allowsVendorParticipation(subreddit: Subreddit): boolean {
+  return (subreddit.rules || {}).allows_disclosed_vendor_posts !== false;
+}
+
+/**
+ * Check whether text promotes the product, ignoring the disclosure itself
+ * (which always names the company).
+ */
+export function isPromotional(
+  text: string,
+  productNames: string[],
+  disclosure: string
+): boolean {
+  const withoutDisclosure = text
+    .toLowerCase()
+    .split(disclosure.toLowerCase())
+    .join(" ");
+
+  return productNames
+    .filter((name) => name.trim().length > 0)
+    .some((name) => withoutDisclosure.includes(name.trim().toLowerCase()));
+}
+
+/**
+ * Check a planned post against the community's recorded rules.
+ *
+ * @param promotion - Promotional vs total campaign posts in the community,
+ *   including the post being checked
+ */
+export function checkSubredditRules(
+  subreddit: Subreddit,
+  post: PostForRuleCheck,
+  promotion: PromotionCounts
+): RuleCheckResult[] {
+  const rules = subreddit.rules || {};
+  const results: RuleCheckResult[] = [];
+
+  results.push(
+    allowsVendorParticipation(subreddit)
+      ? {
+          rule: "vendor_participation",
+          passed: true,
+          detail:
+            rules.allows_disclosed_vendor_posts === true
+              ? "Disclosed vendor posts are allowed"
+              : "No vendor rule recorded",
+        }
+      : {
+          rule: "vendor_participation",
+          passed: false,
+          detail: "Community does not allow vendor posts",
+        }
+  );
+
+  if (
+    rules.max_self_promotion_ratio !== undefined &&
+    rules.max_self_promotion_ratio !== null
+  ) {
+    const ratio =
+      promotion.total > 0 ? promotion.promotional / promotion.total : 0;
+    const limitPercent = Math.round(rules.max_self_promotion_ratio * 100);
+    results.push({
+      rule: "self_promotion_ratio",
+      passed: ratio <= rules.max_self_promotion_ratio,
+      detail: `${promotion.promotional} of ${promotion.total} posts promotional (limit ${limitPercent}%)`,
+    });
+  }
+
+  if (rules.required_flair) {
+    const hasFlair =
+      post.flair?.toLowerCase() === rules.required_flair.toLowerCase();
+    results.push({
+      rule: "required_flair",
+      passed: hasFlair,
+      detail: hasFlair
+        ? `Flair "${rules.required_flair}" applied`
+        : `Requires flair "${rules.required_flair}"`,
+    });
+  }
+
+  const bannedTopics = (rules.banned_topics || []).filter(
+    (t) => t.trim().length > 0
+  );
+  if (bannedTopics.length > 0) {
+    const text = `${post.topic} ${post.title} ${post.body}`.toLowerCase();
+    const matched = bannedTopics.filter((t) =>
+      text.includes(t.trim().toLowerCase())
+    );
+    results.push({
+      rule: "banned_topics",
+      passed: matched.length === 0,
+      detail:
+        matched.length === 0
+          ? "No banned topics"
+          : `Mentions banned topic: ${matched.join(", ")}`,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Count promotional vs total posts per community for self-promotion checks
+ */
+export function countPromotionalPosts(
+  posts: PlannedPost[],
+  productNames: string[],
+  disclosure: string
+): Map<string, PromotionCounts> {
+  const counts = new Map<string, PromotionCounts>();
+
+  for (const post of posts) {
+    recordPromotion(
+      counts,
+      post.subreddit_name,
+      isPromotional(`${post.title} ${post.body}`, productNames, disclosure)
+    );
+  }
+
+  return counts;
+}
+
+/**
+ * Add one post to a community's promotion counts
+ */
+export function recordPromotion(
+  counts: Map<string, PromotionCounts>,
+  subredditName: string,
+  promotional: boolean
+): void {
+  const current = counts.get(subredditName) || { promotional: 0, total: 0 };
+  counts.set(subredditName, {
+    promotional: current.promotional + (promotional ? 1 : 0),
+    total: current.total + 1,
+  });
+}
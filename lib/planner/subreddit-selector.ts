@@ -1,4 +1,5 @@
 import { Subreddit, PlannedPost } from "../types";
+import { allowsVendorParticipation } from "./subreddit-rules";
 
 interface SubredditSelection {
   subreddit: Subreddit;
@@ -8,6 +9,7 @@ interface SubredditSelection {
 /**
  * Selects subreddits for the week's posts with simple variety logic.
  * Distributes posts across subreddits to avoid overposting.
+ * Skips communities whose rules forbid vendor participation.
  */
 export function selectSubredditsForWeek(
   subreddits: Subreddit[],
@@ -20,6 +22,12 @@ export function selectSubredditsForWeek(
     throw new Error("No active subreddits available");
   }
 
+  const eligibleSubreddits = activeSubreddits.filter(allowsVendorParticipation);
+
+  if (eligibleSubreddits.length === 0) {
+    throw new Error("No active subreddits allow vendor participation");
+  }
+
   const postsPerSubreddit = new Map<string, number>();
   for (const post of existingPostsThisWeek) {
     const count = postsPerSubreddit.get(post.subreddit_name) || 0;
@@ -30,7 +38,7 @@ export function selectSubredditsForWeek(
   const usedThisSelection = new Map<string, number>();
 
   for (let i = 0; i < postsPerWeek; i++) {
-    const scoredSubreddits = activeSubreddits
+    const scoredSubreddits = eligibleSubreddits
       .map((subreddit) => {
         const existingCount = postsPerSubreddit.get(subreddit.name) || 0;
         const selectedCount = usedThisSelection.get(subreddit.name) || 0;
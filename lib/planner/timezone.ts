@@ -0,0 +1,154 @@
+/**
+ * Calendar arithmetic in a campaign's IANA timezone.
+ *
+ * Calendar dates (like a plan's week_start_date) are passed around as a
+ * Date at UTC midnight; instants (like a post's scheduled_at) are real
+ * moments in time. These helpers convert between the two for a given zone,
+ * using the zone's offset on that day so DST changes are handled.
+ */
+
+export interface WallClockTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Returns true if the runtime knows the IANA timezone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getWallClockParts(date: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+/**
+ * Minutes the zone is ahead of UTC at the given instant (negative west of
+ * Greenwich)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const wall = getWallClockParts(date, timeZone);
+  const wallAsUtc = Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hour,
+    wall.minute,
+    wall.second
+  );
+  return Math.round(
+    (wallAsUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000
+  );
+}
+
+/**
+ * The instant a wall-clock time happens in the zone. A time skipped by a
+ * DST change resolves to the instant an hour either side of the gap.
+ */
+export function zonedTimeToUtc(wall: WallClockTime, timeZone: string): Date {
+  const wallAsUtc = Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hour,
+    wall.minute
+  );
+  const guess =
+    wallAsUtc - getTimeZoneOffset(new Date(wallAsUtc), timeZone) * 60000;
+  return new Date(
+    wallAsUtc - getTimeZoneOffset(new Date(guess), timeZone) * 60000
+  );
+}
+
+/**
+ * The calendar date it is in the zone at the given instant, as a Date at
+ * UTC midnight
+ */
+export function getZonedDate(date: Date, timeZone: string): Date {
+  const wall = getWallClockParts(date, timeZone);
+  return new Date(Date.UTC(wall.year, wall.month - 1, wall.day));
+}
+
+/**
+ * The instant a calendar date (at UTC midnight) starts in the zone
+ */
+export function startOfZonedDay(calendarDate: Date, timeZone: string): Date {
+  return zonedTimeToUtc(
+    {
+      year: calendarDate.getUTCFullYear(),
+      month: calendarDate.getUTCMonth() + 1,
+      day: calendarDate.getUTCDate(),
+      hour: 0,
+      minute: 0,
+    },
+    timeZone
+  );
+}
+
+/**
+ * The calendar date `days` after another
+ */
+export function addDays(calendarDate: Date, days: number): Date {
+  const date = new Date(calendarDate);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date;
+}
+
+/**
+ * The wall-clock time of an instant in a timezone as an ISO 8601 string
+ * with that zone's offset, e.g. 2025-12-08T05:00:00-05:00
+ */
+export function toZonedIso(date: Date, timeZone: string): string {
+  const wall = getWallClockParts(date, timeZone);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const wallClock = `${wall.year}-${pad(wall.month)}-${pad(wall.day)}T${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}`;
+
+  const offsetMinutes = getTimeZoneOffset(date, timeZone);
+  if (offsetMinutes === 0) return `${wallClock}Z`;
+
+  const sign = offsetMinutes > 0 ? "+" : "-";
+  const abs = Math.abs(offsetMinutes);
+  return `${wallClock}${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
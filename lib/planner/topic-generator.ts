@@ -1,6 +1,6 @@
-import { supabase } from "../supabase";
-import { openai } from "../openai";
-import { Keyword, Subreddit, TopicMemory, CompanyInfo } from "../types";
+import { LLMProvider } from "../llm";
+import { TopicMemoryRepository } from "../repository";
+import { Keyword, Subreddit, CompanyInfo } from "../types";
 
 interface TopicSuggestion {
   topic: string;
@@ -17,20 +17,17 @@ interface TopicSuggestion {
  * - Feels like a genuine question/discussion, not an ad
  */
 export async function generateTopic(
+  llm: LLMProvider,
+  topicMemory: TopicMemoryRepository,
   subreddit: Subreddit,
   keywords: Keyword[],
   companyInfo: CompanyInfo,
   campaignId: string,
   usedKeywordCodes: Set<string> = new Set()
 ): Promise<TopicSuggestion> {
-  const { data: topicMemory } = await supabase
-    .from("topic_memory")
-    .select("*")
-    .eq("campaign_id", campaignId)
-    .order("last_used_at", { ascending: false })
-    .limit(20);
-
-  const recentTopics = (topicMemory || []).map((t: TopicMemory) => t.topic_key);
+  const recentTopics = (await topicMemory.listRecent(campaignId, 20)).map(
+    (t) => t.topic_key
+  );
 
   const activeKeywords = keywords.filter((k) => k.is_active);
   const selectedKeywords = selectKeywordsForPost(
@@ -40,6 +37,7 @@ export async function generateTopic(
   );
 
   const topic = await generateTopicWithLLM(
+    llm,
     subreddit,
     selectedKeywords,
     companyInfo,
@@ -73,6 +71,7 @@ function selectKeywordsForPost(
  * Use LLM to generate a natural topic that fits the subreddit
  */
 async function generateTopicWithLLM(
+  llm: LLMProvider,
   subreddit: Subreddit,
   keywords: Keyword[],
   companyInfo: CompanyInfo,
@@ -111,22 +110,15 @@ Respond in JSON format:
 }`;
 
   try {
-    const response = await openai.responses.create({
-      model: "gpt-5-mini",
-      input: [
-        {
-          role: "system",
-          content:
-            "You generate natural Reddit discussion topics. Always respond with valid JSON only, no markdown.",
-        },
-        { role: "user", content: prompt },
-      ],
-      reasoning: { effort: "low" },
-      text: { verbosity: "low" },
+    const content = await llm.complete({
+      task: "topic",
+      system:
+        "You generate natural Reddit discussion topics. Always respond with valid JSON only, no markdown.",
+      prompt,
+      defaultReasoningEffort: "low",
+      verbosity: "low",
     });
 
-    const content = response.output_text || "{}";
-
     try {
       const parsed = JSON.parse(content);
       return {
@@ -149,39 +141,3 @@ Respond in JSON format:
     };
   }
 }
-
-/**
- * Record that a topic was used (for deduplication)
- */
-export async function recordTopicUsage(
-  campaignId: string,
-  topicKey: string,
-  subredditName: string
-): Promise<void> {
-  const { data: existing } = await supabase
-    .from("topic_memory")
-    .select("*")
-    .eq("campaign_id", campaignId)
-    .eq("topic_key", topicKey)
-    .single();
-
-  if (existing) {
-    await supabase
-      .from("topic_memory")
-      .update({
-        last_used_at: new Date().toISOString(),
-        times_used: (existing.times_used || 0) + 1,
-        last_subreddit_name: subredditName,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", existing.id);
-  } else {
-    await supabase.from("topic_memory").insert({
-      campaign_id: campaignId,
-      topic_key: topicKey,
-      last_used_at: new Date().toISOString(),
-      times_used: 1,
-      last_subreddit_name: subredditName,
-    });
-  }
-}
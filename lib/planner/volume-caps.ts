@@ -0,0 +1,166 @@
+import {
+  CapWindow,
+  Persona,
+  PlannedComment,
+  PlannedPost,
+  VolumeCap,
+  VolumeCaps,
+} from "../types";
+import { getPersonaDisclosure } from "./disclosure";
+import { isPromotional } from "./subreddit-rules";
+
+export const CAP_WINDOW_DAYS: Record<CapWindow, number> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+};
+
+/** Items this many days either side of a week can share a window with it */
+export const LONGEST_CAP_WINDOW_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A post or reply, as counted against volume caps */
+export interface VolumeItem {
+  /** Empty for items that haven't been saved yet */
+  postId: string;
+  subreddit: string;
+  authorId: string;
+  scheduledAt: Date;
+  promotional: boolean;
+}
+
+/**
+ * Turn saved posts and their replies into volume items. Replies count
+ * against their post's community. Items without a schedule are left out.
+ */
+export function toVolumeItems(
+  posts: PlannedPost[],
+  comments: PlannedComment[],
+  personas: Persona[],
+  productNames: string[],
+  disclosure: string
+): VolumeItem[] {
+  const authors = new Map(personas.map((p) => [p.id, p]));
+  const postsById = new Map(posts.map((p) => [p.id, p]));
+  const disclosureFor = (authorId: string) => {
+    const author = authors.get(authorId);
+    return author ? getPersonaDisclosure(author, disclosure) : disclosure;
+  };
+  const items: VolumeItem[] = [];
+
+  for (const post of posts) {
+    if (!post.scheduled_at) continue;
+    items.push({
+      postId: post.id,
+      subreddit: post.subreddit_name,
+      authorId: post.author_persona_id,
+      scheduledAt: new Date(post.scheduled_at),
+      promotional: isPromotional(
+        `${post.title} ${post.body}`,
+        productNames,
+        disclosureFor(post.author_persona_id)
+      ),
+    });
+  }
+
+  for (const comment of comments) {
+    const post = postsById.get(comment.planned_post_id);
+    if (!post || !comment.scheduled_at) continue;
+    items.push({
+      postId: post.id,
+      subreddit: post.subreddit_name,
+      authorId: comment.author_persona_id,
+      scheduledAt: new Date(comment.scheduled_at),
+      promotional: isPromotional(
+        comment.comment_text,
+        productNames,
+        disclosureFor(comment.author_persona_id)
+      ),
+    });
+  }
+
+  return items;
+}
+
+/**
+ * The most items in any window of this length that includes `at`
+ */
+function peakCount(times: number[], at: number, windowMs: number): number {
+  const starts = [at, ...times.filter((t) => t > at - windowMs && t < at)];
+  return Math.max(
+    ...starts.map(
+      (start) => times.filter((t) => t >= start && t < start + windowMs).length
+    )
+  );
+}
+
+interface CapScope {
+  label: string;
+  caps: Partial<Record<CapWindow, VolumeCap>> | undefined;
+  includes: (item: VolumeItem) => boolean;
+}
+
+/**
+ * Check new items against the campaign's hard volume caps, per community
+ * and per account, over every rolling window that contains them. Returns
+ * one reason per breached cap; an empty list means the items fit.
+ *
+ * @param usernames - Account names by persona id, for the reasons
+ */
+export function checkVolumeCaps(
+  caps: VolumeCaps,
+  existing: VolumeItem[],
+  candidates: VolumeItem[],
+  usernames: Map<string, string>
+): string[] {
+  const scopes: CapScope[] = [
+    ...new Set(candidates.map((i) => i.subreddit)),
+  ].map((subreddit) => ({
+    label: `r/${subreddit}`,
+    caps: caps.community,
+    includes: (i: VolumeItem) => i.subreddit === subreddit,
+  }));
+  for (const authorId of new Set(candidates.map((i) => i.authorId))) {
+    scopes.push({
+      label: `u/${usernames.get(authorId) ?? authorId}`,
+      caps: caps.account,
+      includes: (i) => i.authorId === authorId,
+    });
+  }
+
+  const all = [...existing, ...candidates];
+  const reasons: string[] = [];
+
+  for (const scope of scopes) {
+    for (const window of Object.keys(CAP_WINDOW_DAYS) as CapWindow[]) {
+      const days = CAP_WINDOW_DAYS[window];
+      const cap = scope.caps?.[window];
+
+      for (const kind of ["total", "promotional"] as const) {
+        const limit = cap?.[kind];
+        if (limit === undefined || limit === null) continue;
+
+        const counts = (i: VolumeItem) =>
+          scope.includes(i) && (kind === "total" || i.promotional);
+        const mine = candidates.filter(counts);
+        if (mine.length === 0) continue;
+
+        const times = all.filter(counts).map((i) => i.scheduledAt.getTime());
+        const peak = Math.max(
+          ...mine.map((i) =>
+            peakCount(times, i.scheduledAt.getTime(), days * DAY_MS)
+          )
+        );
+        if (peak > limit) {
+          const items = kind === "total" ? "items" : "promotional items";
+          reasons.push(
+            `${scope.label} would have ${peak} ${items} in ${days} days (cap ${limit})`
+          );
+        }
+      }
+    }
+  }
+
+  return reasons;
+}
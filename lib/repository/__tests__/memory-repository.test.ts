@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryRepository } from "../memory-repository";
+import { NewPlannedPost, NewThreadComment } from "../repository";
+
+function createPost(): NewPlannedPost {
+  return {
+    campaign_id: "campaign-1",
+    weekly_plan_id: "plan-1",
+    subreddit_name: "powerpoint",
+    author_persona_id: "persona-1",
+    post_type: "post",
+    title: "Title",
+    body: "Body",
+    target_keyword_codes: [],
+    topic_key: "topic",
+    scheduled_at: "2025-12-08T10:00:00.000Z",
+    quality_score: 1,
+    compliance_score: 1,
+    compliance_report: [],
+    dedupe_hash: "hash",
+    flair: null,
+    rule_report: [],
+    review_status: "in_review",
+  };
+}
+
+function createComment(replyToIndex: number | null): NewThreadComment {
+  return {
+    author_persona_id: "persona-1",
+    reply_to_index: replyToIndex,
+    comment_text: "Reply",
+    anticipated_question: null,
+    scheduled_at: "2025-12-08T11:00:00.000Z",
+    quality_score: 1,
+    review_status: "in_review",
+  };
+}
+
+describe("createWithComments", () => {
+  it("saves the post and links replies to earlier comments", async () => {
+    const repository = createMemoryRepository();
+
+    const { post, comments } = await repository.posts.createWithComments(
+      createPost(),
+      [createComment(null), createComment(0)]
+    );
+
+    expect(repository.tables.posts).toHaveLength(1);
+    expect(comments.map((c) => c.planned_post_id)).toEqual([post.id, post.id]);
+    expect(comments[0].reply_to_comment_id).toBeNull();
+    expect(comments[1].reply_to_comment_id).toBe(comments[0].id);
+  });
+
+  it("saves nothing when a reply points at a later comment", async () => {
+    const repository = createMemoryRepository();
+
+    await expect(
+      repository.posts.createWithComments(createPost(), [
+        createComment(null),
+        createComment(2),
+        createComment(null),
+      ])
+    ).rejects.toThrow("Comment 1 must reply to an earlier comment");
+
+    expect(repository.tables.posts).toHaveLength(0);
+    expect(repository.tables.comments).toHaveLength(0);
+  });
+});
+
+describe("revise", () => {
+  it("keeps the old content as a revision and sends the post back to review", async () => {
+    const repository = createMemoryRepository();
+    const created = await repository.posts.create({
+      ...createPost(),
+      review_status: "approved",
+    });
+
+    const { post, revision } = await repository.posts.revise(
+      created.id,
+      { ...createPost(), title: "New title", body: "New body" },
+      { change: "regenerate_content", created_by: "Sam" }
+    );
+
+    expect(post.title).toBe("New title");
+    expect(post.review_status).toBe("in_review");
+    expect(revision).toMatchObject({
+      planned_post_id: created.id,
+      title: "Title",
+      body: "Body",
+      created_by: "Sam",
+    });
+    expect(await repository.postRevisions.listByPost(created.id)).toEqual([
+      revision,
+    ]);
+  });
+});
+
+describe("comments.revise", () => {
+  it("keeps the old text and updates the reply and its post together", async () => {
+    const repository = createMemoryRepository();
+    const { post, comments } = await repository.posts.createWithComments(
+      createPost(),
+      [{ ...createComment(null), review_status: "approved" }]
+    );
+
+    const result = await repository.comments.revise(
+      comments[0].id,
+      { comment_text: "New reply", quality_score: 0.5 },
+      { created_by: "Sam" },
+      {
+        quality_score: 0.5,
+        compliance_score: 0.9,
+        compliance_report: [],
+        rule_report: [],
+      }
+    );
+
+    expect(result.comment.comment_text).toBe("New reply");
+    expect(result.comment.review_status).toBe("in_review");
+    expect(result.revision).toMatchObject({
+      planned_comment_id: comments[0].id,
+      comment_text: "Reply",
+      created_by: "Sam",
+    });
+    expect(result.post.id).toBe(post.id);
+    expect(result.post.compliance_score).toBe(0.9);
+    expect(
+      await repository.commentRevisions.listByComment(comments[0].id)
+    ).toEqual([result.revision]);
+  });
+});
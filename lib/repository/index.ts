@@ -0,0 +1,33 @@
+import { createSupabaseRepository } from "./supabase-repository";
+
+export type {
+  Repository,
+  CampaignRepository,
+  PersonaRepository,
+  SubredditRepository,
+  KeywordRepository,
+  WeeklyPlanRepository,
+  PlannedPostRepository,
+  PostRevisionRepository,
+  PlannedCommentRepository,
+  CommentRevisionRepository,
+  TopicMemoryRepository,
+  GenerationJobRepository,
+  NewWeeklyPlan,
+  NewGenerationJob,
+  NewPlannedPost,
+  NewPlannedComment,
+  NewThreadComment,
+  ReviewUpdate,
+  PostContentUpdate,
+  NewPostRevision,
+  PostScoreUpdate,
+  CommentContentUpdate,
+  NewCommentRevision,
+} from "./repository";
+export { createSupabaseRepository } from "./supabase-repository";
+export { createMemoryRepository } from "./memory-repository";
+export type { MemoryRepository, MemoryTables } from "./memory-repository";
+
+/** Default repository used by the API routes */
+export const repository = createSupabaseRepository();
@@ -0,0 +1,430 @@
+import {
+  Campaign,
+  Persona,
+  Subreddit,
+  Keyword,
+  WeeklyPlan,
+  PlannedPost,
+  PlannedComment,
+  TopicMemory,
+  GenerationJob,
+  PostRevision,
+  CommentRevision,
+} from "../types";
+import { Repository } from "./repository";
+
+export interface MemoryTables {
+  campaigns: Campaign[];
+  personas: Persona[];
+  subreddits: Subreddit[];
+  keywords: Keyword[];
+  weeklyPlans: WeeklyPlan[];
+  posts: PlannedPost[];
+  postRevisions: PostRevision[];
+  comments: PlannedComment[];
+  commentRevisions: CommentRevision[];
+  topicMemory: TopicMemory[];
+  jobs: GenerationJob[];
+}
+
+export interface MemoryRepository extends Repository {
+  /** The backing rows, for seeding and inspecting in tests */
+  tables: MemoryTables;
+}
+
+/**
+ * Rows are copied on the way in and out, like a real database, so callers
+ * can't change stored data by mutating what they were given
+ */
+const copy = <T>(value: T): T => structuredClone(value);
+
+function byId<T extends { id: string }>(rows: T[], id: string): T {
+  const row = rows.find((r) => r.id === id);
+  if (!row) throw new Error(`Row ${id} not found`);
+  return row;
+}
+
+/**
+ * Repository that keeps every table in memory. Used to run the planner
+ * end-to-end without a database.
+ */
+export function createMemoryRepository(
+  seed: Partial<MemoryTables> = {}
+): MemoryRepository {
+  const tables: MemoryTables = {
+    campaigns: [...(seed.campaigns || [])],
+    personas: [...(seed.personas || [])],
+    subreddits: [...(seed.subreddits || [])],
+    keywords: [...(seed.keywords || [])],
+    weeklyPlans: [...(seed.weeklyPlans || [])],
+    posts: [...(seed.posts || [])],
+    postRevisions: [...(seed.postRevisions || [])],
+    comments: [...(seed.comments || [])],
+    commentRevisions: [...(seed.commentRevisions || [])],
+    topicMemory: [...(seed.topicMemory || [])],
+    jobs: [...(seed.jobs || [])],
+  };
+
+  const timestamps = () => {
+    const now = new Date().toISOString();
+    return { id: crypto.randomUUID(), created_at: now, updated_at: now };
+  };
+
+  const activeFor =
+    <T extends { campaign_id: string; is_active: boolean }>(rows: () => T[]) =>
+    async (campaignId: string) =>
+      copy(rows().filter((r) => r.campaign_id === campaignId && r.is_active));
+
+  return {
+    tables,
+
+    campaigns: {
+      async get(id) {
+        return copy(tables.campaigns.find((c) => c.id === id) || null);
+      },
+    },
+
+    personas: { listActive: activeFor(() => tables.personas) },
+    subreddits: { listActive: activeFor(() => tables.subreddits) },
+    keywords: { listActive: activeFor(() => tables.keywords) },
+
+    weeklyPlans: {
+      async get(id) {
+        return copy(tables.weeklyPlans.find((p) => p.id === id) || null);
+      },
+
+      async create(plan) {
+        const created: WeeklyPlan = { ...copy(plan), ...timestamps() };
+        tables.weeklyPlans.push(created);
+        return copy(created);
+      },
+
+      async update(id, changes) {
+        Object.assign(byId(tables.weeklyPlans, id), copy(changes), {
+          updated_at: new Date().toISOString(),
+        });
+      },
+    },
+
+    posts: {
+      async get(id) {
+        return copy(tables.posts.find((p) => p.id === id) || null);
+      },
+
+      async listScheduledBetween(campaignId, from, to) {
+        return copy(
+          tables.posts.filter((p) => {
+            if (p.campaign_id !== campaignId || !p.scheduled_at) return false;
+            const scheduledAt = new Date(p.scheduled_at).getTime();
+            return scheduledAt >= from.getTime() && scheduledAt < to.getTime();
+          })
+        );
+      },
+
+      async listByPlan(weeklyPlanId) {
+        return copy(
+          tables.posts.filter((p) => p.weekly_plan_id === weeklyPlanId)
+        );
+      },
+
+      async create(post) {
+        const created: PlannedPost = {
+          ...copy(post),
+          reviewed_by: null,
+          reviewed_at: null,
+          review_note: null,
+          legal_approved_by: null,
+          legal_approved_at: null,
+          outcome: null,
+          outcome_note: null,
+          outcome_recorded_by: null,
+          outcome_recorded_at: null,
+          notes: null,
+          ...timestamps(),
+        };
+        tables.posts.push(created);
+        return copy(created);
+      },
+
+      async createWithComments(post, comments) {
+        const created: PlannedPost = {
+          ...copy(post),
+          reviewed_by: null,
+          reviewed_at: null,
+          review_note: null,
+          legal_approved_by: null,
+          legal_approved_at: null,
+          outcome: null,
+          outcome_note: null,
+          outcome_recorded_by: null,
+          outcome_recorded_at: null,
+          notes: null,
+          ...timestamps(),
+        };
+        const thread: PlannedComment[] = [];
+
+        comments.forEach(({ reply_to_index, ...comment }, i) => {
+          if (
+            reply_to_index !== null &&
+            (reply_to_index < 0 || reply_to_index >= i)
+          ) {
+            throw new Error(
+              `Comment ${i} must reply to an earlier comment in its thread`
+            );
+          }
+          thread.push({
+            ...copy(comment),
+            campaign_id: post.campaign_id,
+            planned_post_id: created.id,
+            reply_to_comment_id:
+              reply_to_index === null ? null : thread[reply_to_index].id,
+            reviewed_by: null,
+            reviewed_at: null,
+            review_note: null,
+            ...timestamps(),
+          });
+        });
+
+        tables.posts.push(created);
+        tables.comments.push(...thread);
+        return { post: copy(created), comments: copy(thread) };
+      },
+
+      async updateReview(id, review) {
+        return copy(
+          Object.assign(byId(tables.posts, id), review, {
+            updated_at: new Date().toISOString(),
+          })
+        );
+      },
+
+      async updateLegalApproval(id, approval) {
+        return copy(
+          Object.assign(byId(tables.posts, id), approval, {
+            updated_at: new Date().toISOString(),
+          })
+        );
+      },
+
+      async recordOutcome(id, outcome, pauseSubreddit) {
+        const post = byId(tables.posts, id);
+        const now = new Date().toISOString();
+        Object.assign(post, outcome, { updated_at: now });
+
+        const subreddit = pauseSubreddit
+          ? tables.subreddits.find(
+              (s) =>
+                s.campaign_id === post.campaign_id &&
+                s.name === post.subreddit_name &&
+                s.is_active
+            )
+          : undefined;
+        if (subreddit) {
+          Object.assign(subreddit, { is_active: false, updated_at: now });
+        }
+
+        return { post: copy(post), subreddit: copy(subreddit || null) };
+      },
+
+      async revise(id, changes, revision) {
+        const post = byId(tables.posts, id);
+        const saved: PostRevision = {
+          ...timestamps(),
+          ...revision,
+          campaign_id: post.campaign_id,
+          planned_post_id: post.id,
+          title: post.title,
+          body: post.body,
+          topic_key: post.topic_key,
+          target_keyword_codes: copy(post.target_keyword_codes),
+          quality_score: post.quality_score,
+          compliance_score: post.compliance_score,
+          compliance_report: copy(post.compliance_report),
+          rule_report: copy(post.rule_report),
+        };
+
+        tables.postRevisions.push(saved);
+        Object.assign(post, copy(changes), {
+          review_status: "in_review",
+          reviewed_by: null,
+          reviewed_at: null,
+          review_note: null,
+          legal_approved_by: null,
+          legal_approved_at: null,
+          updated_at: new Date().toISOString(),
+        });
+        return { post: copy(post), revision: copy(saved) };
+      },
+    },
+
+    postRevisions: {
+      async listByPost(postId) {
+        return copy(
+          tables.postRevisions
+            .filter((r) => r.planned_post_id === postId)
+            .reverse()
+        );
+      },
+    },
+
+    comments: {
+      async get(id) {
+        return copy(tables.comments.find((c) => c.id === id) || null);
+      },
+
+      async listByCampaign(campaignId) {
+        return copy(
+          tables.comments.filter((c) => c.campaign_id === campaignId)
+        );
+      },
+
+      async listByPosts(postIds) {
+        return copy(
+          tables.comments.filter((c) => postIds.includes(c.planned_post_id))
+        );
+      },
+
+      async create(comment) {
+        const created: PlannedComment = {
+          ...copy(comment),
+          reviewed_by: null,
+          reviewed_at: null,
+          review_note: null,
+          ...timestamps(),
+        };
+        tables.comments.push(created);
+        return copy(created);
+      },
+
+      async updateReview(id, review) {
+        return copy(
+          Object.assign(byId(tables.comments, id), review, {
+            updated_at: new Date().toISOString(),
+          })
+        );
+      },
+
+      async revise(id, changes, revision, postScores) {
+        const comment = byId(tables.comments, id);
+        const post = byId(tables.posts, comment.planned_post_id);
+        const now = new Date().toISOString();
+        const saved: CommentRevision = {
+          ...timestamps(),
+          ...revision,
+          campaign_id: comment.campaign_id,
+          planned_comment_id: comment.id,
+          comment_text: comment.comment_text,
+          quality_score: comment.quality_score,
+        };
+
+        tables.commentRevisions.push(saved);
+        Object.assign(comment, copy(changes), {
+          review_status: "in_review",
+          reviewed_by: null,
+          reviewed_at: null,
+          review_note: null,
+          updated_at: now,
+        });
+        Object.assign(post, copy(postScores), {
+          legal_approved_by: null,
+          legal_approved_at: null,
+          updated_at: now,
+        });
+        return {
+          comment: copy(comment),
+          revision: copy(saved),
+          post: copy(post),
+        };
+      },
+    },
+
+    commentRevisions: {
+      async listByComment(commentId) {
+        return copy(
+          tables.commentRevisions
+            .filter((r) => r.planned_comment_id === commentId)
+            .reverse()
+        );
+      },
+    },
+
+    topicMemory: {
+      async listRecent(campaignId, limit) {
+        return copy(
+          tables.topicMemory
+            .filter((t) => t.campaign_id === campaignId)
+            .sort((a, b) =>
+              (b.last_used_at || "").localeCompare(a.last_used_at || "")
+            )
+            .slice(0, limit)
+        );
+      },
+
+      async recordUsage(campaignId, topicKey, subredditName) {
+        const now = new Date().toISOString();
+        const existing = tables.topicMemory.find(
+          (t) => t.campaign_id === campaignId && t.topic_key === topicKey
+        );
+
+        if (existing) {
+          Object.assign(existing, {
+            last_used_at: now,
+            times_used: existing.times_used + 1,
+            last_subreddit_name: subredditName,
+            updated_at: now,
+          });
+        } else {
+          tables.topicMemory.push({
+            ...timestamps(),
+            campaign_id: campaignId,
+            topic_key: topicKey,
+            last_used_at: now,
+            times_used: 1,
+            last_subreddit_name: subredditName,
+            notes: null,
+          });
+        }
+      },
+    },
+
+    jobs: {
+      async get(id) {
+        return copy(tables.jobs.find((j) => j.id === id) || null);
+      },
+
+      async getLatestForPlan(weeklyPlanId) {
+        const jobs = tables.jobs.filter(
+          (j) => j.weekly_plan_id === weeklyPlanId
+        );
+        return copy(jobs[jobs.length - 1] || null);
+      },
+
+      async create(job) {
+        const created: GenerationJob = {
+          ...copy(job),
+          status: "running",
+          subreddit_ids: [],
+          completed_posts: 0,
+          last_step: null,
+          last_post_index: null,
+          posts_generated: 0,
+          comments_generated: 0,
+          errors: [],
+          error: null,
+          cancel_requested: false,
+          ...timestamps(),
+        };
+        tables.jobs.push(created);
+        return copy(created);
+      },
+
+      async update(id, changes) {
+        return copy(
+          Object.assign(byId(tables.jobs, id), copy(changes), {
+            updated_at: new Date().toISOString(),
+          })
+        );
+      },
+    },
+  };
+}
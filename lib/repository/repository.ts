@@ -0,0 +1,213 @@
+import {
+  Campaign,
+  Persona,
+  Subreddit,
+  Keyword,
+  WeeklyPlan,
+  PlannedPost,
+  PlannedComment,
+  TopicMemory,
+  GenerationJob,
+  PostRevision,
+  CommentRevision,
+} from "../types";
+
+/** Columns the database fills in on insert */
+type Generated = "id" | "created_at" | "updated_at";
+type ReviewFields = "reviewed_by" | "reviewed_at" | "review_note";
+type LegalFields = "legal_approved_by" | "legal_approved_at";
+type OutcomeFields =
+  | "outcome"
+  | "outcome_note"
+  | "outcome_recorded_by"
+  | "outcome_recorded_at";
+
+export type NewWeeklyPlan = Omit<WeeklyPlan, Generated>;
+export type NewGenerationJob = Pick<
+  GenerationJob,
+  "campaign_id" | "weekly_plan_id"
+>;
+export type NewPlannedPost = Omit<
+  PlannedPost,
+  Generated | ReviewFields | LegalFields | OutcomeFields | "notes"
+>;
+export type NewPlannedComment = Omit<PlannedComment, Generated | ReviewFields>;
+/**
+ * A reply saved together with its post. Replies point at an earlier reply
+ * in the same thread by position, since neither has an id yet.
+ */
+export type NewThreadComment = Omit<
+  NewPlannedComment,
+  "campaign_id" | "planned_post_id" | "reply_to_comment_id"
+> & { reply_to_index: number | null };
+export type ReviewUpdate = Pick<PlannedPost, "review_status" | ReviewFields>;
+export type LegalApproval = Pick<PlannedPost, LegalFields>;
+export type OutcomeUpdate = Pick<PlannedPost, OutcomeFields>;
+/** The parts of a post that a revision replaces */
+export type PostContentUpdate = Pick<
+  PlannedPost,
+  | "title"
+  | "body"
+  | "topic_key"
+  | "target_keyword_codes"
+  | "quality_score"
+  | "compliance_score"
+  | "compliance_report"
+  | "rule_report"
+  | "flair"
+  | "dedupe_hash"
+>;
+export type NewPostRevision = Pick<PostRevision, "change" | "created_by">;
+/** A post's scores, recalculated when one of its replies changes */
+export type PostScoreUpdate = Pick<
+  PlannedPost,
+  "quality_score" | "compliance_score" | "compliance_report" | "rule_report"
+>;
+export type CommentContentUpdate = Pick<
+  PlannedComment,
+  "comment_text" | "quality_score"
+>;
+export type NewCommentRevision = Pick<CommentRevision, "created_by">;
+
+export interface CampaignRepository {
+  get(id: string): Promise<Campaign | null>;
+}
+
+export interface PersonaRepository {
+  listActive(campaignId: string): Promise<Persona[]>;
+}
+
+export interface SubredditRepository {
+  listActive(campaignId: string): Promise<Subreddit[]>;
+}
+
+export interface KeywordRepository {
+  listActive(campaignId: string): Promise<Keyword[]>;
+}
+
+export interface WeeklyPlanRepository {
+  get(id: string): Promise<WeeklyPlan | null>;
+  create(plan: NewWeeklyPlan): Promise<WeeklyPlan>;
+  update(
+    id: string,
+    changes: Partial<Pick<WeeklyPlan, "status" | "plan_json">>
+  ): Promise<void>;
+}
+
+export interface PlannedPostRepository {
+  /** Posts scheduled in [from, to) */
+  listScheduledBetween(
+    campaignId: string,
+    from: Date,
+    to: Date
+  ): Promise<PlannedPost[]>;
+  get(id: string): Promise<PlannedPost | null>;
+  listByPlan(weeklyPlanId: string): Promise<PlannedPost[]>;
+  create(post: NewPlannedPost): Promise<PlannedPost>;
+  /**
+   * Save a post and its reply thread in one transaction. Nothing is saved
+   * if any row fails.
+   */
+  createWithComments(
+    post: NewPlannedPost,
+    comments: NewThreadComment[]
+  ): Promise<{ post: PlannedPost; comments: PlannedComment[] }>;
+  updateReview(id: string, review: ReviewUpdate): Promise<PlannedPost>;
+  updateLegalApproval(
+    id: string,
+    approval: LegalApproval
+  ): Promise<PlannedPost>;
+  /**
+   * Save a post's outcome. With `pauseSubreddit`, also deactivate the
+   * post's community for the campaign, in the same transaction. Returns the
+   * community when it was deactivated.
+   */
+  recordOutcome(
+    id: string,
+    outcome: OutcomeUpdate,
+    pauseSubreddit: boolean
+  ): Promise<{ post: PlannedPost; subreddit: Subreddit | null }>;
+  /**
+   * Replace a post's content and send it back to review, keeping the old
+   * content as a revision and clearing any legal approval. All in one
+   * transaction.
+   */
+  revise(
+    id: string,
+    changes: PostContentUpdate,
+    revision: NewPostRevision
+  ): Promise<{ post: PlannedPost; revision: PostRevision }>;
+}
+
+export interface PostRevisionRepository {
+  /** Newest first */
+  listByPost(postId: string): Promise<PostRevision[]>;
+}
+
+export interface PlannedCommentRepository {
+  get(id: string): Promise<PlannedComment | null>;
+  listByCampaign(campaignId: string): Promise<PlannedComment[]>;
+  listByPosts(postIds: string[]): Promise<PlannedComment[]>;
+  create(comment: NewPlannedComment): Promise<PlannedComment>;
+  updateReview(id: string, review: ReviewUpdate): Promise<PlannedComment>;
+  /**
+   * Replace a reply's text and send it back to review, keeping the old text
+   * as a revision, updating its post's scores and clearing the post's legal
+   * approval. All in one transaction.
+   */
+  revise(
+    id: string,
+    changes: CommentContentUpdate,
+    revision: NewCommentRevision,
+    postScores: PostScoreUpdate
+  ): Promise<{
+    comment: PlannedComment;
+    revision: CommentRevision;
+    post: PlannedPost;
+  }>;
+}
+
+export interface CommentRevisionRepository {
+  /** Newest first */
+  listByComment(commentId: string): Promise<CommentRevision[]>;
+}
+
+export interface TopicMemoryRepository {
+  /** Most recently used topics first */
+  listRecent(campaignId: string, limit: number): Promise<TopicMemory[]>;
+  /** Bump a topic's usage, creating its memory on first use */
+  recordUsage(
+    campaignId: string,
+    topicKey: string,
+    subredditName: string
+  ): Promise<void>;
+}
+
+export interface GenerationJobRepository {
+  get(id: string): Promise<GenerationJob | null>;
+  /** The plan's most recently created job */
+  getLatestForPlan(weeklyPlanId: string): Promise<GenerationJob | null>;
+  create(job: NewGenerationJob): Promise<GenerationJob>;
+  update(
+    id: string,
+    changes: Partial<Omit<GenerationJob, Generated | keyof NewGenerationJob>>
+  ): Promise<GenerationJob>;
+}
+
+/**
+ * Data access used by the planner. Implementations throw an Error when a
+ * read or write fails; lookups by id return null when nothing matches.
+ */
+export interface Repository {
+  campaigns: CampaignRepository;
+  personas: PersonaRepository;
+  subreddits: SubredditRepository;
+  keywords: KeywordRepository;
+  weeklyPlans: WeeklyPlanRepository;
+  posts: PlannedPostRepository;
+  postRevisions: PostRevisionRepository;
+  comments: PlannedCommentRepository;
+  commentRevisions: CommentRevisionRepository;
+  topicMemory: TopicMemoryRepository;
+  jobs: GenerationJobRepository;
+}
@@ -0,0 +1,379 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "../supabase";
+import { TopicMemory } from "../types";
+import { Repository } from "./repository";
+
+/**
+ * Throw the query's error, if any, so callers don't need to unpack
+ * `{ data, error }` results
+ */
+function unwrap<T>(result: {
+  data: T | null;
+  error: { message: string } | null;
+}): T | null {
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+  return result.data;
+}
+
+/**
+ * Repository backed by the Supabase tables
+ */
+export function createSupabaseRepository(
+  client: SupabaseClient = supabase
+): Repository {
+  const listActive = (table: string) => async (campaignId: string) =>
+    unwrap(
+      await client
+        .from(table)
+        .select("*")
+        .eq("campaign_id", campaignId)
+        .eq("is_active", true)
+    ) || [];
+
+  return {
+    campaigns: {
+      async get(id) {
+        return unwrap(
+          await client.from("campaigns").select("*").eq("id", id).maybeSingle()
+        );
+      },
+    },
+
+    personas: { listActive: listActive("personas") },
+    subreddits: { listActive: listActive("subreddits") },
+    keywords: { listActive: listActive("keywords") },
+
+    weeklyPlans: {
+      async get(id) {
+        return unwrap(
+          await client
+            .from("weekly_plans")
+            .select("*")
+            .eq("id", id)
+            .maybeSingle()
+        );
+      },
+
+      async create(plan) {
+        const created = unwrap(
+          await client.from("weekly_plans").insert(plan).select().single()
+        );
+        if (!created) throw new Error("Weekly plan was not created");
+        return created;
+      },
+
+      async update(id, changes) {
+        unwrap(
+          await client
+            .from("weekly_plans")
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq("id", id)
+        );
+      },
+    },
+
+    posts: {
+      async get(id) {
+        return unwrap(
+          await client
+            .from("planned_posts")
+            .select("*")
+            .eq("id", id)
+            .maybeSingle()
+        );
+      },
+
+      async listScheduledBetween(campaignId, from, to) {
+        return (
+          unwrap(
+            await client
+              .from("planned_posts")
+              .select("*")
+              .eq("campaign_id", campaignId)
+              .gte("scheduled_at", from.toISOString())
+              .lt("scheduled_at", to.toISOString())
+          ) || []
+        );
+      },
+
+      async listByPlan(weeklyPlanId) {
+        return (
+          unwrap(
+            await client
+              .from("planned_posts")
+              .select("*")
+              .eq("weekly_plan_id", weeklyPlanId)
+          ) || []
+        );
+      },
+
+      async create(post) {
+        const created = unwrap(
+          await client.from("planned_posts").insert(post).select().single()
+        );
+        if (!created) throw new Error("Post was not created");
+        return created;
+      },
+
+      async createWithComments(post, comments) {
+        const saved = unwrap(
+          await client.rpc("create_post_with_comments", { post, comments })
+        );
+        if (!saved) throw new Error("Post was not created");
+        return saved;
+      },
+
+      async updateReview(id, review) {
+        const updated = unwrap(
+          await client
+            .from("planned_posts")
+            .update({ ...review, updated_at: new Date().toISOString() })
+            .eq("id", id)
+            .select()
+            .single()
+        );
+        if (!updated) throw new Error("Post not found");
+        return updated;
+      },
+
+      async updateLegalApproval(id, approval) {
+        const updated = unwrap(
+          await client
+            .from("planned_posts")
+            .update({ ...approval, updated_at: new Date().toISOString() })
+            .eq("id", id)
+            .select()
+            .single()
+        );
+        if (!updated) throw new Error("Post not found");
+        return updated;
+      },
+
+      async recordOutcome(id, outcome, pauseSubreddit) {
+        const saved = unwrap(
+          await client.rpc("record_post_outcome", {
+            post_id: id,
+            outcome,
+            pause_subreddit: pauseSubreddit,
+          })
+        );
+        if (!saved) throw new Error("Post not found");
+        return saved;
+      },
+
+      async revise(id, changes, revision) {
+        const saved = unwrap(
+          await client.rpc("revise_planned_post", {
+            post_id: id,
+            changes,
+            revision,
+          })
+        );
+        if (!saved) throw new Error("Post not found");
+        return saved;
+      },
+    },
+
+    postRevisions: {
+      async listByPost(postId) {
+        return (
+          unwrap(
+            await client
+              .from("post_revisions")
+              .select("*")
+              .eq("planned_post_id", postId)
+              .order("created_at", { ascending: false })
+          ) || []
+        );
+      },
+    },
+
+    comments: {
+      async get(id) {
+        return unwrap(
+          await client
+            .from("planned_comments")
+            .select("*")
+            .eq("id", id)
+            .maybeSingle()
+        );
+      },
+
+      async listByCampaign(campaignId) {
+        return (
+          unwrap(
+            await client
+              .from("planned_comments")
+              .select("*")
+              .eq("campaign_id", campaignId)
+          ) || []
+        );
+      },
+
+      async listByPosts(postIds) {
+        return (
+          unwrap(
+            await client
+              .from("planned_comments")
+              .select("*")
+              .in("planned_post_id", postIds)
+          ) || []
+        );
+      },
+
+      async create(comment) {
+        const created = unwrap(
+          await client
+            .from("planned_comments")
+            .insert(comment)
+            .select()
+            .single()
+        );
+        if (!created) throw new Error("Comment was not created");
+        return created;
+      },
+
+      async updateReview(id, review) {
+        const updated = unwrap(
+          await client
+            .from("planned_comments")
+            .update({ ...review, updated_at: new Date().toISOString() })
+            .eq("id", id)
+            .select()
+            .single()
+        );
+        if (!updated) throw new Error("Comment not found");
+        return updated;
+      },
+
+      async revise(id, changes, revision, postScores) {
+        const saved = unwrap(
+          await client.rpc("revise_planned_comment", {
+            comment_id: id,
+            changes,
+            revision,
+            post_scores: postScores,
+          })
+        );
+        if (!saved) throw new Error("Comment not found");
+        return saved;
+      },
+    },
+
+    commentRevisions: {
+      async listByComment(commentId) {
+        return (
+          unwrap(
+            await client
+              .from("comment_revisions")
+              .select("*")
+              .eq("planned_comment_id", commentId)
+              .order("created_at", { ascending: false })
+          ) || []
+        );
+      },
+    },
+
+    topicMemory: {
+      async listRecent(campaignId, limit) {
+        return (
+          unwrap(
+            await client
+              .from("topic_memory")
+              .select("*")
+              .eq("campaign_id", campaignId)
+              .order("last_used_at", { ascending: false })
+              .limit(limit)
+          ) || []
+        );
+      },
+
+      async recordUsage(campaignId, topicKey, subredditName) {
+        const existing = unwrap<TopicMemory>(
+          await client
+            .from("topic_memory")
+            .select("*")
+            .eq("campaign_id", campaignId)
+            .eq("topic_key", topicKey)
+            .maybeSingle()
+        );
+        const now = new Date().toISOString();
+
+        if (existing) {
+          unwrap(
+            await client
+              .from("topic_memory")
+              .update({
+                last_used_at: now,
+                times_used: (existing.times_used || 0) + 1,
+                last_subreddit_name: subredditName,
+                updated_at: now,
+              })
+              .eq("id", existing.id)
+          );
+        } else {
+          unwrap(
+            await client.from("topic_memory").insert({
+              campaign_id: campaignId,
+              topic_key: topicKey,
+              last_used_at: now,
+              times_used: 1,
+              last_subreddit_name: subredditName,
+            })
+          );
+        }
+      },
+    },
+
+    jobs: {
+      async get(id) {
+        return unwrap(
+          await client
+            .from("generation_jobs")
+            .select("*")
+            .eq("id", id)
+            .maybeSingle()
+        );
+      },
+
+      async getLatestForPlan(weeklyPlanId) {
+        return unwrap(
+          await client
+            .from("generation_jobs")
+            .select("*")
+            .eq("weekly_plan_id", weeklyPlanId)
+            .order("created_at", { ascending: false })
+            .limit(1)
+            .maybeSingle()
+        );
+      },
+
+      async create(job) {
+        const created = unwrap(
+          await client
+            .from("generation_jobs")
+            .insert({ ...job, status: "running" })
+            .select()
+            .single()
+        );
+        if (!created) throw new Error("Generation job was not created");
+        return created;
+      },
+
+      async update(id, changes) {
+        const updated = unwrap(
+          await client
+            .from("generation_jobs")
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq("id", id)
+            .select()
+            .single()
+        );
+        if (!updated) throw new Error("Generation job not found");
+        return updated;
+      },
+    },
+  };
+}
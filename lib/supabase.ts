@@ -3,4 +3,12 @@ import { createClient } from "@supabase/supabase-js";
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+/**
+ * A client that sends these headers with every request, where database
+ * triggers can read them
+ */
+export function createSupabaseClient(headers: Record<string, string> = {}) {
+  return createClient(supabaseUrl, supabaseAnonKey, { global: { headers } });
+}
+
+export const supabase = createSupabaseClient();
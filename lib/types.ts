@@ -6,16 +6,89 @@ export interface Campaign {
   posts_per_week: number;
   start_date: string;
   timezone: string;
+  llm_settings: LLMSettings;
+  posting_schedule: PostingSchedule;
+  volume_caps: VolumeCaps;
   created_at: string;
   updated_at: string;
 }
 
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+
+export interface LLMSettings {
+  provider?: "openai" | "stub";
+  model?: string;
+  reasoning_effort?: ReasoningEffort | null;
+}
+
+/** 0 = Sunday through 6 = Saturday, like Date.getDay() */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * When a campaign's posts may go out, in the campaign's timezone. Unset
+ * fields fall back to DEFAULT_POSTING_SCHEDULE.
+ */
+export interface PostingSchedule {
+  days?: Weekday[];
+  /** First hour a post may go out (0-23) */
+  start_hour?: number;
+  /** Posts go out before this hour (1-24) */
+  end_hour?: number;
+  blackouts?: BlackoutPeriod[];
+}
+
+/** Rolling windows that volume caps are counted over */
+export type CapWindow = "7d" | "30d" | "90d";
+
+/** Most posts and replies allowed in one rolling window; unset is uncapped */
+export interface VolumeCap {
+  total?: number | null;
+  /** Items that mention the product */
+  promotional?: number | null;
+}
+
+/**
+ * Hard limits on how much a campaign posts in each community and from each
+ * account. Items that would go over a cap are blocked.
+ */
+export interface VolumeCaps {
+  community?: Partial<Record<CapWindow, VolumeCap>>;
+  account?: Partial<Record<CapWindow, VolumeCap>>;
+}
+
+/** Dates nothing is posted on, e.g. a holiday or launch freeze */
+export interface BlackoutPeriod {
+  /** YYYY-MM-DD, inclusive */
+  start_date: string;
+  /** YYYY-MM-DD, inclusive */
+  end_date: string;
+  reason: string;
+}
+
 export interface CompanyInfo {
   website?: string;
   description?: string;
   icp?: string;
+  disclosure_template?: string;
+  /** Factual statements about the product that content may repeat */
+  approved_claims?: string[];
+  /** Competing products that content must not be compared with unchecked */
+  competitors?: string[];
 }
 
+/** How the person or team running an account is connected to the company */
+export type EmployerRelationship =
+  | "employee"
+  | "founder"
+  | "contractor"
+  | "agency";
+
+/**
+ * A real Reddit account posting on the company's behalf. Content is only
+ * assigned to accounts with a named owner, a recorded relationship and
+ * consent, their own disclosure text, and a public profile that states the
+ * affiliation.
+ */
 export interface Persona {
   id: string;
   campaign_id: string;
@@ -23,6 +96,15 @@ export interface Persona {
   bio: string;
   is_active: boolean;
   is_operator: boolean;
+  /** The real person or team behind the account */
+  owner_name: string | null;
+  employer_relationship: EmployerRelationship | null;
+  /** When the owner agreed to the company posting through the account */
+  consent_given_at: string | null;
+  /** The exact disclosure the account adds to its posts and replies */
+  disclosure_text: string | null;
+  /** Whether the account's public profile states the affiliation */
+  profile_states_affiliation: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -32,10 +114,45 @@ export interface Subreddit {
   campaign_id: string;
   name: string;
   is_active: boolean;
+  rules: SubredditRules;
   created_at: string;
   updated_at: string;
 }
 
+export interface SubredditRules {
+  /** Max share (0-1) of the campaign's posts in the community that may be promotional */
+  max_self_promotion_ratio?: number | null;
+  allows_disclosed_vendor_posts?: boolean;
+  required_flair?: string | null;
+  banned_topics?: string[];
+}
+
+export interface RuleCheckResult {
+  rule:
+    | "vendor_participation"
+    | "self_promotion_ratio"
+    | "required_flair"
+    | "banned_topics";
+  passed: boolean;
+  detail: string;
+}
+
+export interface ComplianceCheckResult {
+  check:
+    | "disclosure"
+    | "product_mentions"
+    | "product_claims"
+    | "competitor_mentions"
+    | "single_operator"
+    | "self_promotion_ratio"
+    | "volume_caps"
+    | "links"
+    | "community_rules";
+  passed: boolean;
+  blocking: boolean;
+  detail: string;
+}
+
 export interface Keyword {
   id: string;
   campaign_id: string;
@@ -47,11 +164,24 @@ export interface Keyword {
   updated_at: string;
 }
 
+/**
+ * generating → in_review → ready is the normal path. A run that skipped
+ * some posts ends partially_failed, one that saved nothing or stopped on an
+ * error ends failed, and a run stopped by the user ends cancelled.
+ */
+export type WeeklyPlanStatus =
+  | "generating"
+  | "in_review"
+  | "ready"
+  | "partially_failed"
+  | "failed"
+  | "cancelled";
+
 export interface WeeklyPlan {
   id: string;
   campaign_id: string;
   week_start_date: string;
-  status: "generating" | "ready";
+  status: WeeklyPlanStatus;
   plan_json: PlanJson;
   created_at: string;
   updated_at: string;
@@ -61,8 +191,21 @@ export interface PlanJson {
   generated_at?: string;
   posts_count?: number;
   comments_count?: number;
+  // Why individual posts were skipped
+  errors?: string[];
+  // Why the run stopped before finishing
+  error?: string;
 }
 
+export type ReviewStatus = "in_review" | "approved" | "rejected";
+
+/** What happened to a post after it was published by hand */
+export type PostOutcome =
+  | "live"
+  | "removed_by_mods"
+  | "removed_by_admins"
+  | "warned";
+
 export interface PlannedPost {
   id: string;
   campaign_id: string;
@@ -76,8 +219,21 @@ export interface PlannedPost {
   topic_key: string;
   scheduled_at: string | null;
   quality_score: number;
-  risk_score: number;
+  compliance_score: number;
+  compliance_report: ComplianceCheckResult[];
   dedupe_hash: string;
+  flair: string | null;
+  rule_report: RuleCheckResult[];
+  review_status: ReviewStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  legal_approved_by: string | null;
+  legal_approved_at: string | null;
+  outcome: PostOutcome | null;
+  outcome_note: string | null;
+  outcome_recorded_by: string | null;
+  outcome_recorded_at: string | null;
   notes: string | null;
   created_at: string;
   updated_at: string;
@@ -90,12 +246,113 @@ export interface PlannedComment {
   author_persona_id: string;
   reply_to_comment_id: string | null;
   comment_text: string;
+  anticipated_question: string | null;
   scheduled_at: string | null;
   quality_score: number;
+  review_status: ReviewStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/** What replaced a post's previous version */
+export type PostRevisionChange =
+  | "regenerate_content"
+  | "regenerate_topic"
+  | "edit";
+
+/** The content a post had before it was replaced */
+export interface PostRevision {
+  id: string;
+  campaign_id: string;
+  planned_post_id: string;
+  title: string;
+  body: string;
+  topic_key: string;
+  target_keyword_codes: string[];
+  quality_score: number;
+  compliance_score: number;
+  compliance_report: ComplianceCheckResult[];
+  rule_report: RuleCheckResult[];
+  change: PostRevisionChange;
+  created_by: string;
+  created_at: string;
+}
+
+/** The text a suggested reply had before a reviewer edited it */
+export interface CommentRevision {
+  id: string;
+  campaign_id: string;
+  planned_comment_id: string;
+  comment_text: string;
+  quality_score: number;
+  created_by: string;
+  created_at: string;
+}
+
+export type GenerationJobStatus =
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+/** A background run that fills a weekly plan, checkpointed after every step */
+export interface GenerationJob {
+  id: string;
+  campaign_id: string;
+  weekly_plan_id: string;
+  status: GenerationJobStatus;
+  /** Subreddit chosen for each post, in order; empty until selection runs */
+  subreddit_ids: string[];
+  /** Posts finished so far (saved or skipped); resuming starts after these */
+  completed_posts: number;
+  /** Last step that finished, e.g. "topic" for post 3 */
+  last_step: string | null;
+  last_post_index: number | null;
+  posts_generated: number;
+  comments_generated: number;
+  /** Why individual posts were skipped */
+  errors: string[];
+  /** Why the last run stopped on an error; cleared when the job resumes */
+  error: string | null;
+  cancel_requested: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AuditEntityType =
+  | "campaign"
+  | "persona"
+  | "subreddit"
+  | "keyword"
+  | "weekly_plan"
+  | "planned_post"
+  | "planned_comment";
+
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "regenerate"
+  | "approve"
+  | "reject"
+  | "legal_approve"
+  | "record_outcome";
+
+export interface AuditEntry {
+  id: string;
+  campaign_id: string;
+  actor: string;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
 export interface TopicMemory {
   id: string;
   campaign_id: string;
@@ -137,3 +394,53 @@ export interface GenerateCalendarResponse {
   postsGenerated: number;
   commentsGenerated: number;
 }
+
+/**
+ * Validation messages keyed by the dotted path of the invalid field, sent
+ * alongside `error` in 400 responses
+ */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * A campaign's configuration as a portable JSON file, for copying a setup
+ * between environments. Ids are left out; subreddits are matched by name
+ * and keywords by code on import.
+ */
+export interface CampaignBundle {
+  version: 1;
+  exported_at: string;
+  campaign: Pick<
+    Campaign,
+    | "name"
+    | "company_name"
+    | "company_info"
+    | "posts_per_week"
+    | "start_date"
+    | "timezone"
+    | "llm_settings"
+    | "posting_schedule"
+    | "volume_caps"
+  >;
+  subreddits: Pick<Subreddit, "name" | "is_active" | "rules">[];
+  keywords: Pick<
+    Keyword,
+    "keyword_code" | "keyword_text" | "intent" | "is_active"
+  >[];
+}
+
+/** Something in a bundle that disagrees with what's already saved */
+export interface BundleConflict {
+  entity: "campaign" | "subreddit" | "keyword";
+  /** Campaign field, subreddit name or keyword code */
+  key: string;
+  detail: string;
+}
+
+/** What importing a bundle would do, worked out before writing anything */
+export interface BundleImportReport {
+  /** Null when the bundle would create a new campaign */
+  campaignId: string | null;
+  conflicts: BundleConflict[];
+  subreddits: { create: string[]; unchanged: string[] };
+  keywords: { create: string[]; unchanged: string[] };
+}
@@ -1,4 +1,7 @@
 import { z } from "zod/v4";
+import { isValidTimeZone } from "./planner/timezone";
+import { DEFAULT_POSTING_SCHEDULE } from "./planner/scheduler";
+import type { FieldErrors } from "./types";
 
 export const generateCalendarSchema = z.object({
   campaignId: z.string().uuid("Invalid campaign ID format"),
@@ -9,6 +12,386 @@ export const generateNextWeekSchema = z.object({
   campaignId: z.string().uuid("Invalid campaign ID format"),
 });
 
+export const approveItemSchema = z.object({
+  itemType: z.enum(["post", "comment"]),
+  itemId: z.string().uuid("Invalid item ID format"),
+  reviewer: z.string().trim().min(1, "Reviewer name is required"),
+  note: z.string().trim().optional(),
+});
+
+export const rejectItemSchema = approveItemSchema.extend({
+  note: z.string().trim().min(1, "A note is required when rejecting"),
+});
+
+export const legalApproveSchema = z.object({
+  postId: z.string().uuid("Invalid post ID format"),
+  approver: z.string().trim().min(1, "Approver name is required"),
+});
+
+export const recordOutcomeSchema = z.object({
+  postId: z.string().uuid("Invalid post ID format"),
+  outcome: z.enum(["live", "removed_by_mods", "removed_by_admins", "warned"]),
+  note: z.string().trim().optional(),
+  recorder: z.string().trim().min(1, "Recorder name is required"),
+});
+
+export const regeneratePostSchema = z.object({
+  mode: z.enum(["content", "topic"]),
+});
+
+export const updatePostSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(300),
+  body: z.string().trim().min(1, "Body is required"),
+});
+
+export const updateCommentSchema = z.object({
+  comment_text: z.string().trim().min(1, "Reply text is required"),
+});
+
+export const exportQuerySchema = z.object({
+  format: z.enum(["csv", "json", "ics"], "format must be csv, json or ics"),
+});
+
+export const auditQuerySchema = z.object({
+  entityType: z
+    .enum([
+      "campaign",
+      "persona",
+      "subreddit",
+      "keyword",
+      "weekly_plan",
+      "planned_post",
+      "planned_comment",
+    ])
+    .optional(),
+  from: z.string().date("from must be a YYYY-MM-DD date").optional(),
+  to: z.string().date("to must be a YYYY-MM-DD date").optional(),
+});
+
+const subredditRulesSchema = z.strictObject({
+  max_self_promotion_ratio: z
+    .number()
+    .min(0, "Max self-promotion must be between 0% and 100%")
+    .max(1, "Max self-promotion must be between 0% and 100%")
+    .nullable()
+    .optional(),
+  allows_disclosed_vendor_posts: z.boolean().optional(),
+  required_flair: z.string().trim().nullable().optional(),
+  banned_topics: z.array(z.string().trim().min(1)).optional(),
+});
+
+const companyInfoSchema = z.strictObject({
+  website: z.string().trim().optional(),
+  description: z.string().trim().optional(),
+  icp: z.string().trim().optional(),
+  disclosure_template: z.string().trim().optional(),
+  approved_claims: z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, "Claim can't be empty")
+        .max(280, "Claim must be 280 characters or fewer")
+    )
+    .optional(),
+  competitors: z
+    .array(z.string().trim().min(1, "Competitor can't be empty").max(100))
+    .optional(),
+});
+
+const llmSettingsSchema = z.strictObject({
+  provider: z.enum(["openai", "stub"]).optional(),
+  model: z.string().trim().optional(),
+  reasoning_effort: z
+    .enum(["minimal", "low", "medium", "high"])
+    .nullable()
+    .optional(),
+});
+
+export const postingScheduleSchema = z
+  .strictObject({
+    days: z
+      .array(z.literal([0, 1, 2, 3, 4, 5, 6], "Unknown weekday"))
+      .min(1, "Pick at least one posting day")
+      .optional(),
+    start_hour: z
+      .number("Start hour must be a number")
+      .int()
+      .min(0, "Start hour must be between 0 and 23")
+      .max(23, "Start hour must be between 0 and 23")
+      .optional(),
+    end_hour: z
+      .number("End hour must be a number")
+      .int()
+      .min(1, "End hour must be between 1 and 24")
+      .max(24, "End hour must be between 1 and 24")
+      .optional(),
+    blackouts: z
+      .array(
+        z
+          .strictObject({
+            start_date: z.string().date("Blackout start must be a date"),
+            end_date: z.string().date("Blackout end must be a date"),
+            reason: z.string().trim(),
+          })
+          .refine((b) => b.start_date <= b.end_date, {
+            message: "Blackout end must be on or after its start",
+            path: ["end_date"],
+          })
+      )
+      .optional(),
+  })
+  .refine(
+    (s) =>
+      (s.start_hour ?? DEFAULT_POSTING_SCHEDULE.start_hour) <
+      (s.end_hour ?? DEFAULT_POSTING_SCHEDULE.end_hour),
+    { message: "Posting hours must end after they start", path: ["end_hour"] }
+  );
+
+const capLimitSchema = z
+  .number("Cap must be a number")
+  .int("Cap must be a whole number")
+  .min(0, "Cap can't be negative")
+  .nullable()
+  .optional();
+
+const volumeCapSchema = z.strictObject({
+  total: capLimitSchema,
+  promotional: capLimitSchema,
+});
+
+const capWindowsSchema = z.strictObject({
+  "7d": volumeCapSchema.optional(),
+  "30d": volumeCapSchema.optional(),
+  "90d": volumeCapSchema.optional(),
+});
+
+const volumeCapsSchema = z.strictObject({
+  community: capWindowsSchema.optional(),
+  account: capWindowsSchema.optional(),
+});
+
+const postsPerWeekSchema = z
+  .number("Posts per week must be a number")
+  .int("Posts per week must be a whole number")
+  .min(1, "Posts per week must be between 1 and 14")
+  .max(14, "Posts per week must be between 1 and 14");
+
+const timezoneSchema = z.string().refine(isValidTimeZone, "Unknown timezone");
+
+const campaignFields = {
+  name: z.string().trim().min(1, "Campaign name is required").max(200),
+  company_name: z.string().trim().min(1, "Company name is required").max(200),
+  company_info: companyInfoSchema,
+  posts_per_week: postsPerWeekSchema,
+  start_date: z.string().date("Start date must be a YYYY-MM-DD date"),
+  timezone: timezoneSchema,
+  llm_settings: llmSettingsSchema,
+  posting_schedule: postingScheduleSchema,
+  volume_caps: volumeCapsSchema,
+};
+
+export const createCampaignSchema = z.strictObject({
+  ...campaignFields,
+  company_info: campaignFields.company_info.default({}),
+  posts_per_week: campaignFields.posts_per_week.default(3),
+  start_date: campaignFields.start_date.optional(),
+  timezone: campaignFields.timezone.default("America/New_York"),
+  llm_settings: campaignFields.llm_settings.default({}),
+  posting_schedule: campaignFields.posting_schedule.default({}),
+  volume_caps: campaignFields.volume_caps.default({}),
+});
+
+export const updateCampaignSchema = z.strictObject(campaignFields).partial();
+
+const usernameSchema = z
+  .string()
+  .trim()
+  .transform((name) => name.replace(/^\/?u\//, ""))
+  .pipe(
+    z
+      .string()
+      .min(3, "Username must be 3 to 20 characters")
+      .max(20, "Username must be 3 to 20 characters")
+      .regex(
+        /^[A-Za-z0-9_-]+$/,
+        "Username can only contain letters, numbers, _ and -"
+      )
+  );
+
+const ownerNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name the person or team behind the account");
+
+const employerRelationshipSchema = z.enum(
+  ["employee", "founder", "contractor", "agency"],
+  "Pick how the account owner is connected to the company"
+);
+
+const personaDisclosureSchema = z
+  .string()
+  .trim()
+  .min(1, "Enter the disclosure this account uses");
+
+export const createPersonaSchema = z.strictObject({
+  username: usernameSchema,
+  bio: z.string().trim().min(1, "Bio is required"),
+  owner_name: ownerNameSchema,
+  employer_relationship: employerRelationshipSchema,
+  // Recorded as consent_given_at when the account is saved
+  consent: z.literal(true, "The account owner's consent is required"),
+  disclosure_text: personaDisclosureSchema,
+  profile_states_affiliation: z.boolean().default(false),
+});
+
+export const updatePersonaSchema = z.strictObject({
+  id: z.string().uuid("Invalid persona ID format"),
+  username: usernameSchema.optional(),
+  bio: z.string().trim().min(1, "Bio is required").optional(),
+  is_active: z.boolean().optional(),
+  owner_name: ownerNameSchema.optional(),
+  employer_relationship: employerRelationshipSchema.optional(),
+  // false withdraws consent
+  consent: z.boolean().optional(),
+  disclosure_text: personaDisclosureSchema.optional(),
+  profile_states_affiliation: z.boolean().optional(),
+});
+
+export const setOperatorSchema = z.strictObject({
+  personaId: z.string().uuid("Invalid persona ID format"),
+});
+
+const subredditNameSchema = z
+  .string()
+  .trim()
+  .transform((name) => name.replace(/^\/?r\//, ""))
+  .pipe(
+    z
+      .string()
+      .min(2, "Subreddit name must be 2 to 21 characters")
+      .max(21, "Subreddit name must be 2 to 21 characters")
+      .regex(
+        /^[A-Za-z0-9_]+$/,
+        "Subreddit name can only contain letters, numbers and _"
+      )
+  );
+
+export const createSubredditsSchema = z
+  .strictObject({
+    name: subredditNameSchema.optional(),
+    names: z.array(subredditNameSchema).optional(),
+    rules: subredditRulesSchema.default({}),
+  })
+  .refine((body) => body.name || (body.names && body.names.length > 0), {
+    message: "Add at least one subreddit",
+    path: ["names"],
+  });
+
+export const updateSubredditSchema = z.strictObject({
+  id: z.string().uuid("Invalid subreddit ID format"),
+  name: subredditNameSchema.optional(),
+  is_active: z.boolean().optional(),
+  rules: subredditRulesSchema.optional(),
+});
+
+const keywordTextSchema = z
+  .string()
+  .trim()
+  .min(1, "Keyword can't be blank")
+  .max(200, "Keyword must be at most 200 characters");
+
+export const createKeywordsSchema = z
+  .strictObject({
+    keyword_text: keywordTextSchema.optional(),
+    texts: z.array(keywordTextSchema).optional(),
+  })
+  .refine(
+    (body) => body.keyword_text || (body.texts && body.texts.length > 0),
+    { message: "Add at least one keyword", path: ["texts"] }
+  );
+
+export const updateKeywordSchema = z.strictObject({
+  id: z.string().uuid("Invalid keyword ID format"),
+  keyword_text: keywordTextSchema.optional(),
+  intent: z.string().trim().min(1, "Intent can't be blank").optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const campaignBundleSchema = z.object({
+  version: z.literal(1, "Unsupported bundle version"),
+  exported_at: z.string(),
+  campaign: z.object({
+    name: z.string().trim().min(1, "Campaign name is required"),
+    company_name: z.string().trim().min(1, "Company name is required"),
+    company_info: companyInfoSchema,
+    posts_per_week: postsPerWeekSchema,
+    start_date: z.string().date("start_date must be a YYYY-MM-DD date"),
+    timezone: timezoneSchema,
+    llm_settings: llmSettingsSchema,
+    // Added after version 1 was released, so older bundles may not have it
+    posting_schedule: postingScheduleSchema.default({}),
+    volume_caps: volumeCapsSchema.default({}),
+  }),
+  subreddits: z
+    .array(
+      z.object({
+        name: subredditNameSchema,
+        is_active: z.boolean(),
+        rules: subredditRulesSchema,
+      })
+    )
+    .refine(
+      (subs) =>
+        new Set(subs.map((s) => s.name.toLowerCase())).size === subs.length,
+      "Subreddit names must be unique"
+    ),
+  keywords: z
+    .array(
+      z.object({
+        keyword_code: z.string().trim().min(1, "Keyword code is required"),
+        keyword_text: z.string().trim().min(1, "Keyword text is required"),
+        intent: z.string().trim().min(1),
+        is_active: z.boolean(),
+      })
+    )
+    .refine(
+      (keywords) =>
+        new Set(keywords.map((k) => k.keyword_code)).size === keywords.length,
+      "Keyword codes must be unique"
+    ),
+});
+
+export const importCampaignSchema = z.object({
+  bundle: campaignBundleSchema,
+  // Merge into this campaign instead of creating a new one
+  campaignId: z.string().uuid("Invalid campaign ID format").optional(),
+  // Only report what would happen
+  dryRun: z.boolean().optional(),
+});
+
 export function formatZodError(error: z.ZodError): string {
   return error.issues.map((issue) => issue.message).join(", ");
 }
+
+/**
+ * The first error for each invalid field, keyed by its dotted path (e.g.
+ * `company_info.website` or `names.2`), for forms to show next to inputs.
+ * Errors about the body as a whole are left to formatZodError.
+ */
+export function getFieldErrors(error: z.ZodError): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  for (const issue of error.issues) {
+    const keys =
+      issue.code === "unrecognized_keys"
+        ? issue.keys.map((key) => [...issue.path, key])
+        : [issue.path];
+    for (const path of keys) {
+      const field = path.map(String).join(".");
+      if (field && !(field in fieldErrors)) {
+        fieldErrors[field] = issue.message;
+      }
+    }
+  }
+  return fieldErrors;
+}
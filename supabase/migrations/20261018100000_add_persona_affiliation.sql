@@ -0,0 +1,4 @@
+-- Personas run for the company must disclose the affiliation on everything
+-- they write.
+alter table personas
+  add column if not exists is_affiliated boolean not null default true;
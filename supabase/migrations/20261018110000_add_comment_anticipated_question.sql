@@ -0,0 +1,3 @@
+-- Brand-account replies each answer a question a reader is likely to ask.
+alter table planned_comments
+  add column if not exists anticipated_question text;
@@ -0,0 +1,8 @@
+-- Community rules, checked for every post planned in the subreddit. Posts
+-- keep the flair they need and the result of each rule check.
+alter table subreddits
+  add column if not exists rules jsonb not null default '{}'::jsonb;
+
+alter table planned_posts
+  add column if not exists flair text,
+  add column if not exists rule_report jsonb not null default '[]'::jsonb;
@@ -0,0 +1,6 @@
+-- Planned posts are scored against platform policy instead of detection
+-- risk. `compliance_report` lists each check with its pass/fail detail.
+alter table planned_posts
+  add column if not exists compliance_score numeric not null default 0,
+  add column if not exists compliance_report jsonb not null default '[]'::jsonb,
+  drop column if exists risk_score;
@@ -0,0 +1,19 @@
+-- Named sign-off for planned posts and comments. Generated items start in
+-- review; plans are ready once every item is approved.
+alter table planned_posts
+  add column if not exists review_status text not null default 'in_review'
+    check (review_status in ('draft', 'in_review', 'approved', 'rejected')),
+  add column if not exists reviewed_by text,
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists review_note text;
+
+alter table planned_comments
+  add column if not exists review_status text not null default 'in_review'
+    check (review_status in ('draft', 'in_review', 'approved', 'rejected')),
+  add column if not exists reviewed_by text,
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists review_note text;
+
+alter table weekly_plans drop constraint if exists weekly_plans_status_check;
+alter table weekly_plans add constraint weekly_plans_status_check
+  check (status in ('generating', 'in_review', 'ready'));
@@ -0,0 +1,4 @@
+-- Per-campaign LLM provider, model and reasoning effort. An empty object
+-- uses the defaults.
+alter table campaigns
+  add column if not exists llm_settings jsonb not null default '{}'::jsonb;
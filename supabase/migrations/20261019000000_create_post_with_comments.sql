@@ -0,0 +1,96 @@
+-- Save a generated post and its reply thread in one transaction.
+--
+-- `comments` is a JSON array of replies in thread order. Each reply's
+-- `reply_to_index` is the position of an earlier reply in the same array,
+-- or null for a top-level reply. Any error rolls back the whole thread.
+create or replace function create_post_with_comments(post jsonb, comments jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  saved_post planned_posts;
+  saved_comment planned_comments;
+  comment jsonb;
+  reply_to_index int;
+  comment_ids uuid[] := '{}';
+  saved_comments jsonb := '[]'::jsonb;
+begin
+  insert into planned_posts (
+    campaign_id,
+    weekly_plan_id,
+    subreddit_name,
+    author_persona_id,
+    post_type,
+    title,
+    body,
+    target_keyword_codes,
+    topic_key,
+    scheduled_at,
+    quality_score,
+    compliance_score,
+    compliance_report,
+    dedupe_hash,
+    flair,
+    rule_report,
+    review_status
+  )
+  values (
+    (post->>'campaign_id')::uuid,
+    (post->>'weekly_plan_id')::uuid,
+    post->>'subreddit_name',
+    (post->>'author_persona_id')::uuid,
+    post->>'post_type',
+    post->>'title',
+    post->>'body',
+    array(select jsonb_array_elements_text(post->'target_keyword_codes')),
+    post->>'topic_key',
+    (post->>'scheduled_at')::timestamptz,
+    (post->>'quality_score')::numeric,
+    (post->>'compliance_score')::numeric,
+    coalesce(post->'compliance_report', '[]'::jsonb),
+    post->>'dedupe_hash',
+    post->>'flair',
+    coalesce(post->'rule_report', '[]'::jsonb),
+    post->>'review_status'
+  )
+  returning * into saved_post;
+
+  for i in 0 .. coalesce(jsonb_array_length(comments), 0) - 1 loop
+    comment := comments->i;
+    reply_to_index := (comment->>'reply_to_index')::int;
+
+    if reply_to_index is not null and (reply_to_index < 0 or reply_to_index >= i) then
+      raise exception 'Comment % must reply to an earlier comment in its thread', i;
+    end if;
+
+    insert into planned_comments (
+      campaign_id,
+      planned_post_id,
+      author_persona_id,
+      reply_to_comment_id,
+      comment_text,
+      anticipated_question,
+      scheduled_at,
+      quality_score,
+      review_status
+    )
+    values (
+      saved_post.campaign_id,
+      saved_post.id,
+      (comment->>'author_persona_id')::uuid,
+      case when reply_to_index is null then null else comment_ids[reply_to_index + 1] end,
+      comment->>'comment_text',
+      comment->>'anticipated_question',
+      (comment->>'scheduled_at')::timestamptz,
+      (comment->>'quality_score')::numeric,
+      comment->>'review_status'
+    )
+    returning * into saved_comment;
+
+    comment_ids := comment_ids || saved_comment.id;
+    saved_comments := saved_comments || jsonb_build_array(to_jsonb(saved_comment));
+  end loop;
+
+  return jsonb_build_object('post', to_jsonb(saved_post), 'comments', saved_comments);
+end;
+$$;
@@ -0,0 +1,25 @@
+-- Background generation runs for weekly plans.
+--
+-- A job records which subreddits its run picked and how far it got, so an
+-- interrupted, failed or cancelled run can continue after its last
+-- completed post. `updated_at` doubles as the run's heartbeat.
+create table if not exists generation_jobs (
+  id uuid primary key default gen_random_uuid(),
+  campaign_id uuid not null references campaigns(id) on delete cascade,
+  weekly_plan_id uuid not null references weekly_plans(id) on delete cascade,
+  status text not null default 'running'
+    check (status in ('running', 'completed', 'failed', 'cancelled')),
+  subreddit_ids uuid[] not null default '{}',
+  completed_posts int not null default 0,
+  last_step text,
+  last_post_index int,
+  posts_generated int not null default 0,
+  comments_generated int not null default 0,
+  errors jsonb not null default '[]'::jsonb,
+  cancel_requested boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists generation_jobs_weekly_plan_id_idx
+  on generation_jobs (weekly_plan_id, created_at desc);
@@ -0,0 +1,12 @@
+-- Weekly plans can now end a run failed, partially failed or cancelled.
+-- Error details live in plan_json (`errors`, `error`).
+alter table weekly_plans drop constraint if exists weekly_plans_status_check;
+alter table weekly_plans add constraint weekly_plans_status_check
+  check (status in (
+    'generating',
+    'in_review',
+    'ready',
+    'partially_failed',
+    'failed',
+    'cancelled'
+  ));
@@ -0,0 +1,89 @@
+-- Earlier versions of a planned post, kept when its content is replaced so
+-- reviewers can compare.
+create table if not exists post_revisions (
+  id uuid primary key default gen_random_uuid(),
+  campaign_id uuid not null references campaigns(id) on delete cascade,
+  planned_post_id uuid not null references planned_posts(id) on delete cascade,
+  title text not null,
+  body text not null,
+  topic_key text not null,
+  target_keyword_codes text[] not null default '{}',
+  quality_score numeric not null,
+  compliance_score numeric not null,
+  compliance_report jsonb not null default '[]'::jsonb,
+  rule_report jsonb not null default '[]'::jsonb,
+  change text not null,
+  created_by text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists post_revisions_planned_post_id_idx
+  on post_revisions (planned_post_id, created_at desc);
+
+-- Replace a post's content and send it back to review, saving its current
+-- content as a revision in the same transaction.
+create or replace function revise_planned_post(post_id uuid, changes jsonb, revision jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  saved_post planned_posts;
+  saved_revision post_revisions;
+begin
+  insert into post_revisions (
+    campaign_id,
+    planned_post_id,
+    title,
+    body,
+    topic_key,
+    target_keyword_codes,
+    quality_score,
+    compliance_score,
+    compliance_report,
+    rule_report,
+    change,
+    created_by
+  )
+  select
+    campaign_id,
+    id,
+    title,
+    body,
+    topic_key,
+    target_keyword_codes,
+    quality_score,
+    compliance_score,
+    compliance_report,
+    rule_report,
+    revision->>'change',
+    revision->>'created_by'
+  from planned_posts
+  where id = post_id
+  returning * into saved_revision;
+
+  if saved_revision.id is null then
+    return null;
+  end if;
+
+  update planned_posts set
+    title = changes->>'title',
+    body = changes->>'body',
+    topic_key = changes->>'topic_key',
+    target_keyword_codes = array(select jsonb_array_elements_text(changes->'target_keyword_codes')),
+    quality_score = (changes->>'quality_score')::numeric,
+    compliance_score = (changes->>'compliance_score')::numeric,
+    compliance_report = coalesce(changes->'compliance_report', '[]'::jsonb),
+    rule_report = coalesce(changes->'rule_report', '[]'::jsonb),
+    flair = changes->>'flair',
+    dedupe_hash = changes->>'dedupe_hash',
+    review_status = 'in_review',
+    reviewed_by = null,
+    reviewed_at = null,
+    review_note = null,
+    updated_at = now()
+  where id = post_id
+  returning * into saved_post;
+
+  return jsonb_build_object('post', to_jsonb(saved_post), 'revision', to_jsonb(saved_revision));
+end;
+$$;
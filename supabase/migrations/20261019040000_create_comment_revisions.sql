@@ -0,0 +1,79 @@
+-- Earlier text of suggested replies, kept when a reviewer edits them.
+create table if not exists comment_revisions (
+  id uuid primary key default gen_random_uuid(),
+  campaign_id uuid not null references campaigns(id) on delete cascade,
+  planned_comment_id uuid not null references planned_comments(id) on delete cascade,
+  comment_text text not null,
+  quality_score numeric not null,
+  created_by text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists comment_revisions_planned_comment_id_idx
+  on comment_revisions (planned_comment_id, created_at desc);
+
+-- Replace a reply's text and send it back to review, saving its current
+-- text as a revision and updating its post's scores in the same
+-- transaction.
+create or replace function revise_planned_comment(
+  comment_id uuid,
+  changes jsonb,
+  revision jsonb,
+  post_scores jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  saved_comment planned_comments;
+  saved_revision comment_revisions;
+  saved_post planned_posts;
+begin
+  insert into comment_revisions (
+    campaign_id,
+    planned_comment_id,
+    comment_text,
+    quality_score,
+    created_by
+  )
+  select
+    campaign_id,
+    id,
+    comment_text,
+    quality_score,
+    revision->>'created_by'
+  from planned_comments
+  where id = comment_id
+  returning * into saved_revision;
+
+  if saved_revision.id is null then
+    return null;
+  end if;
+
+  update planned_comments set
+    comment_text = changes->>'comment_text',
+    quality_score = (changes->>'quality_score')::numeric,
+    review_status = 'in_review',
+    reviewed_by = null,
+    reviewed_at = null,
+    review_note = null,
+    updated_at = now()
+  where id = comment_id
+  returning * into saved_comment;
+
+  update planned_posts set
+    quality_score = (post_scores->>'quality_score')::numeric,
+    compliance_score = (post_scores->>'compliance_score')::numeric,
+    compliance_report = coalesce(post_scores->'compliance_report', '[]'::jsonb),
+    rule_report = coalesce(post_scores->'rule_report', '[]'::jsonb),
+    updated_at = now()
+  where id = saved_comment.planned_post_id
+  returning * into saved_post;
+
+  return jsonb_build_object(
+    'comment', to_jsonb(saved_comment),
+    'revision', to_jsonb(saved_revision),
+    'post', to_jsonb(saved_post)
+  );
+end;
+$$;
@@ -0,0 +1,90 @@
+-- Import a campaign bundle in one transaction.
+--
+-- With a null `target_campaign_id` the bundle's campaign is created;
+-- otherwise the subreddits and keywords are added to that campaign, whose
+-- settings are left as they are. The caller passes only the subreddits and
+-- keywords to create, after checking the bundle for conflicts.
+create or replace function import_campaign_bundle(
+  target_campaign_id uuid,
+  campaign jsonb,
+  subreddits jsonb,
+  keywords jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  saved_campaign campaigns;
+  saved_subreddits jsonb;
+  saved_keywords jsonb;
+begin
+  if target_campaign_id is null then
+    insert into campaigns (
+      name,
+      company_name,
+      company_info,
+      posts_per_week,
+      start_date,
+      timezone,
+      llm_settings
+    )
+    values (
+      campaign->>'name',
+      campaign->>'company_name',
+      coalesce(campaign->'company_info', '{}'::jsonb),
+      (campaign->>'posts_per_week')::int,
+      (campaign->>'start_date')::date,
+      campaign->>'timezone',
+      coalesce(campaign->'llm_settings', '{}'::jsonb)
+    )
+    returning * into saved_campaign;
+  else
+    select * into saved_campaign from campaigns where id = target_campaign_id;
+
+    if saved_campaign.id is null then
+      raise exception 'Campaign not found';
+    end if;
+  end if;
+
+  with inserted as (
+    insert into subreddits (campaign_id, name, is_active, rules)
+    select
+      saved_campaign.id,
+      s->>'name',
+      (s->>'is_active')::boolean,
+      coalesce(s->'rules', '{}'::jsonb)
+    from jsonb_array_elements(coalesce(subreddits, '[]'::jsonb)) as s
+    returning *
+  )
+  select coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::jsonb)
+  into saved_subreddits
+  from inserted;
+
+  with inserted as (
+    insert into keywords (
+      campaign_id,
+      keyword_code,
+      keyword_text,
+      intent,
+      is_active
+    )
+    select
+      saved_campaign.id,
+      k->>'keyword_code',
+      k->>'keyword_text',
+      k->>'intent',
+      (k->>'is_active')::boolean
+    from jsonb_array_elements(coalesce(keywords, '[]'::jsonb)) as k
+    returning *
+  )
+  select coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::jsonb)
+  into saved_keywords
+  from inserted;
+
+  return jsonb_build_object(
+    'campaign', to_jsonb(saved_campaign),
+    'subreddits', saved_subreddits,
+    'keywords', saved_keywords
+  );
+end;
+$$;
@@ -0,0 +1,9 @@
+-- Personas are real accounts run for the company. Content is only assigned
+-- to accounts with every one of these recorded (see getMissingAccountDetails).
+alter table personas
+  add column if not exists owner_name text,
+  add column if not exists employer_relationship text
+    check (employer_relationship in ('employee', 'founder', 'contractor', 'agency')),
+  add column if not exists consent_given_at timestamptz,
+  add column if not exists disclosure_text text,
+  add column if not exists profile_states_affiliation boolean not null default false;
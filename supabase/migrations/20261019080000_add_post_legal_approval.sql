@@ -0,0 +1,140 @@
+-- Who from legal signed off on a post whose thread compares the product
+-- with competitors. Cleared whenever the post or one of its replies changes.
+alter table planned_posts
+  add column if not exists legal_approved_by text,
+  add column if not exists legal_approved_at timestamptz;
+
+-- Revising a post now clears its legal approval.
+create or replace function revise_planned_post(post_id uuid, changes jsonb, revision jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  saved_post planned_posts;
+  saved_revision post_revisions;
+begin
+  insert into post_revisions (
+    campaign_id,
+    planned_post_id,
+    title,
+    body,
+    topic_key,
+    target_keyword_codes,
+    quality_score,
+    compliance_score,
+    compliance_report,
+    rule_report,
+    change,
+    created_by
+  )
+  select
+    campaign_id,
+    id,
+    title,
+    body,
+    topic_key,
+    target_keyword_codes,
+    quality_score,
+    compliance_score,
+    compliance_report,
+    rule_report,
+    revision->>'change',
+    revision->>'created_by'
+  from planned_posts
+  where id = post_id
+  returning * into saved_revision;
+
+  if saved_revision.id is null then
+    return null;
+  end if;
+
+  update planned_posts set
+    title = changes->>'title',
+    body = changes->>'body',
+    topic_key = changes->>'topic_key',
+    target_keyword_codes = array(select jsonb_array_elements_text(changes->'target_keyword_codes')),
+    quality_score = (changes->>'quality_score')::numeric,
+    compliance_score = (changes->>'compliance_score')::numeric,
+    compliance_report = coalesce(changes->'compliance_report', '[]'::jsonb),
+    rule_report = coalesce(changes->'rule_report', '[]'::jsonb),
+    flair = changes->>'flair',
+    dedupe_hash = changes->>'dedupe_hash',
+    review_status = 'in_review',
+    reviewed_by = null,
+    reviewed_at = null,
+    review_note = null,
+    legal_approved_by = null,
+    legal_approved_at = null,
+    updated_at = now()
+  where id = post_id
+  returning * into saved_post;
+
+  return jsonb_build_object('post', to_jsonb(saved_post), 'revision', to_jsonb(saved_revision));
+end;
+$$;
+
+-- Revising a reply now clears its post's legal approval.
+create or replace function revise_planned_comment(
+  comment_id uuid,
+  changes jsonb,
+  revision jsonb,
+  post_scores jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  saved_comment planned_comments;
+  saved_revision comment_revisions;
+  saved_post planned_posts;
+begin
+  insert into comment_revisions (
+    campaign_id,
+    planned_comment_id,
+    comment_text,
+    quality_score,
+    created_by
+  )
+  select
+    campaign_id,
+    id,
+    comment_text,
+    quality_score,
+    revision->>'created_by'
+  from planned_comments
+  where id = comment_id
+  returning * into saved_revision;
+
+  if saved_revision.id is null then
+    return null;
+  end if;
+
+  update planned_comments set
+    comment_text = changes->>'comment_text',
+    quality_score = (changes->>'quality_score')::numeric,
+    review_status = 'in_review',
+    reviewed_by = null,
+    reviewed_at = null,
+    review_note = null,
+    updated_at = now()
+  where id = comment_id
+  returning * into saved_comment;
+
+  update planned_posts set
+    quality_score = (post_scores->>'quality_score')::numeric,
+    compliance_score = (post_scores->>'compliance_score')::numeric,
+    compliance_report = coalesce(post_scores->'compliance_report', '[]'::jsonb),
+    rule_report = coalesce(post_scores->'rule_report', '[]'::jsonb),
+    legal_approved_by = null,
+    legal_approved_at = null,
+    updated_at = now()
+  where id = saved_comment.planned_post_id
+  returning * into saved_post;
+
+  return jsonb_build_object(
+    'comment', to_jsonb(saved_comment),
+    'revision', to_jsonb(saved_revision),
+    'post', to_jsonb(saved_post)
+  );
+end;
+$$;
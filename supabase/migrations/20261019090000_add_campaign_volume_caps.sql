@@ -0,0 +1,95 @@
+-- Hard limits on posts and replies over rolling 7, 30 and 90 day windows,
+-- per community and per account, for all items and for promotional ones.
+-- An empty object means no caps.
+alter table campaigns
+  add column if not exists volume_caps jsonb not null default '{}'::jsonb;
+
+-- Bundles now carry the volume caps too.
+create or replace function import_campaign_bundle(
+  target_campaign_id uuid,
+  campaign jsonb,
+  subreddits jsonb,
+  keywords jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  saved_campaign campaigns;
+  saved_subreddits jsonb;
+  saved_keywords jsonb;
+begin
+  if target_campaign_id is null then
+    insert into campaigns (
+      name,
+      company_name,
+      company_info,
+      posts_per_week,
+      start_date,
+      timezone,
+      llm_settings,
+      posting_schedule,
+      volume_caps
+    )
+    values (
+      campaign->>'name',
+      campaign->>'company_name',
+      coalesce(campaign->'company_info', '{}'::jsonb),
+      (campaign->>'posts_per_week')::int,
+      (campaign->>'start_date')::date,
+      campaign->>'timezone',
+      coalesce(campaign->'llm_settings', '{}'::jsonb),
+      coalesce(campaign->'posting_schedule', '{}'::jsonb),
+      coalesce(campaign->'volume_caps', '{}'::jsonb)
+    )
+    returning * into saved_campaign;
+  else
+    select * into saved_campaign from campaigns where id = target_campaign_id;
+
+    if saved_campaign.id is null then
+      raise exception 'Campaign not found';
+    end if;
+  end if;
+
+  with inserted as (
+    insert into subreddits (campaign_id, name, is_active, rules)
+    select
+      saved_campaign.id,
+      s->>'name',
+      (s->>'is_active')::boolean,
+      coalesce(s->'rules', '{}'::jsonb)
+    from jsonb_array_elements(coalesce(subreddits, '[]'::jsonb)) as s
+    returning *
+  )
+  select coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::jsonb)
+  into saved_subreddits
+  from inserted;
+
+  with inserted as (
+    insert into keywords (
+      campaign_id,
+      keyword_code,
+      keyword_text,
+      intent,
+      is_active
+    )
+    select
+      saved_campaign.id,
+      k->>'keyword_code',
+      k->>'keyword_text',
+      k->>'intent',
+      (k->>'is_active')::boolean
+    from jsonb_array_elements(coalesce(keywords, '[]'::jsonb)) as k
+    returning *
+  )
+  select coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::jsonb)
+  into saved_keywords
+  from inserted;
+
+  return jsonb_build_object(
+    'campaign', to_jsonb(saved_campaign),
+    'subreddits', saved_subreddits,
+    'keywords', saved_keywords
+  );
+end;
+$$;
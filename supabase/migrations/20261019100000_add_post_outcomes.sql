@@ -0,0 +1,48 @@
+-- What happened to a post after the team published it by hand.
+alter table planned_posts
+  add column if not exists outcome text
+    check (outcome in ('live', 'removed_by_mods', 'removed_by_admins', 'warned')),
+  add column if not exists outcome_note text,
+  add column if not exists outcome_recorded_by text,
+  add column if not exists outcome_recorded_at timestamptz;
+
+-- Save a post's outcome and, for removals and warnings, deactivate its
+-- community for the campaign until someone reviews it. Returns the community
+-- only when it was deactivated.
+create or replace function record_post_outcome(post_id uuid, outcome jsonb, pause_subreddit boolean)
+returns jsonb
+language plpgsql
+as $$
+declare
+  saved_post planned_posts;
+  paused subreddits;
+begin
+  update planned_posts set
+    outcome = record_post_outcome.outcome->>'outcome',
+    outcome_note = record_post_outcome.outcome->>'outcome_note',
+    outcome_recorded_by = record_post_outcome.outcome->>'outcome_recorded_by',
+    outcome_recorded_at = (record_post_outcome.outcome->>'outcome_recorded_at')::timestamptz,
+    updated_at = now()
+  where id = post_id
+  returning * into saved_post;
+
+  if saved_post.id is null then
+    return null;
+  end if;
+
+  if pause_subreddit then
+    update subreddits set
+      is_active = false,
+      updated_at = now()
+    where campaign_id = saved_post.campaign_id
+      and name = saved_post.subreddit_name
+      and is_active
+    returning * into paused;
+  end if;
+
+  return jsonb_build_object(
+    'post', to_jsonb(saved_post),
+    'subreddit', case when paused.id is null then null else to_jsonb(paused) end
+  );
+end;
+$$;
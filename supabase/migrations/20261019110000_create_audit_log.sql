@@ -0,0 +1,146 @@
+-- Append-only record of every change to a campaign.
+--
+-- `campaign_id` has no foreign key so records outlive the campaign they
+-- describe.
+create table if not exists audit_log (
+  id uuid primary key default gen_random_uuid(),
+  campaign_id uuid not null,
+  actor text not null,
+  entity_type text not null,
+  entity_id uuid,
+  action text not null,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_campaign_id_idx
+  on audit_log (campaign_id, created_at desc);
+
+-- Records can't be changed or removed, by anyone.
+create or replace function prevent_audit_log_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists audit_log_append_only on audit_log;
+create trigger audit_log_append_only
+  before update or delete on audit_log
+  for each row execute function prevent_audit_log_changes();
+
+drop trigger if exists audit_log_no_truncate on audit_log;
+create trigger audit_log_no_truncate
+  before truncate on audit_log
+  for each statement execute function prevent_audit_log_changes();
+
+-- Only record_audit writes records.
+revoke insert, update, delete, truncate on audit_log from anon, authenticated;
+
+-- Write an audit record for a changed row, in the same transaction as the
+-- change. The actor comes from the request's x-audit-actor header
+-- (base64-encoded UTF-8); writes without one, like background generation,
+-- aren't audited. x-audit-entity and x-audit-action name the change for
+-- rows of that entity type, e.g. approving a post.
+--
+-- The trigger's argument is the entity type of the table's rows.
+create or replace function record_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  headers jsonb := coalesce(
+    nullif(current_setting('request.headers', true), '')::jsonb,
+    '{}'::jsonb
+  );
+  actor_header text := headers->>'x-audit-actor';
+  entity_type text := tg_argv[0];
+  before_row jsonb := case when tg_op = 'INSERT' then null else to_jsonb(old) end;
+  after_row jsonb := case when tg_op = 'DELETE' then null else to_jsonb(new) end;
+  changed jsonb := coalesce(after_row, before_row);
+  change_action text := case tg_op
+    when 'INSERT' then 'create'
+    when 'UPDATE' then 'update'
+    else 'delete'
+  end;
+  entity_id uuid := (changed->>'id')::uuid;
+begin
+  if actor_header is null or actor_header = '' then
+    return null;
+  end if;
+
+  if headers->>'x-audit-entity' = entity_type and headers ? 'x-audit-action' then
+    change_action := headers->>'x-audit-action';
+  end if;
+
+  -- Jobs are recorded against the plan they generate.
+  if tg_table_name = 'generation_jobs' then
+    entity_id := (changed->>'weekly_plan_id')::uuid;
+    before_row := case when before_row is null then null
+      else jsonb_build_object('generation_job', before_row) end;
+    after_row := case when after_row is null then null
+      else jsonb_build_object('generation_job', after_row) end;
+  end if;
+
+  insert into audit_log (campaign_id, actor, entity_type, entity_id, action, before, after)
+  values (
+    case when tg_table_name = 'campaigns'
+      then (changed->>'id')::uuid
+      else (changed->>'campaign_id')::uuid
+    end,
+    convert_from(decode(actor_header, 'base64'), 'UTF8'),
+    entity_type,
+    entity_id,
+    change_action,
+    before_row,
+    after_row
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists audit_campaigns on campaigns;
+create trigger audit_campaigns
+  after insert or update or delete on campaigns
+  for each row execute function record_audit('campaign');
+
+drop trigger if exists audit_personas on personas;
+create trigger audit_personas
+  after insert or update or delete on personas
+  for each row execute function record_audit('persona');
+
+drop trigger if exists audit_subreddits on subreddits;
+create trigger audit_subreddits
+  after insert or update or delete on subreddits
+  for each row execute function record_audit('subreddit');
+
+drop trigger if exists audit_keywords on keywords;
+create trigger audit_keywords
+  after insert or update or delete on keywords
+  for each row execute function record_audit('keyword');
+
+drop trigger if exists audit_weekly_plans on weekly_plans;
+create trigger audit_weekly_plans
+  after insert or update or delete on weekly_plans
+  for each row execute function record_audit('weekly_plan');
+
+drop trigger if exists audit_generation_jobs on generation_jobs;
+create trigger audit_generation_jobs
+  after insert or update or delete on generation_jobs
+  for each row execute function record_audit('weekly_plan');
+
+drop trigger if exists audit_planned_posts on planned_posts;
+create trigger audit_planned_posts
+  after insert or update or delete on planned_posts
+  for each row execute function record_audit('planned_post');
+
+drop trigger if exists audit_planned_comments on planned_comments;
+create trigger audit_planned_comments
+  after insert or update or delete on planned_comments
+  for each row execute function record_audit('planned_comment');
@@ -0,0 +1,3 @@
+-- Every persona is run for the company and must disclose, so there is no
+-- longer a way to mark one as unaffiliated.
+alter table personas drop column if exists is_affiliated;
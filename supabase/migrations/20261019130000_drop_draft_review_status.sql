@@ -0,0 +1,12 @@
+-- Review has no draft state: rejected and approved items go straight back
+-- to review when their content changes.
+update planned_posts set review_status = 'in_review' where review_status = 'draft';
+update planned_comments set review_status = 'in_review' where review_status = 'draft';
+
+alter table planned_posts drop constraint if exists planned_posts_review_status_check;
+alter table planned_posts add constraint planned_posts_review_status_check
+  check (review_status in ('in_review', 'approved', 'rejected'));
+
+alter table planned_comments drop constraint if exists planned_comments_review_status_check;
+alter table planned_comments add constraint planned_comments_review_status_check
+  check (review_status in ('in_review', 'approved', 'rejected'));
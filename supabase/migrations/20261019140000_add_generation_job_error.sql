@@ -0,0 +1,4 @@
+-- Why a job's last run stopped on an error, kept apart from the per-post
+-- skip reasons in `errors` so a resumed run doesn't carry it forward.
+alter table generation_jobs
+  add column if not exists error text;